@@ -0,0 +1,53 @@
+#!/usr/bin/env node
+import { readFile, writeFile } from "node:fs/promises";
+import path from "node:path";
+import process from "node:process";
+import { parseArgs } from "node:util";
+import { generateRouteTypes } from "../cli/route-types.mjs";
+
+const USAGE = `Usage: ui5-guard-router-routes [manifest] [--out <file>] [--check]
+
+Generate a .d.ts route map from a UI5 manifest.json for TypedGuardRouter.
+
+  manifest      Path to manifest.json (default: webapp/manifest.json)
+  --out, -o     Output file (default: routes.d.ts next to the manifest)
+  --check       Exit with code 1 instead of writing when the output is outdated
+  --help, -h    Show this help`;
+
+async function main() {
+	const { values, positionals } = parseArgs({
+		allowPositionals: true,
+		options: {
+			out: { type: "string", short: "o" },
+			check: { type: "boolean", default: false },
+			help: { type: "boolean", short: "h", default: false },
+		},
+	});
+	if (values.help) {
+		console.log(USAGE);
+		return;
+	}
+
+	const manifestPath = path.resolve(positionals[0] ?? "webapp/manifest.json");
+	const outPath = path.resolve(values.out ?? path.join(path.dirname(manifestPath), "routes.d.ts"));
+	const manifest = JSON.parse(await readFile(manifestPath, "utf8"));
+	const source = path.relative(path.dirname(outPath), manifestPath).split(path.sep).join("/");
+	const contents = generateRouteTypes(manifest, { source });
+
+	if (values.check) {
+		const current = await readFile(outPath, "utf8").catch(() => null);
+		if (current !== contents) {
+			console.error(`${path.relative(process.cwd(), outPath)} is outdated, run ui5-guard-router-routes`);
+			process.exitCode = 1;
+		}
+		return;
+	}
+
+	await writeFile(outPath, contents);
+	console.log(`Wrote ${path.relative(process.cwd(), outPath)}`);
+}
+
+main().catch((error) => {
+	console.error(error instanceof Error ? error.message : error);
+	process.exitCode = 1;
+});
@@ -0,0 +1,58 @@
+#!/usr/bin/env node
+import { readFile } from "node:fs/promises";
+import path from "node:path";
+import process from "node:process";
+import { parseArgs } from "node:util";
+import { validateManifest } from "../cli/validate-manifest.mjs";
+
+const USAGE = `Usage: ui5-guard-router-validate [manifest] [--webapp <dir>] [--json] [--strict]
+
+Validate the guardRouter configuration of a UI5 manifest.json.
+
+  manifest      Path to manifest.json (default: webapp/manifest.json)
+  --webapp      Directory with the app sources (default: the manifest's directory)
+  --json        Print the diagnostics as a JSON array
+  --strict      Exit with code 1 on warnings too
+  --help, -h    Show this help
+
+Exits with code 1 when an error is reported.`;
+
+async function main() {
+	const { values, positionals } = parseArgs({
+		allowPositionals: true,
+		options: {
+			webapp: { type: "string" },
+			json: { type: "boolean", default: false },
+			strict: { type: "boolean", default: false },
+			help: { type: "boolean", short: "h", default: false },
+		},
+	});
+	if (values.help) {
+		console.log(USAGE);
+		return;
+	}
+
+	const manifestPath = path.resolve(positionals[0] ?? "webapp/manifest.json");
+	const webapp = path.resolve(values.webapp ?? path.dirname(manifestPath));
+	const manifest = JSON.parse(await readFile(manifestPath, "utf8"));
+	const diagnostics = await validateManifest(manifest, { webapp });
+
+	if (values.json) {
+		console.log(JSON.stringify(diagnostics, null, "\t"));
+	} else {
+		const source = path.relative(process.cwd(), manifestPath);
+		for (const { severity, code, path: location, message } of diagnostics) {
+			console.log(`${source}: ${severity} ${location}: ${message} (${code})`);
+		}
+	}
+
+	const failing = values.strict ? ["error", "warning"] : ["error"];
+	if (diagnostics.some((diagnostic) => failing.includes(diagnostic.severity))) {
+		process.exitCode = 1;
+	}
+}
+
+main().catch((error) => {
+	console.error(error instanceof Error ? error.message : error);
+	process.exitCode = 1;
+});
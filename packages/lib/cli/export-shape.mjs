@@ -0,0 +1,149 @@
+/**
+ * Static description of the default export of a guard, resolver, or error
+ * handler module, for the manifest validator. A lightweight scanner, not a
+ * parser: it follows `export default` through object and array literals and
+ * identifiers declared in the same file, and reports everything else (such
+ * as `sap.ui.define` modules or computed values) as `unknown`.
+ */
+
+const IDENTIFIER = /^[A-Za-z_$][\w$]*$/u;
+const PROPERTY = /^(?:(["'])(.*?)\1|([\w$]+))\s*:/u;
+const METHOD = /^(?:async\s+)?\*?\s*(?:(["'])(.*?)\1|([\w$]+))\s*(?:<[^>]*>)?\s*\(/u;
+
+/** Index after the string or template literal starting at `start`. */
+function skipString(source, start) {
+	const quote = source[start];
+	let i = start + 1;
+	while (i < source.length && source[i] !== quote) {
+		i += source[i] === "\\" ? 2 : 1;
+	}
+	return i + 1;
+}
+
+/** Replace comments with spaces, keeping string and template literals intact. */
+function stripComments(source) {
+	let code = "";
+	let i = 0;
+	while (i < source.length) {
+		const ch = source[i];
+		if (ch === "/" && source[i + 1] === "/") {
+			const end = source.indexOf("\n", i);
+			i = end === -1 ? source.length : end;
+		} else if (ch === "/" && source[i + 1] === "*") {
+			const end = source.indexOf("*/", i + 2);
+			i = end === -1 ? source.length : end + 2;
+			code += " ";
+		} else if (ch === '"' || ch === "'" || ch === "`") {
+			const end = skipString(source, i);
+			code += source.slice(i, end);
+			i = end;
+		} else {
+			code += ch;
+			i++;
+		}
+	}
+	return code;
+}
+
+/**
+ * Split the contents of the bracket opening at `open` on its top-level commas.
+ *
+ * @returns {{ items: string[], end: number } | null} Trimmed items and the index of
+ *   the closing bracket, or `null` when the bracket is not closed.
+ */
+function scanBracket(code, open) {
+	const items = [];
+	let depth = 0;
+	let start = open + 1;
+	for (let i = open; i < code.length; i++) {
+		const ch = code[i];
+		if (ch === '"' || ch === "'" || ch === "`") {
+			i = skipString(code, i) - 1;
+		} else if (ch === "(" || ch === "[" || ch === "{") {
+			depth++;
+		} else if (ch === ")" || ch === "]" || ch === "}") {
+			depth--;
+			if (depth === 0) {
+				items.push(code.slice(start, i));
+				return { items: items.map((item) => item.trim()).filter((item) => item !== ""), end: i };
+			}
+		} else if (ch === "," && depth === 1) {
+			items.push(code.slice(start, i));
+			start = i + 1;
+		}
+	}
+	return null;
+}
+
+function isArrowFunction(text) {
+	const body = text.replace(/^async\s+/u, "");
+	if (/^[A-Za-z_$][\w$]*\s*=>/u.test(body)) return true;
+	const open = body.indexOf("(");
+	if (open === -1 || !/^(?:<[^>]*>\s*)?\($/u.test(body.slice(0, open + 1))) return false;
+	const scanned = scanBracket(body, open);
+	return scanned !== null && /^\s*(?::[^=]*)?=>/u.test(body.slice(scanned.end + 1));
+}
+
+/** Key and value kind of an object literal member, or `null` for spreads and accessors. */
+function describeProperty(text, code, depth) {
+	const property = PROPERTY.exec(text);
+	if (property) return [property[2] ?? property[3], describeValue(text.slice(property[0].length), code, depth).kind];
+	const method = METHOD.exec(text);
+	if (method && !/^(?:get|set)\s/u.test(text)) return [method[2] ?? method[3], "function"];
+	if (IDENTIFIER.test(text)) return [text, describeValue(text, code, depth).kind];
+	return null;
+}
+
+/**
+ * Describe the value of the expression at the start of `text`. Identifiers
+ * are followed to their declaration in `code`.
+ *
+ * @returns {{ kind: "function" | "array" | "object" | "other" | "unknown", elements?: string[],
+ *   properties?: [string, string][], complete?: boolean }}
+ *   `elements` and `properties` hold the kinds of the members of array and object literals;
+ *   `complete` is `false` when spreads hide some of them.
+ */
+function describeValue(text, code, depth) {
+	const value = text.trimStart();
+	if (/^(?:async\s+)?function\b/u.test(value) || /^class\b/u.test(value) || isArrowFunction(value)) {
+		return { kind: "function" };
+	}
+	if (value.startsWith("[") || value.startsWith("{")) {
+		const scanned = scanBracket(value, 0);
+		if (scanned === null) return { kind: "unknown" };
+		if (value.startsWith("[")) {
+			return {
+				kind: "array",
+				elements: scanned.items.map((item) =>
+					item.startsWith("...") ? "unknown" : describeValue(item, code, depth).kind,
+				),
+				complete: !scanned.items.some((item) => item.startsWith("...")),
+			};
+		}
+		const properties = scanned.items.map((item) => describeProperty(item, code, depth));
+		return {
+			kind: "object",
+			properties: properties.filter((property) => property !== null),
+			complete: !properties.includes(null),
+		};
+	}
+	if (/^(?:["'`\d]|-\d|(?:true|false|null|undefined)\b)/u.test(value)) return { kind: "other" };
+
+	const identifier = /^([A-Za-z_$][\w$]*)\s*(?:(?:as|satisfies)\b[^;\n]*)?(?:;|\n|$)/u.exec(value);
+	if (identifier === null || depth >= 5) return { kind: "unknown" };
+	const name = identifier[1].replace(/\$/g, "\\$");
+	if (new RegExp(`\\b(?:function\\s*\\*?|class)\\s+${name}\\b`, "u").test(code)) return { kind: "function" };
+	const declaration = new RegExp(`\\b(?:const|let|var)\\s+${name}\\s*(?::[^=]+)?=(?!>)`, "u").exec(code);
+	if (declaration === null) return { kind: "unknown" };
+	return describeValue(code.slice(declaration.index + declaration[0].length), code, depth + 1);
+}
+
+/**
+ * Describe the default export of an ES module source. Modules without a
+ * default export, such as `sap.ui.define` modules, are reported as `unknown`.
+ */
+export function describeModuleExport(source) {
+	const code = stripComments(source);
+	const match = /\bexport\s+default\s+/u.exec(code);
+	return match === null ? { kind: "unknown" } : describeValue(code.slice(match.index + match[0].length), code, 0);
+}
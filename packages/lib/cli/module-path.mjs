@@ -0,0 +1,41 @@
+// Generated from src/modulePath.ts by scripts/generate-cli-module-path.mjs. Do not edit.
+/*
+ * Module path notation of manifest guard, resolver, and error handler entries.
+ * Free of UI5 dependencies: the manifest validator imports it as
+ * cli/module-path.mjs, generated from this file by `npm run generate:cli`.
+ */
+/**
+ * Resolve a guard module path to a slash-separated AMD module path.
+ *
+ * Inspired by `sap.ui.core.routing.Target._getEffectiveObjectName()`,
+ * which skips namespace prepending for `"module:"`-prefixed paths. This
+ * function goes further: it also converts dots to slashes in a single
+ * step, so both dot notation (`module:some.lib.guard`) and slash
+ * notation (`module:some/lib/guard`) are accepted.
+ *
+ * - Paths prefixed with `"module:"` are treated as absolute (the prefix
+ *   is stripped, dots become slashes).
+ * - All other paths are prefixed with the component namespace, then dots
+ *   become slashes.
+ */
+export function resolveGuardModulePath(dotPath, componentNamespace) {
+	if (dotPath.startsWith("module:")) {
+		return dotPath.slice("module:".length).replace(/\./g, "/");
+	}
+	const fullDotPath = componentNamespace ? componentNamespace + "." + dotPath : dotPath;
+	return fullDotPath.replace(/\./g, "/");
+}
+/**
+ * Split a manifest guard entry on the first `#` to separate the module path
+ * from an optional export key, then derive a human-readable guard name.
+ */
+export function parseGuardEntry(entry, componentNamespace) {
+	const hashIndex = entry.indexOf("#");
+	const rawPath = hashIndex === -1 ? entry : entry.slice(0, hashIndex);
+	const exportKey = hashIndex === -1 ? undefined : entry.slice(hashIndex + 1);
+	const modulePath = resolveGuardModulePath(rawPath, componentNamespace);
+	// Name: export key if present, otherwise last segment of the dot path
+	const lastSegment = rawPath.split(".").pop() ?? rawPath;
+	const name = exportKey ?? lastSegment;
+	return { modulePath, name, exportKey };
+}
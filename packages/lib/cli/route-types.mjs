@@ -0,0 +1,123 @@
+/**
+ * Generate a TypeScript declaration file with the route map of a UI5 app
+ * from its manifest.json, for use with `TypedGuardRouter`.
+ */
+
+const IDENTIFIER = /^[A-Za-z_$][\w$]*$/u;
+const MANDATORY_PARAMETER = /\{(\?)?(\w+)(\*)?\}/gu;
+const OPTIONAL_PARAMETER = /:(\?)?(\w+)(\*)?:/gu;
+
+function isRecord(value) {
+	return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function propertyKey(key) {
+	return IDENTIFIER.test(key) ? key : JSON.stringify(key);
+}
+
+/**
+ * Read the routes of `sap.ui5.routing.routes`, declared as an array or as
+ * an object keyed by route name.
+ *
+ * @returns {{ name: string, pattern: string }[]}
+ */
+export function readRoutes(manifest) {
+	const routes = manifest?.["sap.ui5"]?.routing?.routes;
+	const entries = Array.isArray(routes)
+		? routes.map((route) => [route?.name, route])
+		: isRecord(routes)
+			? Object.entries(routes).map(([name, route]) => [route?.name ?? name, route])
+			: [];
+	return entries
+		.filter(([name, route]) => typeof name === "string" && isRecord(route))
+		.map(([name, route]) => ({ name, pattern: typeof route.pattern === "string" ? route.pattern : "" }));
+}
+
+/**
+ * Parameters of a route pattern, as passed to `navTo()` and reported in the
+ * route arguments: `{id}` is mandatory, `:id:` optional, `{?query}` a query
+ * object under the key `"?query"`, and `{all*}` a rest string under `"all*"`.
+ *
+ * @returns {{ key: string, optional: boolean, query: boolean }[]}
+ */
+export function parsePatternParameters(pattern) {
+	const parameters = [];
+	for (const [regex, optional] of [
+		[MANDATORY_PARAMETER, false],
+		[OPTIONAL_PARAMETER, true],
+	]) {
+		for (const [, query, name, rest] of pattern.matchAll(regex)) {
+			parameters.push({ key: `${query ?? ""}${name}${rest ?? ""}`, optional, query: query !== undefined });
+		}
+	}
+	return parameters;
+}
+
+/** Object type with the given `key: type` members, e.g. `{ id: string; tab?: string }`. */
+function objectType(members) {
+	return members.length === 0 ? "Record<string, never>" : `{ ${members.join("; ")} }`;
+}
+
+/** TypeScript type of a JSON value, e.g. `{ section: string; public: boolean }`. */
+function jsonType(value) {
+	if (value === null) return "null";
+	if (Array.isArray(value)) {
+		const elements = [...new Set(value.map(jsonType))];
+		if (elements.length === 0) return "unknown[]";
+		return elements.length === 1 ? `${elements[0]}[]` : `(${elements.join(" | ")})[]`;
+	}
+	if (isRecord(value)) {
+		return objectType(Object.entries(value).map(([key, item]) => `${propertyKey(key)}: ${jsonType(item)}`));
+	}
+	return typeof value === "number" || typeof value === "string" || typeof value === "boolean"
+		? typeof value
+		: "unknown";
+}
+
+function routeType(route) {
+	return objectType(
+		parsePatternParameters(route.pattern).map(
+			({ key, optional, query }) =>
+				`${propertyKey(key)}${optional ? "?" : ""}: ${query ? "Record<string, string>" : "string"}`,
+		),
+	);
+}
+
+/**
+ * Generate the declaration file contents.
+ *
+ * Emits `Routes` (route name to parameters), `RouteMeta` (route name to the
+ * shape of its `guardRouter.routeMeta` entry), `RouteName`, and `AppRouter`,
+ * the router typed with both maps.
+ *
+ * @param manifest - Parsed manifest.json.
+ * @param {{ source?: string }} [options] - `source`: manifest path named in the header comment.
+ * @returns {string}
+ */
+export function generateRouteTypes(manifest, options = {}) {
+	const routes = readRoutes(manifest);
+	const routeMeta = manifest?.["sap.ui5"]?.routing?.config?.guardRouter?.routeMeta;
+	const metaEntries = isRecord(routeMeta) ? Object.entries(routeMeta).filter(([, meta]) => isRecord(meta)) : [];
+	const source = options.source !== undefined ? ` from ${options.source}` : "";
+
+	const routeMembers = routes.map((route) => `\t${propertyKey(route.name)}: ${routeType(route)};`);
+	const metaMembers = metaEntries.map(([name, meta]) => `\t${propertyKey(name)}: ${jsonType(meta)};`);
+
+	return [
+		`// Generated by ui5-guard-router-routes${source}. Do not edit.`,
+		'import type { TypedGuardRouter } from "ui5/guard/router/types";',
+		"",
+		"export type Routes = {",
+		...routeMembers,
+		"};",
+		"",
+		"export type RouteMeta = {",
+		...metaMembers,
+		"};",
+		"",
+		"export type RouteName = keyof Routes;",
+		"",
+		"export type AppRouter = TypedGuardRouter<Routes, RouteMeta>;",
+		"",
+	].join("\n");
+}
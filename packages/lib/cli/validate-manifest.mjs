@@ -0,0 +1,410 @@
+/**
+ * Validate the `guardRouter` block of a UI5 manifest.json without starting
+ * the app: guard declarations, route references, and the guard, resolver,
+ * and error handler modules they name.
+ */
+import { readFile } from "node:fs/promises";
+import path from "node:path";
+import { describeModuleExport } from "./export-shape.mjs";
+import { parseGuardEntry } from "./module-path.mjs";
+import { readRoutes } from "./route-types.mjs";
+
+const MODULE_EXTENSIONS = [".ts", ".js"];
+const SCHEMA_URL = new URL("../src/guardRouter.schema.json", import.meta.url);
+
+/** Options with dedicated checks below, which report more precisely than the schema. */
+const STRUCTURED_OPTIONS = new Set(["guards", "routeMeta", "resolve"]);
+
+let schemaPromise = null;
+
+/**
+ * @typedef {object} Diagnostic
+ * @property {"error" | "warning" | "info"} severity - `error`: the router ignores the
+ *   configuration or cannot load it. `warning`: it runs, but likely not as intended.
+ *   `info`: the validator could not check it.
+ * @property {string} code - Stable identifier, e.g. `"module-not-found"`.
+ * @property {string} path - Location in the manifest, e.g. `guardRouter.guards["home"][0]`.
+ * @property {string} message - Human-readable description.
+ * @property {string} [module] - Resolved module path, for module diagnostics.
+ * @property {string} [file] - Source file the module resolved to.
+ */
+
+function isRecord(value) {
+	return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isNonEmptyString(value) {
+	return typeof value === "string" && value.length > 0;
+}
+
+function isDuration(value) {
+	return typeof value === "number" && Number.isFinite(value) && value >= 0;
+}
+
+function isGuardNameList(value) {
+	return isNonEmptyString(value) || (Array.isArray(value) && value.every(isNonEmptyString));
+}
+
+/** Validators of the object-form guard entry options, as read by the router. */
+const ENTRY_OPTIONS = {
+	name: isNonEmptyString,
+	priority: (value) => typeof value === "number" && Number.isFinite(value),
+	before: isGuardNameList,
+	after: isGuardNameList,
+	timeout: isDuration,
+	parallel: (value) => typeof value === "boolean",
+	once: (value) => typeof value === "boolean",
+	group: isNonEmptyString,
+};
+
+/** The package's JSON Schema of the `guardRouter` block, read once. */
+function loadSchema() {
+	schemaPromise ??= readFile(SCHEMA_URL, "utf8").then(JSON.parse);
+	return schemaPromise;
+}
+
+/**
+ * Whether `value` matches `schema`, for the JSON Schema keywords
+ * guardRouter.schema.json uses. Annotations such as `default` are ignored.
+ */
+function matchesSchema(value, schema, root) {
+	if (schema.$ref !== undefined) {
+		const target = schema.$ref
+			.replace(/^#\//u, "")
+			.split("/")
+			.reduce((node, key) => node[key], root);
+		if (!matchesSchema(value, target, root)) return false;
+	}
+	if (
+		schema.oneOf !== undefined &&
+		schema.oneOf.filter((option) => matchesSchema(value, option, root)).length !== 1
+	) {
+		return false;
+	}
+	if (schema.enum !== undefined && !schema.enum.includes(value)) return false;
+	switch (schema.type) {
+		case undefined:
+			break;
+		case "integer":
+			if (!Number.isInteger(value)) return false;
+			break;
+		case "number":
+			if (typeof value !== "number" || !Number.isFinite(value)) return false;
+			break;
+		case "array":
+			if (!Array.isArray(value)) return false;
+			break;
+		case "object":
+			if (!isRecord(value)) return false;
+			break;
+		default:
+			if (typeof value !== schema.type) return false;
+	}
+	if (schema.minimum !== undefined && !(value >= schema.minimum)) return false;
+	if (typeof value === "string") {
+		if (schema.minLength !== undefined && value.length < schema.minLength) return false;
+		if (schema.pattern !== undefined && !new RegExp(schema.pattern, "u").test(value)) return false;
+	}
+	if (Array.isArray(value) && schema.items !== undefined) {
+		if (!value.every((item) => matchesSchema(item, schema.items, root))) return false;
+	}
+	if (isRecord(value)) {
+		if (schema.required?.some((key) => value[key] === undefined)) return false;
+		for (const [key, item] of Object.entries(value)) {
+			const property = schema.properties?.[key] ?? schema.additionalProperties;
+			if (property === false) return false;
+			if (isRecord(property) && !matchesSchema(item, property, root)) return false;
+		}
+	}
+	return true;
+}
+
+/**
+ * Check the option values of the `guardRouter` block against the package's
+ * JSON Schema. The router ignores unknown options and falls back to the
+ * default for invalid values, with only a runtime warning.
+ */
+async function checkOptions(config, report) {
+	const schema = await loadSchema();
+	const options = schema.definitions.guardRouter.properties;
+	for (const [key, value] of Object.entries(config)) {
+		if (STRUCTURED_OPTIONS.has(key) || value === undefined) continue;
+		const location = `guardRouter.${key}`;
+		if (options[key] === undefined) {
+			report("warning", "unknown-option", location, "unknown option, ignored");
+		} else if (!matchesSchema(value, options[key], schema)) {
+			report("warning", "invalid-option", location, `invalid value ${JSON.stringify(value)}, default used`);
+		}
+	}
+	if (config.redirectLoopPolicy === "fallback" && !isNonEmptyString(config.redirectLoopFallback)) {
+		report(
+			"warning",
+			"invalid-option",
+			"guardRouter.redirectLoopPolicy",
+			'"fallback" requires redirectLoopFallback, "block" used',
+		);
+	}
+}
+
+/**
+ * Check a described guard module export like `resolveModuleExports()` in
+ * src/Router.ts resolves it.
+ *
+ * @returns {[Diagnostic["severity"], string, string][]} Severity, code, and message of each finding.
+ */
+function checkGuardExport(shape, exportKey) {
+	const label = exportKey === undefined ? "" : `#${exportKey}`;
+	switch (shape.kind) {
+		case "function":
+			return [];
+		case "array": {
+			if (shape.complete && shape.elements.length === 0) {
+				return [["error", "empty-export", "exports an empty array, no guard is registered"]];
+			}
+			if (exportKey !== undefined) {
+				const index = Number.parseInt(exportKey, 10);
+				if (Number.isNaN(index) || index < 0 || (shape.complete && index >= shape.elements.length)) {
+					return [["error", "export-not-found", `${label} is out of range of the exported array`]];
+				}
+				return shape.elements[index] === "other"
+					? [["error", "export-not-function", `${label} is not a function`]]
+					: [];
+			}
+			return shape.elements.flatMap((kind, index) =>
+				kind === "other" ? [["warning", "export-not-function", `[${index}] is not a function, skipped`]] : [],
+			);
+		}
+		case "object": {
+			if (shape.complete && shape.properties.length === 0) {
+				return [["error", "empty-export", "exports an empty object, no guard is registered"]];
+			}
+			if (exportKey !== undefined) {
+				const index = Number.parseInt(exportKey, 10);
+				const property =
+					shape.properties.find(([key]) => key === exportKey) ??
+					(Number.isNaN(index) || index < 0 || !shape.complete ? undefined : shape.properties[index]);
+				if (property === undefined) {
+					return shape.complete
+						? [["error", "export-not-found", `${label} is not a key of the exported object`]]
+						: [];
+				}
+				return property[1] === "other" ? [["error", "export-not-function", `${label} is not a function`]] : [];
+			}
+			return shape.properties.flatMap(([key, kind]) =>
+				kind === "other" ? [["warning", "export-not-function", `.${key} is not a function, skipped`]] : [],
+			);
+		}
+		case "other":
+			return [["error", "invalid-export", "does not export a function, array, or plain object"]];
+		default:
+			return [["info", "export-not-checked", "export shape could not be determined statically"]];
+	}
+}
+
+/**
+ * Check a described error handler or resolver module export like
+ * `resolveFunctionExport()` in src/Router.ts resolves it.
+ */
+function checkFunctionExport(shape, exportKey) {
+	let kind = shape.kind;
+	if (exportKey !== undefined && shape.kind === "object") {
+		const property = shape.properties.find(([key]) => key === exportKey);
+		kind = property?.[1] ?? (shape.complete ? "other" : "unknown");
+	}
+	if (kind === "function") return [];
+	if (kind === "unknown") return [["info", "export-not-checked", "export shape could not be determined statically"]];
+	const label = exportKey === undefined ? "" : `#${exportKey} `;
+	return [["error", "export-not-function", `${label}is not a function`]];
+}
+
+// ============================================================
+// Manifest validation
+// ============================================================
+
+/**
+ * Validate the `guardRouter` block of a parsed manifest.json.
+ *
+ * Checks the other options against the package's JSON Schema
+ * (`src/guardRouter.schema.json`), the structure of `guards`, `routeMeta`,
+ * and `resolve`, that the routes they name exist in
+ * `sap.ui5.routing.routes`, and that the options naming a route point to an
+ * existing one. With `webapp` set, module paths
+ * are resolved against `sap.app.id` the way the router resolves them, and
+ * the `.ts` or `.js` file of each module in the app namespace is checked for
+ * existence and a valid default export shape. Modules outside the namespace,
+ * and exports that cannot be determined statically (e.g. `sap.ui.define`
+ * modules), are reported as `info`.
+ *
+ * @param manifest - Parsed manifest.json.
+ * @param {{ webapp?: string }} [options] - `webapp`: directory holding the app sources,
+ *   usually the manifest's directory. Without it, module files are not checked.
+ * @returns {Promise<Diagnostic[]>} Diagnostics of the manifest structure, then of the modules.
+ */
+export async function validateManifest(manifest, options = {}) {
+	const config = manifest?.["sap.ui5"]?.routing?.config?.guardRouter;
+	if (config === undefined) return [];
+	if (!isRecord(config)) {
+		return [{ severity: "error", code: "invalid-config", path: "guardRouter", message: "expected an object" }];
+	}
+
+	const diagnostics = [];
+	const modules = [];
+	const report = (severity, code, location, message) => {
+		diagnostics.push({ severity, code, path: location, message });
+	};
+	const routeNames = new Set(readRoutes(manifest).map((route) => route.name));
+	const appId = manifest?.["sap.app"]?.id;
+	const componentNamespace = typeof appId === "string" ? appId : "";
+	const unknownRouteSeverity = config.unknownRouteRegistration === "throw" ? "error" : "warning";
+
+	await checkOptions(config, report);
+
+	const checkRoute = (routeName, location) => {
+		if (!routeNames.has(routeName)) {
+			report(unknownRouteSeverity, "unknown-route", location, `route "${routeName}" is not defined`);
+		}
+	};
+	const addModule = (entry, location, type) => {
+		const { modulePath, exportKey } = parseGuardEntry(entry, componentNamespace);
+		modules.push({ modulePath, exportKey, path: location, type });
+	};
+
+	const checkEntries = (entries, location) => {
+		if (!Array.isArray(entries)) {
+			report("error", "invalid-guard-block", location, "expected an array of guard entries");
+			return;
+		}
+		entries.forEach((entry, index) => {
+			const entryPath = `${location}[${index}]`;
+			if (isNonEmptyString(entry)) {
+				addModule(entry, entryPath, "guard");
+			} else if (isRecord(entry) && isNonEmptyString(entry.module)) {
+				addModule(entry.module, entryPath, "guard");
+				for (const [key, isValid] of Object.entries(ENTRY_OPTIONS)) {
+					if (entry[key] !== undefined && !isValid(entry[key])) {
+						report("warning", "invalid-guard-option", `${entryPath}.${key}`, "invalid value, ignored");
+					}
+				}
+			} else {
+				report("error", "invalid-guard-entry", entryPath, "expected a module path or { module, ... } object");
+			}
+		});
+	};
+
+	const guards = config.guards;
+	if (guards !== undefined && !isRecord(guards)) {
+		report("error", "invalid-guards", "guardRouter.guards", "expected an object keyed by route name");
+	} else if (guards !== undefined) {
+		for (const [key, value] of Object.entries(guards)) {
+			const location = `guardRouter.guards["${key}"]`;
+			if (key !== "*") checkRoute(key, location);
+			if (Array.isArray(value)) {
+				checkEntries(value, location);
+			} else if (isRecord(value)) {
+				if (value.parallel !== undefined && typeof value.parallel !== "boolean") {
+					report("warning", "invalid-guard-option", `${location}.parallel`, "invalid value, ignored");
+				}
+				if (value.enter !== undefined) checkEntries(value.enter, `${location}.enter`);
+				if (value.leave !== undefined) checkEntries(value.leave, `${location}.leave`);
+			} else {
+				report("error", "invalid-guard-block", location, "expected an array or { enter?, leave? }");
+			}
+		}
+	}
+
+	if (config.routeMeta !== undefined && !isRecord(config.routeMeta)) {
+		report("error", "invalid-route-meta", "guardRouter.routeMeta", "expected an object keyed by route name");
+	} else if (config.routeMeta !== undefined) {
+		for (const [routeName, meta] of Object.entries(config.routeMeta)) {
+			const location = `guardRouter.routeMeta["${routeName}"]`;
+			checkRoute(routeName, location);
+			if (!isRecord(meta)) report("error", "invalid-route-meta", location, "expected an object");
+		}
+	}
+
+	if (config.resolve !== undefined && !isRecord(config.resolve)) {
+		report("error", "invalid-resolve", "guardRouter.resolve", "expected an object keyed by route name");
+	} else if (config.resolve !== undefined) {
+		for (const [routeName, resolvers] of Object.entries(config.resolve)) {
+			const location = `guardRouter.resolve["${routeName}"]`;
+			checkRoute(routeName, location);
+			if (!isRecord(resolvers)) {
+				report("error", "invalid-resolve", location, "expected an object of module paths");
+				continue;
+			}
+			for (const [key, entry] of Object.entries(resolvers)) {
+				if (isNonEmptyString(entry)) {
+					addModule(entry, `${location}.${key}`, "function");
+				} else {
+					report("error", "invalid-resolve", `${location}.${key}`, "expected a module path");
+				}
+			}
+		}
+	}
+
+	if (isNonEmptyString(config.errorHandler)) addModule(config.errorHandler, "guardRouter.errorHandler", "function");
+
+	for (const option of ["redirectLoopFallback", "defaultDenyRoute"]) {
+		if (isNonEmptyString(config[option])) checkRoute(config[option], `guardRouter.${option}`);
+	}
+	if (isRecord(config.access)) {
+		for (const option of ["deniedRoute", "unauthenticatedRoute"]) {
+			if (isNonEmptyString(config.access[option])) {
+				checkRoute(config.access[option], `guardRouter.access.${option}`);
+			}
+		}
+	}
+
+	if (options.webapp !== undefined) {
+		diagnostics.push(...(await checkModules(modules, componentNamespace, options.webapp)));
+	}
+	return diagnostics;
+}
+
+/** Check that the modules exist in the webapp directory and export a valid shape. */
+async function checkModules(modules, componentNamespace, webapp) {
+	const diagnostics = [];
+	const prefix = componentNamespace === "" ? "" : componentNamespace.replace(/\./g, "/") + "/";
+	const shapes = new Map();
+
+	const describeFile = async (modulePath) => {
+		for (const extension of MODULE_EXTENSIONS) {
+			const file = path.join(webapp, modulePath.slice(prefix.length) + extension);
+			const source = await readFile(file, "utf8").catch(() => null);
+			if (source !== null) return { file, shape: describeModuleExport(source) };
+		}
+		return null;
+	};
+
+	for (const module of modules) {
+		const base = { path: module.path, module: module.modulePath };
+		if (!module.modulePath.startsWith(prefix)) {
+			diagnostics.push({
+				severity: "info",
+				code: "module-external",
+				...base,
+				message: "module is outside the app namespace, not checked",
+			});
+			continue;
+		}
+		if (!shapes.has(module.modulePath)) shapes.set(module.modulePath, describeFile(module.modulePath));
+		const described = await shapes.get(module.modulePath);
+		if (described === null) {
+			diagnostics.push({
+				severity: "error",
+				code: "module-not-found",
+				...base,
+				message: `no ${MODULE_EXTENSIONS.join(" or ")} file found for the module`,
+			});
+			continue;
+		}
+		const findings =
+			module.type === "guard"
+				? checkGuardExport(described.shape, module.exportKey)
+				: checkFunctionExport(described.shape, module.exportKey);
+		for (const [severity, code, message] of findings) {
+			diagnostics.push({ severity, code, ...base, file: described.file, message: `module ${message}` });
+		}
+	}
+	return diagnostics;
+}
@@ -1,9 +1,24 @@
 import Log from "sap/base/Log";
-import type { GuardFn, GuardContext, GuardResult, GuardRedirect } from "./types";
+import type {
+	DefaultPolicy,
+	GuardBlock,
+	GuardFn,
+	GuardContext,
+	GuardDecisionSource,
+	GuardErrorHandler,
+	GuardPhase,
+	GuardResult,
+	GuardRedirect,
+	GuardRegistrationOptions,
+	GuardTimeoutPolicy,
+	RouteResolverFn,
+} from "./types";
+import GuardTimeoutError from "./GuardTimeoutError";
+import ResolveRejection from "./ResolveRejection";
 
 const LOG_COMPONENT = "ui5.guard.router.Router";
 
-function isGuardRedirect(value: unknown): value is GuardRedirect {
+export function isGuardRedirect(value: unknown): value is GuardRedirect {
 	if (typeof value !== "object" || value === null) {
 		return false;
 	}
@@ -12,6 +27,15 @@ function isGuardRedirect(value: unknown): value is GuardRedirect {
 	return typeof route === "string" && route.length > 0;
 }
 
+function isGuardBlock(value: unknown): value is GuardBlock {
+	if (typeof value !== "object" || value === null) {
+		return false;
+	}
+
+	const { block, reason } = value as GuardBlock;
+	return block === true && typeof reason === "string";
+}
+
 /**
  * Promises/A+ thenable detection via duck typing.
  *
@@ -30,15 +54,211 @@ export function isPromiseLike<T>(value: unknown): value is PromiseLike<T> {
  * Normalized result of the guard decision pipeline.
  */
 export type GuardDecision =
-	| { action: "allow" }
-	| { action: "block" }
-	| { action: "redirect"; target: string | GuardRedirect }
-	| { action: "error"; error: unknown };
+	| { action: "allow"; resolved?: Readonly<Record<string, unknown>> }
+	| { action: "block"; decidedBy?: GuardDecisionSource; reason?: string; data?: unknown }
+	| { action: "redirect"; target: string | GuardRedirect; decidedBy?: GuardDecisionSource }
+	| { action: "error"; error: unknown; decidedBy?: GuardDecisionSource };
+
+/**
+ * Per-evaluation record of the guard whose result or error decided the outcome,
+ * plus the enter guard bookkeeping requested through {@link GuardEvaluationOptions}.
+ */
+interface DecisionTrace {
+	source?: GuardDecisionSource;
+	passed?: Set<GuardFn>;
+	skip?: ReadonlySet<GuardFn>;
+}
+
+function toDecision(result: GuardResult, trace: DecisionTrace): GuardDecision {
+	if (result === true) return { action: "allow" };
+	const decidedBy = trace.source ? { decidedBy: trace.source } : {};
+	if (result === false) return { action: "block", ...decidedBy };
+	if (isGuardBlock(result)) {
+		const data = result.data !== undefined ? { data: result.data } : {};
+		return { action: "block", ...decidedBy, reason: result.reason, ...data };
+	}
+	return { action: "redirect", target: result, ...decidedBy };
+}
+
+function errorDecision(error: unknown, trace: DecisionTrace): GuardDecision {
+	return trace.source ? { action: "error", error, decidedBy: trace.source } : { action: "error", error };
+}
+
+/** Router-level options the pipeline applies to every guard. */
+export interface GuardPipelineOptions {
+	/** Default timeout in milliseconds for async guards. `0` disables timeouts. */
+	readonly guardTimeout?: number;
+	/** Outcome applied when a guard exceeds its timeout. */
+	readonly guardTimeoutPolicy?: GuardTimeoutPolicy;
+	/** Whether routes without an explicit guard are reachable. */
+	readonly defaultPolicy?: DefaultPolicy;
+	/** Redirect target for routes denied by `defaultPolicy: "deny"`; blocks when omitted. */
+	readonly defaultDenyRoute?: string;
+	/** Meta key read by the access guard; a value under it counts as an explicit guard. */
+	readonly accessMetaKey?: string;
+}
+
+/** Per-call options of {@link GuardPipeline.evaluate}. */
+export interface GuardEvaluationOptions {
+	/**
+	 * When true, leave guards are skipped even if `context.fromRoute` is set.
+	 * Used by redirect chain hops to avoid re-running leave guards while still
+	 * preserving `fromRoute` in the context.
+	 */
+	readonly skipLeaveGuards?: boolean;
+	/** Receives every enter guard that returned `true`, global and route-level. */
+	readonly passedGuards?: Set<GuardFn>;
+	/** Enter guards that are not run and count as passed, e.g. the ones a replayed transition already passed. */
+	readonly skipGuards?: ReadonlySet<GuardFn>;
+}
+
+/** A registered guard together with its per-guard options. */
+interface GuardEntry {
+	readonly fn: GuardFn;
+	readonly timeout?: number;
+	readonly name?: string;
+	readonly priority: number;
+	readonly before: readonly string[];
+	readonly after: readonly string[];
+	/** Whether the guard runs concurrently with adjacent parallel guards. */
+	readonly parallel: boolean;
+	/** Predicate deciding whether the guard is removed after a decision (`once` and `until`). */
+	readonly until?: (result: GuardResult) => boolean;
+	/** Group the guard belongs to, for {@link GuardPipeline.setGroupEnabled}. */
+	readonly group?: string;
+	/** Registration sequence number, used as the tie-breaker between equal priorities. */
+	readonly seq: number;
+}
+
+function toNameList(value: string | string[] | undefined): string[] {
+	if (value === undefined) return [];
+	return typeof value === "string" ? [value] : value.slice();
+}
+
+const ALWAYS = (): boolean => true;
+
+function createEntry(fn: GuardFn, seq: number, options?: GuardRegistrationOptions): GuardEntry {
+	const until = options?.once === true ? ALWAYS : options?.until;
+	return {
+		fn,
+		...(options?.timeout !== undefined ? { timeout: options.timeout } : {}),
+		...(options?.name !== undefined ? { name: options.name } : {}),
+		priority: options?.priority ?? 0,
+		before: toNameList(options?.before),
+		after: toNameList(options?.after),
+		parallel: options?.parallel === true,
+		...(until !== undefined ? { until } : {}),
+		...(options?.group !== undefined ? { group: options.group } : {}),
+		seq,
+	};
+}
+
+function indexOfGuard(entries: GuardEntry[], guard: GuardFn): number {
+	return entries.findIndex((entry) => entry.fn === guard);
+}
+
+function sourceOf(entry: GuardEntry, phase: GuardPhase, index: number, route: string): GuardDecisionSource {
+	return entry.name !== undefined ? { name: entry.name, phase, index, route } : { phase, index, route };
+}
+
+function guardLabel(phase: GuardPhase): string {
+	return phase === "leave" ? "Leave guard" : "Enter guard";
+}
+
+function describeGuard(label: string, entry: GuardEntry, index: number): string {
+	return entry.name !== undefined ? `${label} "${entry.name}" [${index}]` : `${label} [${index}]`;
+}
+
+/** Index one past the run of adjacent parallel guards starting at `start`. */
+function parallelGroupEnd(guards: GuardEntry[], start: number): number {
+	let end = start;
+	while (end < guards.length && guards[end].parallel) end++;
+	return end;
+}
+
+/** Resolver that failed, by position in registration order. */
+interface ResolverFailure {
+	readonly index: number;
+	readonly error: unknown;
+}
+
+/** Settled result or error of one guard in a parallel group. */
+type GroupOutcome =
+	| { readonly index: number; readonly result: GuardResult }
+	| { readonly index: number; readonly error: unknown };
+
+function isDecisive(outcome: GroupOutcome): boolean {
+	return "error" in outcome || outcome.result !== true;
+}
+
+/** Record the enter guards in `[start, end)` as passed, when the evaluation asked for it. */
+function recordPassed(guards: GuardEntry[], start: number, end: number, phase: GuardPhase, trace: DecisionTrace): void {
+	if (phase === "leave" || trace.passed === undefined) return;
+	for (let i = start; i < end; i++) trace.passed.add(guards[i].fn);
+}
+
+/** The step at which guard evaluation went async: a single guard or a parallel group. */
+type PendingStep =
+	| { readonly index: number; readonly result: PromiseLike<GuardResult> }
+	| { readonly group: Promise<GroupOutcome>; readonly start: number; readonly end: number };
+
+/**
+ * Order a guard list by priority (higher first, registration order on ties),
+ * then apply `before`/`after` constraints between named guards of the same list.
+ *
+ * Constraints naming a guard that is not in the list are ignored. When the
+ * constraints form a cycle, a warning is logged and the remaining guards keep
+ * their priority order.
+ *
+ * @param scope - Human-readable list description used in the cycle warning.
+ */
+function orderGuards(entries: GuardEntry[], scope: string): GuardEntry[] {
+	const sorted = entries.toSorted((a, b) => b.priority - a.priority || a.seq - b.seq);
+	if (!sorted.some((entry) => entry.before.length > 0 || entry.after.length > 0)) return sorted;
+
+	const byName = new Map<string, GuardEntry[]>();
+	for (const entry of sorted) {
+		if (entry.name === undefined) continue;
+		const named = byName.get(entry.name);
+		if (named) named.push(entry);
+		else byName.set(entry.name, [entry]);
+	}
+
+	const predecessors = new Map<GuardEntry, Set<GuardEntry>>(sorted.map((entry) => [entry, new Set()]));
+	for (const entry of sorted) {
+		for (const name of entry.before) {
+			for (const other of byName.get(name) ?? []) {
+				if (other !== entry) predecessors.get(other)!.add(entry);
+			}
+		}
+		for (const name of entry.after) {
+			for (const other of byName.get(name) ?? []) {
+				if (other !== entry) predecessors.get(entry)!.add(other);
+			}
+		}
+	}
+
+	const ordered: GuardEntry[] = [];
+	const remaining = sorted.slice();
+	while (remaining.length > 0) {
+		const index = remaining.findIndex((entry) => [...predecessors.get(entry)!].every((p) => ordered.includes(p)));
+		if (index === -1) {
+			Log.warning(
+				`Guard ordering constraints for ${scope} form a cycle, falling back to priority order`,
+				remaining.map((entry) => entry.name ?? "<anonymous>").join(", "),
+				LOG_COMPONENT,
+			);
+			return ordered.concat(remaining);
+		}
+		ordered.push(remaining.splice(index, 1)[0]);
+	}
+	return ordered;
+}
 
 /**
  * Standalone guard evaluation pipeline.
  *
- * Owns guard storage (global, enter, leave) and runs the full
+ * Owns guard storage (global enter, global leave, enter, leave) and runs the full
  * leave -> global-enter -> route-enter pipeline. Pure logic with
  * no dependency on Router state beyond the current route name
  * passed into evaluate().
@@ -46,31 +266,92 @@ export type GuardDecision =
  * @namespace ui5.guard.router
  */
 export default class GuardPipeline {
-	private _globalGuards: GuardFn[] = [];
-	private _enterGuards = new Map<string, GuardFn[]>();
-	private _leaveGuards = new Map<string, GuardFn[]>();
+	private _globalGuards: GuardEntry[] = [];
+	private _globalLeaveGuards: GuardEntry[] = [];
+	private _enterGuards = new Map<string, GuardEntry[]>();
+	private _leaveGuards = new Map<string, GuardEntry[]>();
+	private _resolvers = new Map<string, Map<string, RouteResolverFn>>();
+	private _nextSeq = 0;
+	private _disabledGroups = new Set<string>();
+	private _reportedDenials = new Set<string>();
+	private _errorHandler: GuardErrorHandler | null = null;
+	private readonly _guardTimeout: number;
+	private readonly _guardTimeoutPolicy: GuardTimeoutPolicy;
+	private readonly _defaultPolicy: DefaultPolicy;
+	private readonly _defaultDenyRoute: string | undefined;
+	private readonly _accessMetaKey: string | undefined;
+
+	constructor(options?: GuardPipelineOptions) {
+		this._guardTimeout = options?.guardTimeout ?? 0;
+		this._guardTimeoutPolicy = options?.guardTimeoutPolicy ?? "error";
+		this._defaultPolicy = options?.defaultPolicy ?? "allow";
+		this._defaultDenyRoute = options?.defaultDenyRoute;
+		this._accessMetaKey = options?.accessMetaKey;
+	}
 
-	/** Register a guard that runs for every navigation. */
-	addGlobalGuard(guard: GuardFn): void {
-		this._globalGuards.push(guard);
+	/**
+	 * Register a guard that runs for every navigation.
+	 *
+	 * @param guard - Guard function to register.
+	 * @param options - Per-guard options: `timeout`, `name`, `priority`, `before`, `after`, `parallel`, `once`, `until`, `group`.
+	 * @param seq - Tie-breaker between guards of equal priority. Defaults to after every guard
+	 *   registered so far; the Router passes lower values to keep manifest guards ahead.
+	 */
+	addGlobalGuard(guard: GuardFn, options?: GuardRegistrationOptions, seq = this._nextSeq++): void {
+		this._globalGuards = orderGuards(
+			[...this._globalGuards, createEntry(guard, seq, options)],
+			"global enter guards",
+		);
 	}
 
 	/** Remove a previously registered global guard by reference. */
 	removeGlobalGuard(guard: GuardFn): void {
-		const index = this._globalGuards.indexOf(guard);
+		const index = indexOfGuard(this._globalGuards, guard);
 		if (index !== -1) {
 			this._globalGuards.splice(index, 1);
 		}
 	}
 
+	/**
+	 * Register a leave guard that runs whenever the current route is left,
+	 * before any route-specific leave guards.
+	 *
+	 * @param guard - Guard function to register as a global leave guard.
+	 * @param options - Per-guard options: `timeout`, `name`, `priority`, `before`, `after`, `parallel`, `once`, `until`, `group`.
+	 * @param seq - Tie-breaker between guards of equal priority. Defaults to after every guard
+	 *   registered so far; the Router passes lower values to keep manifest guards ahead.
+	 */
+	addGlobalLeaveGuard(guard: GuardFn, options?: GuardRegistrationOptions, seq = this._nextSeq++): void {
+		this._globalLeaveGuards = orderGuards(
+			[...this._globalLeaveGuards, createEntry(guard, seq, options)],
+			"global leave guards",
+		);
+	}
+
+	/** Remove a previously registered global leave guard by reference. */
+	removeGlobalLeaveGuard(guard: GuardFn): void {
+		const index = indexOfGuard(this._globalLeaveGuards, guard);
+		if (index !== -1) {
+			this._globalLeaveGuards.splice(index, 1);
+		}
+	}
+
 	/**
 	 * Register an enter guard for a specific route.
 	 *
 	 * @param route - Route name as defined in `manifest.json`.
 	 * @param guard - Guard function to register.
+	 * @param options - Per-guard options: `timeout`, `name`, `priority`, `before`, `after`, `parallel`, `once`, `until`, `group`.
+	 * @param seq - Tie-breaker between guards of equal priority. Defaults to after every guard
+	 *   registered so far; the Router passes lower values to keep manifest guards ahead.
 	 */
-	addEnterGuard(route: string, guard: GuardFn): void {
-		this._addToGuardMap(this._enterGuards, route, guard);
+	addEnterGuard(route: string, guard: GuardFn, options?: GuardRegistrationOptions, seq = this._nextSeq++): void {
+		this._addToGuardMap(
+			this._enterGuards,
+			route,
+			createEntry(guard, seq, options),
+			`enter guards of route "${route}"`,
+		);
 	}
 
 	/**
@@ -92,9 +373,17 @@ export default class GuardPipeline {
 	 *
 	 * @param route - Route name as defined in `manifest.json`.
 	 * @param guard - Guard function to register as a leave guard.
+	 * @param options - Per-guard options: `timeout`, `name`, `priority`, `before`, `after`, `parallel`, `once`, `until`, `group`.
+	 * @param seq - Tie-breaker between guards of equal priority. Defaults to after every guard
+	 *   registered so far; the Router passes lower values to keep manifest guards ahead.
 	 */
-	addLeaveGuard(route: string, guard: GuardFn): void {
-		this._addToGuardMap(this._leaveGuards, route, guard);
+	addLeaveGuard(route: string, guard: GuardFn, options?: GuardRegistrationOptions, seq = this._nextSeq++): void {
+		this._addToGuardMap(
+			this._leaveGuards,
+			route,
+			createEntry(guard, seq, options),
+			`leave guards of route "${route}"`,
+		);
 	}
 
 	/**
@@ -107,163 +396,414 @@ export default class GuardPipeline {
 		this._removeFromGuardMap(this._leaveGuards, route, guard);
 	}
 
+	/**
+	 * Register a data resolver for a route, replacing the resolver registered
+	 * under the same key.
+	 *
+	 * @param route - Route name as defined in `manifest.json`.
+	 * @param key - Key of the resolved value.
+	 * @param resolver - Resolver function.
+	 */
+	addResolver(route: string, key: string, resolver: RouteResolverFn): void {
+		const resolvers = this._resolvers.get(route);
+		if (resolvers) {
+			resolvers.set(key, resolver);
+		} else {
+			this._resolvers.set(route, new Map([[key, resolver]]));
+		}
+	}
+
+	/**
+	 * Remove the data resolver registered under a key.
+	 *
+	 * @param route - Route name.
+	 * @param key - Key the resolver was registered under.
+	 */
+	removeResolver(route: string, key: string): void {
+		const resolvers = this._resolvers.get(route);
+		if (!resolvers) return;
+		resolvers.delete(key);
+		if (resolvers.size === 0) this._resolvers.delete(route);
+	}
+
+	/**
+	 * Enable or disable the guards of a group. Disabled guards are skipped
+	 * by guard lists evaluated afterwards; a list already running keeps its snapshot.
+	 *
+	 * @param group - Group name from the `group` registration option.
+	 * @param enabled - Whether the group's guards run.
+	 */
+	setGroupEnabled(group: string, enabled: boolean): void {
+		if (enabled) {
+			this._disabledGroups.delete(group);
+		} else {
+			this._disabledGroups.add(group);
+		}
+	}
+
+	/** Whether the guards of a group run. Groups are enabled unless disabled explicitly. */
+	isGroupEnabled(group: string): boolean {
+		return !this._disabledGroups.has(group);
+	}
+
+	/**
+	 * Set the handler that converts guard errors into results, or `null` to
+	 * let errors settle as `"error"` decisions.
+	 */
+	setErrorHandler(handler: GuardErrorHandler | null): void {
+		this._errorHandler = handler;
+	}
+
 	/**
 	 * Remove all registered guards.
 	 */
 	clear(): void {
 		this._globalGuards = [];
+		this._globalLeaveGuards = [];
 		this._enterGuards.clear();
 		this._leaveGuards.clear();
+		this._resolvers.clear();
+	}
+
+	/**
+	 * Whether `defaultPolicy: "deny"` denies entering a route: it has no
+	 * route-level enter guard outside a disabled group, no value under the
+	 * access meta key, and no `public: true` in its metadata. Always `false`
+	 * under `"allow"`, for the empty route name (no route matched), and for
+	 * `defaultDenyRoute`, which must stay reachable to receive the redirect.
+	 *
+	 * @param route - Target route name.
+	 * @param meta - Resolved metadata of the route.
+	 */
+	isDeniedByDefault(route: string, meta: Readonly<Record<string, unknown>>): boolean {
+		if (this._defaultPolicy !== "deny" || route === "" || route === this._defaultDenyRoute) return false;
+		if (meta.public === true) return false;
+		const guards = this._enterGuards.get(route);
+		if (guards?.some((entry) => entry.group === undefined || !this._disabledGroups.has(entry.group))) return false;
+		return this._accessMetaKey === undefined || meta[this._accessMetaKey] === undefined;
 	}
 
 	/**
-	 * Run the full guard pipeline (leave -> global enter -> route enter) and
-	 * return a normalized decision. Stays synchronous when all guards return
+	 * Run the full guard pipeline (leave -> global enter -> route enter ->
+	 * resolvers) and return a normalized decision. Stays synchronous when all guards return
 	 * plain values; returns a Promise only when an async guard is encountered.
 	 *
+	 * A route denied by `defaultPolicy: "deny"` (see {@link isDeniedByDefault})
+	 * is blocked or redirected in place of the enter phase: leave guards run
+	 * first and may still block, enter guards and resolvers do not run.
+	 * A guard error is passed to the error handler, if one is set (see {@link _recoverError}).
+	 * When the guards allow, the target route's resolvers run (see {@link _runResolvers}).
+	 *
 	 * @param context - Complete guard context including AbortSignal.
 	 *   `context.fromRoute` controls leave-guard lookup: empty string skips leave guards.
-	 * @param options - Optional evaluation options.
-	 * @param options.skipLeaveGuards - When true, leave guards are skipped even if
-	 *   `context.fromRoute` is set. Used by redirect chain hops to avoid re-running
-	 *   leave guards while still preserving `fromRoute` in the context.
+	 * @param options - Optional evaluation options, see {@link GuardEvaluationOptions}.
 	 * @returns A synchronous {@link GuardDecision} when all guards return plain values,
 	 *   or a `Promise<GuardDecision>` when at least one guard returns a thenable.
 	 */
-	evaluate(context: GuardContext, options?: { skipLeaveGuards?: boolean }): GuardDecision | Promise<GuardDecision> {
+	evaluate(context: GuardContext, options?: GuardEvaluationOptions): GuardDecision | Promise<GuardDecision> {
 		const hasLeaveGuards =
-			!options?.skipLeaveGuards && context.fromRoute !== "" && this._leaveGuards.has(context.fromRoute);
+			!options?.skipLeaveGuards &&
+			context.fromRoute !== "" &&
+			(this._globalLeaveGuards.length > 0 || this._leaveGuards.has(context.fromRoute));
+		const denied = this._denyDecision(context.toRoute, context.toMeta);
+		if (denied !== null && !hasLeaveGuards) return denied;
 		const hasEnterGuards =
 			this._globalGuards.length > 0 || (context.toRoute !== "" && this._enterGuards.has(context.toRoute));
+		const hasResolvers = context.toRoute !== "" && this._resolvers.has(context.toRoute);
 
-		if (!hasLeaveGuards && !hasEnterGuards) {
+		if (!hasLeaveGuards && !hasEnterGuards && !hasResolvers) {
 			return { action: "allow" };
 		}
 
+		const trace: DecisionTrace = { passed: options?.passedGuards, skip: options?.skipGuards };
+		for (const fn of trace.skip ?? []) trace.passed?.add(fn);
+
+		const decide = (result: GuardResult): GuardDecision | Promise<GuardDecision> =>
+			result === true && hasResolvers ? this._runResolvers(context, trace) : toDecision(result, trace);
+
 		const processEnterResult = (
 			enterResult: GuardResult | Promise<GuardResult>,
 		): GuardDecision | Promise<GuardDecision> => {
 			if (isPromiseLike(enterResult)) {
-				return enterResult
-					.then((r: GuardResult): GuardDecision => {
-						if (r === true) return { action: "allow" };
-						if (r === false) return { action: "block" };
-						return { action: "redirect", target: r };
-					})
-					.catch((error: unknown): GuardDecision => {
-						return { action: "error", error };
-					});
+				return enterResult.then(decide).catch((error: unknown) => this._recoverError(error, context, trace));
 			}
-			if (enterResult === true) return { action: "allow" };
-			if (enterResult === false) return { action: "block" };
-			return { action: "redirect", target: enterResult };
+			return decide(enterResult);
 		};
 
 		const runEnterPhase = (): GuardDecision | Promise<GuardDecision> => {
-			const enterResult = this._runEnterGuards(context.toRoute, context);
+			if (denied !== null) return denied;
+			const enterResult = this._runEnterGuards(context.toRoute, context, trace);
 			return processEnterResult(enterResult);
 		};
 
 		try {
 			if (hasLeaveGuards) {
-				const leaveResult = this._runLeaveGuards(context);
+				const leaveResult = this._runLeaveGuards(context, trace);
 
 				if (isPromiseLike(leaveResult)) {
 					return leaveResult
-						.then((allowed: boolean): GuardDecision | Promise<GuardDecision> => {
-							if (allowed !== true) return { action: "block" };
+						.then((allowed: boolean | GuardBlock): GuardDecision | Promise<GuardDecision> => {
+							if (allowed !== true) return toDecision(allowed, trace);
 							if (context.signal.aborted) return { action: "block" };
 							return runEnterPhase();
 						})
-						.catch((error: unknown): GuardDecision => {
-							return { action: "error", error };
-						});
+						.catch((error: unknown) => this._recoverError(error, context, trace));
 				}
-				if (leaveResult !== true) return { action: "block" };
+				if (leaveResult !== true) return toDecision(leaveResult, trace);
 			}
 
 			return runEnterPhase();
 		} catch (error) {
-			return { action: "error", error };
+			return this._recoverError(error, context, trace);
 		}
 	}
 
-	private _addToGuardMap<T>(map: Map<string, T[]>, key: string, guard: T): void {
-		let guards = map.get(key);
-		if (!guards) {
-			guards = [];
-			map.set(key, guards);
+	/**
+	 * The decision `defaultPolicy: "deny"` takes for a route, or `null` when
+	 * the route is not denied. Warns once per route, so routes that turn out
+	 * unreachable after the startup check (see `Router#initialize`) are reported too.
+	 */
+	private _denyDecision(route: string, meta: Readonly<Record<string, unknown>>): GuardDecision | null {
+		if (!this.isDeniedByDefault(route, meta)) return null;
+		if (!this._reportedDenials.has(route)) {
+			this._reportedDenials.add(route);
+			Log.warning(
+				`Route "${route}" has no enter guard or public metadata, denied by defaultPolicy "deny"`,
+				undefined,
+				LOG_COMPONENT,
+			);
 		}
-		guards.push(guard);
+		return this._defaultDenyRoute !== undefined
+			? { action: "redirect", target: this._defaultDenyRoute }
+			: { action: "block", reason: "default-deny" };
 	}
 
-	private _removeFromGuardMap<T>(map: Map<string, T[]>, key: string, guard: T): void {
+	/**
+	 * Run the target route's resolvers concurrently, each with a child of the
+	 * navigation's `AbortSignal`, and collect their values, keyed by resolver
+	 * key, into an `"allow"` decision. Stays synchronous when every resolver
+	 * returns a plain value. The first failed resolver in declaration order
+	 * decides, regardless of which one settles first: a
+	 * {@link ResolveRejection} blocks or redirects, other errors go through
+	 * {@link _recoverError}. A resolver that throws synchronously ends the
+	 * loop, since the resolvers after it cannot come first.
+	 */
+	private _runResolvers(context: GuardContext, trace: DecisionTrace): GuardDecision | Promise<GuardDecision> {
+		if (context.signal.aborted) return { action: "block" };
+		const resolvers = [...(this._resolvers.get(context.toRoute) ?? [])];
+		const values: unknown[] = [];
+		const controllers: AbortController[] = [];
+		const pending: { index: number; value: PromiseLike<unknown> }[] = [];
+		let thrown: ResolverFailure | null = null;
+
+		for (let i = 0; i < resolvers.length; i++) {
+			const controller = new AbortController();
+			controllers.push(controller);
+			try {
+				const value = resolvers[i][1]({ ...context, signal: controller.signal });
+				if (isPromiseLike(value)) {
+					pending.push({ index: i, value });
+				} else {
+					values[i] = value;
+				}
+			} catch (error) {
+				thrown = { index: i, error };
+				break;
+			}
+		}
+		const fail = (failure: ResolverFailure): GuardDecision | Promise<GuardDecision> =>
+			this._resolverFailure(failure, resolvers[failure.index][0], context, trace);
+		if (thrown !== null && pending.length === 0) return fail(thrown);
+
+		const collect = (): GuardDecision => {
+			if (context.signal.aborted) return { action: "block" };
+			const resolved: Record<string, unknown> = {};
+			resolvers.forEach(([key], i) => {
+				resolved[key] = values[i];
+			});
+			return { action: "allow", resolved: Object.freeze(resolved) };
+		};
+		if (pending.length === 0) return collect();
+
+		return this._awaitResolvers(pending, values, controllers, context, thrown).then((failure) =>
+			failure !== null ? fail(failure) : collect(),
+		);
+	}
+
+	/**
+	 * Await pending resolvers into `values` and return the deciding failure,
+	 * or `null` when all of them fulfilled or the navigation was aborted.
+	 *
+	 * A failure decides as soon as every resolver declared before it has
+	 * settled, without waiting for the ones after it; those still running
+	 * have their child signal aborted. Aborting the navigation aborts every
+	 * child signal and stops waiting.
+	 *
+	 * @param thrown - Synchronous failure ending the resolver loop, if any.
+	 */
+	private _awaitResolvers(
+		pending: { index: number; value: PromiseLike<unknown> }[],
+		values: unknown[],
+		controllers: AbortController[],
+		context: GuardContext,
+		thrown: ResolverFailure | null,
+	): Promise<ResolverFailure | null> {
+		return new Promise((resolve) => {
+			const unsettled = new Set(pending.map(({ index }) => index));
+			let failure = thrown;
+			let decided = false;
+			const decide = (outcome: ResolverFailure | null): void => {
+				if (decided) return;
+				decided = true;
+				context.signal.removeEventListener("abort", abortAll);
+				if (outcome !== null) {
+					for (const index of unsettled) controllers[index].abort();
+				}
+				resolve(outcome);
+			};
+			const abortAll = (): void => {
+				for (const controller of controllers) controller.abort(context.signal.reason);
+				decide(null);
+			};
+			const check = (): void => {
+				const first = failure;
+				if (first !== null && ![...unsettled].some((index) => index < first.index)) {
+					decide(first);
+				} else if (unsettled.size === 0) {
+					decide(null);
+				}
+			};
+			context.signal.addEventListener("abort", abortAll);
+			for (const { index, value } of pending) {
+				Promise.resolve(value).then(
+					(result) => {
+						values[index] = result;
+						unsettled.delete(index);
+						check();
+					},
+					(error: unknown) => {
+						unsettled.delete(index);
+						if (failure === null || index < failure.index) failure = { index, error };
+						check();
+					},
+				);
+			}
+		});
+	}
+
+	/** Turn the failure of a resolver into a decision, recording the resolver as `decidedBy`. */
+	private _resolverFailure(
+		failure: ResolverFailure,
+		key: string,
+		context: GuardContext,
+		trace: DecisionTrace,
+	): GuardDecision | Promise<GuardDecision> {
+		if (context.signal.aborted) return { action: "block" };
+		trace.source = { name: key, phase: "resolve", index: failure.index, route: context.toRoute };
+		if (failure.error instanceof ResolveRejection) {
+			return toDecision(this._validateGuardResult(failure.error.result), trace);
+		}
+		Log.error(
+			`Resolver "${key}" on route "${context.toRoute}" failed, navigation failed`,
+			failure.error instanceof Error ? failure.error : String(failure.error),
+			LOG_COMPONENT,
+		);
+		return this._recoverError(failure.error, context, trace);
+	}
+
+	/**
+	 * Convert a guard error into a decision. Without an error handler, or when
+	 * the handler returns `undefined` or throws, the decision is `"error"`;
+	 * otherwise the handler's result is validated like a guard result and
+	 * keeps the failed guard as `decidedBy`. A {@link GuardTimeoutError} skips
+	 * the handler, so the Router settles it according to `guardTimeoutPolicy`.
+	 */
+	private _recoverError(
+		error: unknown,
+		context: GuardContext,
+		trace: DecisionTrace,
+	): GuardDecision | Promise<GuardDecision> {
+		const handler = this._errorHandler;
+		if (handler === null || error instanceof GuardTimeoutError) return errorDecision(error, trace);
+
+		const apply = (result: GuardResult | undefined): GuardDecision =>
+			result === undefined ? errorDecision(error, trace) : toDecision(this._validateGuardResult(result), trace);
+		const keepError = (handlerError: unknown): GuardDecision => {
+			Log.error(
+				"Guard error handler threw, keeping the guard error",
+				handlerError instanceof Error ? handlerError : String(handlerError),
+				LOG_COMPONENT,
+			);
+			return errorDecision(error, trace);
+		};
+		try {
+			const result = handler(error, context);
+			if (isPromiseLike<GuardResult | undefined>(result)) {
+				return Promise.resolve(result).then(apply, keepError);
+			}
+			return apply(result);
+		} catch (handlerError) {
+			return keepError(handlerError);
+		}
+	}
+
+	private _addToGuardMap(map: Map<string, GuardEntry[]>, key: string, entry: GuardEntry, scope: string): void {
+		map.set(key, orderGuards([...(map.get(key) ?? []), entry], scope));
+	}
+
+	private _removeFromGuardMap(map: Map<string, GuardEntry[]>, key: string, guard: GuardFn): void {
 		const guards = map.get(key);
 		if (!guards) return;
-		const index = guards.indexOf(guard);
+		const index = indexOfGuard(guards, guard);
 		if (index !== -1) guards.splice(index, 1);
 		if (guards.length === 0) map.delete(key);
 	}
 
 	/**
-	 * Run leave guards for the current route. Returns boolean (no redirects).
+	 * Run global leave guards, then leave guards for the current route.
+	 * Returns a boolean or a {@link GuardBlock} (no redirects).
 	 *
-	 * The guard array is snapshot-copied before iteration so that guards
+	 * Both guard arrays are snapshot-copied before iteration so that guards
 	 * may safely add/remove themselves (e.g. one-shot guards) without
 	 * affecting the current pipeline run.
 	 */
-	private _runLeaveGuards(context: GuardContext): boolean | Promise<boolean> {
+	private _runLeaveGuards(
+		context: GuardContext,
+		trace: DecisionTrace,
+	): boolean | GuardBlock | Promise<boolean | GuardBlock> {
 		const registered = this._leaveGuards.get(context.fromRoute);
-		if (!registered || registered.length === 0) return true;
-
-		const guards = registered.slice();
-		for (let i = 0; i < guards.length; i++) {
-			try {
-				const result = guards[i](context);
-				if (isPromiseLike(result)) {
-					return this._continueGuardsAsync(
-						result,
-						guards,
-						i,
-						context,
-						(candidate) => this._validateLeaveGuardResult(candidate),
-						"Leave guard",
-						true,
-					) as Promise<boolean>;
-				}
-				if (result !== true) return this._validateLeaveGuardResult(result);
-			} catch (error) {
-				Log.error(
-					`Leave guard [${i}] on route "${context.fromRoute}" threw, navigation failed`,
-					error instanceof Error ? error : String(error),
-					LOG_COMPONENT,
-				);
-				if (context.signal.aborted) return false;
-				throw error;
-			}
-		}
-		return true;
+		const guards = registered ? [...this._globalLeaveGuards, ...registered] : this._globalLeaveGuards.slice();
+		if (guards.length === 0) return true;
+		return this._runGuards(guards, context, "leave", trace) as boolean | GuardBlock | Promise<boolean | GuardBlock>;
 	}
 
 	/** Run global guards, then route-specific guards. Stays sync when possible. */
-	private _runEnterGuards(toRoute: string, context: GuardContext): GuardResult | Promise<GuardResult> {
-		const globalResult = this._runGuards(this._globalGuards, context);
+	private _runEnterGuards(
+		toRoute: string,
+		context: GuardContext,
+		trace: DecisionTrace,
+	): GuardResult | Promise<GuardResult> {
+		const globalResult = this._runGuards(this._globalGuards, context, "global", trace);
 
 		if (isPromiseLike(globalResult)) {
 			return globalResult.then((result: GuardResult) => {
 				if (result !== true) return result;
 				if (context.signal.aborted) return false;
-				return this._runRouteGuards(toRoute, context);
+				return this._runRouteGuards(toRoute, context, trace);
 			});
 		}
 		if (globalResult !== true) return globalResult;
-		return this._runRouteGuards(toRoute, context);
+		return this._runRouteGuards(toRoute, context, trace);
 	}
 
 	/** Run route-specific guards if any are registered. */
-	private _runRouteGuards(toRoute: string, context: GuardContext): GuardResult | Promise<GuardResult> {
+	private _runRouteGuards(
+		toRoute: string,
+		context: GuardContext,
+		trace: DecisionTrace,
+	): GuardResult | Promise<GuardResult> {
 		if (!toRoute || !this._enterGuards.has(toRoute)) return true;
-		return this._runGuards(this._enterGuards.get(toRoute)!, context);
+		return this._runGuards(this._enterGuards.get(toRoute)!, context, "route", trace);
 	}
 
 	/**
@@ -271,38 +811,100 @@ export default class GuardPipeline {
 	 *
 	 * The guard array is snapshot-copied before iteration so that guards
 	 * may safely add/remove themselves (e.g. one-shot guards) without
-	 * affecting the current pipeline run.
+	 * affecting the current pipeline run. Guards of disabled groups, and enter
+	 * guards listed in {@link GuardEvaluationOptions.skipGuards}, are left out of
+	 * the snapshot, so indices count the guards that run only. Leave guard results are validated
+	 * as booleans or blocks; enter guard results may also be redirects.
+	 * Adjacent parallel guards run as one group (see {@link _runParallelGroup}).
+	 *
+	 * @param phase - Pipeline phase the guards belong to; `"leave"` reports `fromRoute`, others `toRoute`.
+	 * @param trace - Receives the guard whose result or error decides the evaluation.
 	 */
-	private _runGuards(guards: GuardFn[], context: GuardContext): GuardResult | Promise<GuardResult> {
-		guards = guards.slice();
+	private _runGuards(
+		guards: GuardEntry[],
+		context: GuardContext,
+		phase: GuardPhase,
+		trace: DecisionTrace,
+	): GuardResult | Promise<GuardResult> {
+		const skip = phase === "leave" ? undefined : trace.skip;
+		guards =
+			this._disabledGroups.size === 0 && skip === undefined
+				? guards.slice()
+				: guards.filter(
+						(entry) =>
+							(entry.group === undefined || !this._disabledGroups.has(entry.group)) &&
+							!skip?.has(entry.fn),
+					);
+		const route = phase === "leave" ? context.fromRoute : context.toRoute;
+		const validate = (candidate: unknown): GuardResult =>
+			phase === "leave" ? this._validateLeaveGuardResult(candidate) : this._validateGuardResult(candidate);
 		for (let i = 0; i < guards.length; i++) {
+			if (guards[i].parallel) {
+				const end = parallelGroupEnd(guards, i);
+				const group = this._runParallelGroup(guards, i, end, context, route);
+				if (isPromiseLike(group)) {
+					return this._continueGuardsAsync({ group, start: i, end }, guards, context, validate, phase, trace);
+				}
+				if (isDecisive(group)) {
+					recordPassed(guards, i, group.index, phase, trace);
+					return this._decideGroup(group, guards, context, validate, phase, trace);
+				}
+				recordPassed(guards, i, end, phase, trace);
+				i = end - 1;
+				continue;
+			}
 			try {
-				const result = guards[i](context);
+				const result = this._invokeGuard(guards[i], context, route);
 				if (isPromiseLike(result)) {
-					return this._continueGuardsAsync(
-						result,
-						guards,
-						i,
-						context,
-						(candidate) => this._validateGuardResult(candidate),
-						"Enter guard",
-						false,
-					);
+					return this._continueGuardsAsync({ index: i, result }, guards, context, validate, phase, trace);
 				}
-				if (result !== true) return this._validateGuardResult(result);
+				if (result !== true) {
+					trace.source = sourceOf(guards[i], phase, i, route);
+					return validate(result);
+				}
+				recordPassed(guards, i, i + 1, phase, trace);
 			} catch (error) {
 				Log.error(
-					`Enter guard [${i}] on route "${context.toRoute}" threw, navigation failed`,
+					`${describeGuard(guardLabel(phase), guards[i], i)} on route "${route}" threw, navigation failed`,
 					error instanceof Error ? error : String(error),
 					LOG_COMPONENT,
 				);
 				if (context.signal.aborted) return false;
+				trace.source = sourceOf(guards[i], phase, i, route);
 				throw error;
 			}
 		}
 		return true;
 	}
 
+	/**
+	 * Apply the decisive outcome of a synchronous parallel group the way
+	 * {@link _runGuards} applies a sequential guard's result or error.
+	 */
+	private _decideGroup(
+		outcome: GroupOutcome,
+		guards: GuardEntry[],
+		context: GuardContext,
+		validate: (result: unknown) => GuardResult,
+		phase: GuardPhase,
+		trace: DecisionTrace,
+	): GuardResult {
+		const route = phase === "leave" ? context.fromRoute : context.toRoute;
+		const entry = guards[outcome.index];
+		if ("error" in outcome) {
+			Log.error(
+				`${describeGuard(guardLabel(phase), entry, outcome.index)} on route "${route}" threw, navigation failed`,
+				outcome.error instanceof Error ? outcome.error : String(outcome.error),
+				LOG_COMPONENT,
+			);
+			if (context.signal.aborted) return false;
+			trace.source = sourceOf(entry, phase, outcome.index, route);
+			throw outcome.error;
+		}
+		trace.source = sourceOf(entry, phase, outcome.index, route);
+		return validate(outcome.result);
+	}
+
 	/**
 	 * Continue guard array async from the first Promise onward.
 	 *
@@ -310,55 +912,270 @@ export default class GuardPipeline {
 	 * determines what to return for non-true results: leave guards always
 	 * return `false`, enter guards validate and may return redirects.
 	 *
-	 * @param isLeaveGuard - When true, error logs reference `fromRoute`; otherwise `toRoute`.
+	 * @param pending - The step that went async: a single guard's result or a parallel group.
 	 */
 	private async _continueGuardsAsync(
-		pendingResult: PromiseLike<GuardResult>,
-		guards: GuardFn[],
-		currentIndex: number,
+		pending: PendingStep,
+		guards: GuardEntry[],
 		context: GuardContext,
 		onBlock: (result: unknown) => GuardResult,
-		label: string,
-		isLeaveGuard: boolean,
+		phase: GuardPhase,
+		trace: DecisionTrace,
 	): Promise<GuardResult> {
-		let guardIndex = currentIndex;
+		const route = phase === "leave" ? context.fromRoute : context.toRoute;
+		let guardIndex = "group" in pending ? pending.end - 1 : pending.index;
+		const unwrap = (start: number, outcome: GroupOutcome): GuardResult => {
+			guardIndex = outcome.index;
+			recordPassed(guards, start, isDecisive(outcome) ? outcome.index : outcome.index + 1, phase, trace);
+			if ("error" in outcome) throw outcome.error;
+			return outcome.result;
+		};
 		try {
-			const result = await pendingResult;
-			if (result !== true) return onBlock(result);
-
-			for (let i = currentIndex + 1; i < guards.length; i++) {
+			let result = "group" in pending ? unwrap(pending.start, await pending.group) : await pending.result;
+			let next = "group" in pending ? pending.end : pending.index + 1;
+			if (!("group" in pending) && result === true) recordPassed(guards, pending.index, next, phase, trace);
+			while (result === true && next < guards.length) {
 				if (context.signal.aborted) return false;
-				guardIndex = i;
-				const nextResult = await guards[i](context);
-				if (nextResult !== true) return onBlock(nextResult);
+				if (guards[next].parallel) {
+					const end = parallelGroupEnd(guards, next);
+					result = unwrap(next, await this._runParallelGroup(guards, next, end, context, route));
+					next = end;
+				} else {
+					guardIndex = next;
+					result = await this._invokeGuard(guards[next], context, route);
+					next++;
+					if (result === true) recordPassed(guards, guardIndex, next, phase, trace);
+				}
 			}
-			return true;
+			if (result === true) return true;
+			trace.source = sourceOf(guards[guardIndex], phase, guardIndex, route);
+			return onBlock(result);
 		} catch (error) {
 			if (!context.signal.aborted) {
-				const route = isLeaveGuard ? context.fromRoute : context.toRoute;
+				const failure = error instanceof GuardTimeoutError ? "timed out" : "threw";
 				Log.error(
-					`${label} [${guardIndex}] on route "${route}" threw, navigation failed`,
+					`${describeGuard(guardLabel(phase), guards[guardIndex], guardIndex)} on route "${route}" ${failure}, navigation failed`,
 					error instanceof Error ? error : String(error),
 					LOG_COMPONENT,
 				);
+				trace.source = sourceOf(guards[guardIndex], phase, guardIndex, route);
 				throw error;
 			}
 			return false;
 		}
 	}
 
+	/**
+	 * Start the guards in `[start, end)` concurrently, each with a child of
+	 * the navigation's `AbortSignal`.
+	 *
+	 * The first decisive outcome (a result other than `true`, or an error) in
+	 * declaration order wins, regardless of which guard settles first. Guards
+	 * after the winner that are still running have their child signal aborted.
+	 * Stays synchronous when every started guard returns a plain value; a
+	 * synchronous decisive outcome ahead of any async guard skips the guards
+	 * after it.
+	 *
+	 * @param route - Route reported on timeout errors.
+	 */
+	private _runParallelGroup(
+		guards: GuardEntry[],
+		start: number,
+		end: number,
+		context: GuardContext,
+		route: string,
+	): GroupOutcome | Promise<GroupOutcome> {
+		const controllers: AbortController[] = [];
+		const outcomes: (GroupOutcome | Promise<GroupOutcome>)[] = [];
+		let async = false;
+		for (let i = start; i < end; i++) {
+			const controller = new AbortController();
+			controllers.push(controller);
+			let outcome: GroupOutcome | Promise<GroupOutcome>;
+			try {
+				const result = this._invokeGuard(guards[i], { ...context, signal: controller.signal }, route);
+				outcome = isPromiseLike(result)
+					? Promise.resolve(result).then(
+							(value): GroupOutcome => ({ index: i, result: value }),
+							(error: unknown): GroupOutcome => ({ index: i, error }),
+						)
+					: { index: i, result };
+			} catch (error) {
+				outcome = { index: i, error };
+			}
+			if (isPromiseLike(outcome)) {
+				async = true;
+			} else if (!async && isDecisive(outcome)) {
+				return outcome;
+			}
+			outcomes.push(outcome);
+		}
+		const allowed: GroupOutcome = { index: end - 1, result: true };
+		return async ? this._awaitParallelGroup(outcomes, controllers, context, allowed) : allowed;
+	}
+
+	/** Await group outcomes in declaration order and abort the guards after the winner. */
+	private async _awaitParallelGroup(
+		outcomes: (GroupOutcome | Promise<GroupOutcome>)[],
+		controllers: AbortController[],
+		context: GuardContext,
+		allowed: GroupOutcome,
+	): Promise<GroupOutcome> {
+		const abortAll = (): void => {
+			for (const controller of controllers) controller.abort(context.signal.reason);
+		};
+		context.signal.addEventListener("abort", abortAll);
+		try {
+			for (const [k, pending] of outcomes.entries()) {
+				const outcome = await pending;
+				if (isDecisive(outcome)) {
+					for (const controller of controllers.slice(k + 1)) controller.abort();
+					return outcome;
+				}
+			}
+			return allowed;
+		} finally {
+			context.signal.removeEventListener("abort", abortAll);
+		}
+	}
+
+	/**
+	 * Call a guard and apply its timeout to a Promise-like result.
+	 *
+	 * Synchronous results are returned as-is. A timed guard receives a child
+	 * of the navigation's `AbortSignal`, which is aborted with a
+	 * {@link GuardTimeoutError} when the timeout elapses first, under every
+	 * policy. The `"allow"` policy then resolves `true`; every other policy
+	 * rejects with the error for the Router to settle. The timer is cleared
+	 * when the guard settles or the navigation is aborted.
+	 * Guards registered with `once` or `until` are checked for removal once
+	 * their own result arrives (see {@link _checkLifetime}).
+	 *
+	 * @param route - Route reported on the timeout error.
+	 */
+	private _invokeGuard(
+		entry: GuardEntry,
+		context: GuardContext,
+		route: string,
+	): GuardResult | PromiseLike<GuardResult> {
+		const timeout = entry.timeout ?? this._guardTimeout;
+		const controller = timeout > 0 ? new AbortController() : null;
+		const abortChild = (): void => controller?.abort(context.signal.reason);
+		const guardContext = controller === null ? context : { ...context, signal: controller.signal };
+		if (controller !== null) {
+			if (context.signal.aborted) abortChild();
+			else context.signal.addEventListener("abort", abortChild);
+		}
+
+		let result: GuardResult | PromiseLike<GuardResult>;
+		try {
+			result = entry.fn(guardContext);
+		} catch (error) {
+			context.signal.removeEventListener("abort", abortChild);
+			throw error;
+		}
+		if (entry.until !== undefined) {
+			if (!isPromiseLike(result)) {
+				this._checkLifetime(entry, result, guardContext);
+			} else {
+				result = Promise.resolve(result).then((value) => {
+					this._checkLifetime(entry, value, guardContext);
+					return value;
+				});
+			}
+		}
+		if (controller === null || !isPromiseLike(result)) {
+			context.signal.removeEventListener("abort", abortChild);
+			return result;
+		}
+
+		return new Promise<GuardResult>((resolve, reject) => {
+			const cleanup = (): void => {
+				clearTimeout(timer);
+				context.signal.removeEventListener("abort", cleanup);
+				context.signal.removeEventListener("abort", abortChild);
+			};
+			const timer = setTimeout(() => {
+				cleanup();
+				const error = new GuardTimeoutError(timeout, route);
+				controller.abort(error);
+				if (this._guardTimeoutPolicy === "allow") {
+					Log.warning(
+						`Guard on route "${route}" timed out after ${timeout}ms, allowing`,
+						context.toHash,
+						LOG_COMPONENT,
+					);
+					resolve(true);
+					return;
+				}
+				reject(error);
+			}, timeout);
+			context.signal.addEventListener("abort", cleanup);
+			result.then(
+				(value) => {
+					cleanup();
+					resolve(value);
+				},
+				(error: unknown) => {
+					cleanup();
+					reject(error);
+				},
+			);
+		});
+	}
+
+	/**
+	 * Remove a guard registered with `once` or `until` when its predicate
+	 * accepts the result. Results arriving after the guard's signal was
+	 * aborted do not count: the navigation discards them, and a timed-out
+	 * guard's result arrives after its timeout was applied.
+	 */
+	private _checkLifetime(entry: GuardEntry, result: GuardResult, context: GuardContext): void {
+		if (context.signal.aborted) return;
+		let done: boolean;
+		try {
+			done = entry.until!(result);
+		} catch (error) {
+			Log.warning(
+				`Guard${entry.name !== undefined ? ` "${entry.name}"` : ""}: "until" threw, keeping the guard`,
+				error instanceof Error ? error.message : String(error),
+				LOG_COMPONENT,
+			);
+			return;
+		}
+		if (done === true) this._removeEntry(entry);
+	}
+
+	/** Remove a registered entry from whichever guard list holds it. */
+	private _removeEntry(entry: GuardEntry): void {
+		for (const list of [this._globalGuards, this._globalLeaveGuards]) {
+			const index = list.indexOf(entry);
+			if (index !== -1) list.splice(index, 1);
+		}
+		for (const map of [this._enterGuards, this._leaveGuards]) {
+			for (const [key, list] of map) {
+				const index = list.indexOf(entry);
+				if (index === -1) continue;
+				list.splice(index, 1);
+				if (list.length === 0) map.delete(key);
+			}
+		}
+	}
+
 	/** Validate a non-true guard result; invalid values become false. */
 	private _validateGuardResult(result: unknown): GuardResult {
 		if (typeof result === "boolean") return result;
 		if (typeof result === "string" && result.length > 0) return result;
+		if (isGuardBlock(result)) return result;
 		if (isGuardRedirect(result)) return result;
 		Log.warning("Guard returned invalid value, treating as block", String(result), LOG_COMPONENT);
 		return false;
 	}
 
-	/** Validate a leave guard result; non-boolean values log a warning and block. */
-	private _validateLeaveGuardResult(result: unknown): boolean {
+	/** Validate a leave guard result; values other than booleans and blocks log a warning and block. */
+	private _validateLeaveGuardResult(result: unknown): boolean | GuardBlock {
 		if (typeof result === "boolean") return result;
+		if (isGuardBlock(result)) return result;
 		Log.warning("Leave guard returned non-boolean value, treating as block", String(result), LOG_COMPONENT);
 		return false;
 	}
@@ -0,0 +1,23 @@
+/**
+ * Error reported when an async guard does not settle within its timeout.
+ *
+ * Settles the navigation as `Error` (default `guardTimeoutPolicy`) or is
+ * attached to a `Blocked` result (`guardTimeoutPolicy: "block"`). The
+ * timed-out guard's `AbortSignal` is aborted with this error as its reason,
+ * and so is the navigation's unless the policy is `"allow"`.
+ *
+ * @since 1.7.0
+ */
+export default class GuardTimeoutError extends Error {
+	/** Timeout in milliseconds that was exceeded. */
+	readonly timeout: number;
+	/** Route whose guard timed out: the route being left for leave guards, the target route otherwise. */
+	readonly route: string;
+
+	constructor(timeout: number, route: string) {
+		super(`Guard on route "${route}" did not settle within ${timeout}ms`);
+		this.name = "GuardTimeoutError";
+		this.timeout = timeout;
+		this.route = route;
+	}
+}
@@ -0,0 +1,120 @@
+import Log from "sap/base/Log";
+import BusyIndicator from "sap/ui/core/BusyIndicator";
+import Element from "sap/ui/core/Element";
+import type Control from "sap/ui/core/Control";
+import type { BusyIndicatorOptions } from "./types";
+
+const LOG_COMPONENT = "ui5.guard.router.Router";
+
+/** Default delay in milliseconds, matching the UI5 default `busyIndicatorDelay`. */
+const DEFAULT_DELAY = 1000;
+
+/** Duck-typed check for a control that can be set busy. */
+export function isBusyControl(value: unknown): value is Control {
+	return (
+		typeof value === "object" &&
+		value !== null &&
+		typeof (value as Control).setBusy === "function" &&
+		typeof (value as Control).setBusyIndicatorDelay === "function"
+	);
+}
+
+/** Where the indicator is currently shown. */
+type ShownState =
+	| { readonly kind: "global" }
+	| { readonly kind: "control"; readonly control: Control; readonly delay: number };
+
+/**
+ * Shows a busy indicator while guard evaluation stays pending longer than a delay.
+ *
+ * The Router calls {@link start} when guard evaluation begins and {@link stop}
+ * when the navigation settles. Synchronous guards settle before the delay
+ * elapses, so the indicator only appears for slow async guards. Hiding is
+ * deferred to a microtask: a navigation that supersedes the pending one
+ * starts in the same tick and keeps the indicator visible instead of
+ * flickering it off and on.
+ *
+ * @namespace ui5.guard.router
+ */
+export default class NavigationBusyIndicator {
+	private readonly _delay: number;
+	private readonly _control: string | Control | undefined;
+	private _timer: ReturnType<typeof setTimeout> | null = null;
+	private _shown: ShownState | null = null;
+	private _hidePending = false;
+
+	constructor(options: BusyIndicatorOptions) {
+		this._delay = options.delay ?? DEFAULT_DELAY;
+		this._control = options.control;
+	}
+
+	/** Guard evaluation began: show the indicator once the delay elapses. */
+	start(): void {
+		this._hidePending = false;
+		if (this._shown !== null || this._timer !== null) return;
+		this._timer = setTimeout(() => {
+			this._timer = null;
+			this._show();
+		}, this._delay);
+	}
+
+	/** The navigation settled: cancel a pending show and hide the indicator. */
+	stop(): void {
+		this._clearTimer();
+		if (this._shown === null || this._hidePending) return;
+		this._hidePending = true;
+		queueMicrotask(() => {
+			if (!this._hidePending) return;
+			this._hidePending = false;
+			this._hide();
+		});
+	}
+
+	/** Hide immediately and release the timer. */
+	destroy(): void {
+		this._clearTimer();
+		this._hidePending = false;
+		this._hide();
+	}
+
+	private _clearTimer(): void {
+		if (this._timer !== null) {
+			clearTimeout(this._timer);
+			this._timer = null;
+		}
+	}
+
+	private _show(): void {
+		const control = typeof this._control === "string" ? Element.getElementById(this._control) : this._control;
+		if (isBusyControl(control)) {
+			// The delay already elapsed; the control's own delay would add to it.
+			const delay = control.getBusyIndicatorDelay();
+			control.setBusyIndicatorDelay(0);
+			control.setBusy(true);
+			this._shown = { kind: "control", control, delay };
+			return;
+		}
+		if (this._control !== undefined) {
+			Log.warning(
+				"guardRouter.busyIndicator: control not found, using the global BusyIndicator",
+				String(this._control),
+				LOG_COMPONENT,
+			);
+		}
+		BusyIndicator.show(0);
+		this._shown = { kind: "global" };
+	}
+
+	private _hide(): void {
+		const shown = this._shown;
+		this._shown = null;
+		if (shown === null) return;
+		if (shown.kind === "global") {
+			BusyIndicator.hide();
+			return;
+		}
+		if (shown.control.isDestroyed()) return;
+		shown.control.setBusy(false);
+		shown.control.setBusyIndicatorDelay(shown.delay);
+	}
+}
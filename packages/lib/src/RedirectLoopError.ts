@@ -0,0 +1,27 @@
+/**
+ * Error reported when a guard redirect chain revisits a hash or exceeds
+ * `maxRedirectDepth`.
+ *
+ * Settles the navigation as `Error` under `redirectLoopPolicy: "error"`, and
+ * is attached to the `Blocked` result (`"block"`, the default) or the
+ * `Redirected` result of the fallback route (`"fallback"`).
+ *
+ * @since 1.7.0
+ */
+export default class RedirectLoopError extends Error {
+	/** Hashes of the chain in evaluation order, starting with the originally attempted hash. For a loop, the last entry is the revisited hash. */
+	readonly visited: string[];
+	/** `"loop"` when a hash was revisited, `"depth"` when the chain exceeded `maxRedirectDepth`. */
+	readonly kind: "loop" | "depth";
+
+	constructor(visited: string[], kind: "loop" | "depth") {
+		super(
+			kind === "loop"
+				? `Guard redirect loop detected: ${visited.join(" -> ")}`
+				: `Guard redirect chain exceeded maximum depth: ${visited.join(" -> ")}`,
+		);
+		this.name = "RedirectLoopError";
+		this.visited = visited;
+		this.kind = kind;
+	}
+}
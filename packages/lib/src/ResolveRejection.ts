@@ -0,0 +1,24 @@
+import type { GuardBlock, GuardRedirect } from "./types";
+
+/**
+ * Thrown or rejected by a route data resolver to block or redirect the
+ * navigation, the way a guard result would, instead of failing it.
+ *
+ * Any other error thrown by a resolver settles the navigation as `Error`,
+ * unless the router's error handler converts it.
+ *
+ * @example
+ * throw new ResolveRejection("notFound");
+ *
+ * @since 1.7.0
+ */
+export default class ResolveRejection extends Error {
+	/** Guard result applied to the navigation: `false` or a block to block, a route name or redirect to redirect. */
+	readonly result: false | string | GuardRedirect | GuardBlock;
+
+	constructor(result: false | string | GuardRedirect | GuardBlock) {
+		super(`Route data resolver rejected the navigation: ${JSON.stringify(result)}`);
+		this.name = "ResolveRejection";
+		this.result = result;
+	}
+}
@@ -1,42 +1,100 @@
 import MobileRouter from "sap/m/routing/Router";
 import Log from "sap/base/Log";
-import coreLibrary from "sap/ui/core/library";
+import coreLibrary, { type routing } from "sap/ui/core/library";
+import History from "sap/ui/core/routing/History";
 import type { ComponentTargetParameters } from "sap/ui/core/routing/Router";
 import type { $RouteSettings } from "sap/ui/core/routing/Route";
 import type {
+	AccessOptions,
+	AfterHookFn,
+	BusyIndicatorOptions,
+	DefaultPolicy,
+	GuardBag,
 	GuardFn,
 	GuardContext,
+	GuardDecisionSource,
+	GuardErrorHandler,
+	GuardNavigateOptions,
 	GuardNavToOptions,
 	GuardResult,
 	GuardRedirect,
+	GuardRegistration,
+	GuardRegistrationOptions,
 	GuardRouter,
 	GuardLoading,
+	GuardTimeoutPolicy,
 	Inheritance,
+	RouteResolverFn,
+	RedirectLoopPolicy,
 	LeaveGuardFn,
+	ManifestGuardEntry,
 	ManifestRouteGuardConfig,
 	NavToPreflightMode,
 	NavigationResult,
+	NavigationTransition,
+	NavigationTrigger,
+	TransitionRetryOptions,
+	PendingNavigation,
+	PermissionProvider,
 	Router$NavigationSettledEvent,
+	Router$NavigationStartedEvent,
 	RouteGuardConfig,
 	UnknownRouteRegistrationPolicy,
 } from "./types";
 import NavigationOutcome from "./NavigationOutcome";
 import GuardPipeline, { type GuardDecision, isPromiseLike } from "./GuardPipeline";
+import GuardTimeoutError from "./GuardTimeoutError";
+import RedirectLoopError from "./RedirectLoopError";
+import NavigationBusyIndicator, { isBusyControl } from "./NavigationBusyIndicator";
+import { ACCESS_GUARD_NAME, DEFAULT_ACCESS_META_KEY, createAccessGuard } from "./access";
+import { allOf } from "./compose";
+import { parseGuardEntry } from "./modulePath";
 
 const HistoryDirection = coreLibrary.routing.HistoryDirection;
 
+/** Direction of the hash change being parsed, as tracked by the UI5 History. */
+function parsedDirection(): routing.HistoryDirection {
+	return History.getInstance().getDirection() ?? HistoryDirection.Unknown;
+}
+
 const LOG_COMPONENT = "ui5.guard.router.Router";
 
+/**
+ * First registration sequence of manifest guards. It lies below the pipeline's
+ * own sequence numbers, so manifest guards run ahead of imperative guards of
+ * equal priority, in declaration order, whenever their modules load.
+ */
+const MANIFEST_SEQ_START = -(2 ** 40);
+
 function isRouteGuardConfig(guard: GuardFn | RouteGuardConfig): guard is RouteGuardConfig {
 	return typeof guard === "object" && guard !== null;
 }
 
+/** Create a {@link GuardRegistration} whose first `remove()` call runs `remove`. */
+function createRegistration(remove: () => void): GuardRegistration {
+	let active = true;
+	return {
+		remove: () => {
+			if (!active) return;
+			active = false;
+			remove();
+		},
+	};
+}
+
+/** Handle returned when nothing was registered. */
+const EMPTY_REGISTRATION: GuardRegistration = Object.freeze({ remove: () => {} });
+
+/** Internal observer notified with every settlement and the generation it belongs to. */
+type SettlementListener = (result: NavigationResult, generation: number) => void;
+
 /** Snapshot of an in-flight navigation being evaluated by the guard pipeline. */
 interface NavigationAttempt {
 	readonly hash: string;
 	readonly route: string;
 	readonly controller: AbortController;
 	readonly generation: number;
+	readonly trigger: NavigationTrigger;
 }
 
 interface PhaseIdle {
@@ -53,6 +111,12 @@ interface PhaseCommitting {
 	readonly hash: string;
 	readonly route: string;
 	readonly origin: "preflight" | "redirect" | "parse";
+	/** Guard context of the navigation being committed, reported to after hooks. */
+	readonly context?: GuardContext;
+	/** Redirect chain being committed, reported on the settlement. */
+	readonly chain?: RedirectChainContext;
+	/** Data of the target route's resolvers, exposed by `getResolvedData()` once committed. */
+	readonly resolved?: Readonly<Record<string, unknown>>;
 }
 
 type RouterPhase = PhaseIdle | PhaseEvaluating | PhaseCommitting;
@@ -76,6 +140,47 @@ const isUnknownRouteRegistrationPolicy = isOneOf<UnknownRouteRegistrationPolicy>
 const isNavToPreflightMode = isOneOf<NavToPreflightMode>("guard", "bypass", "off");
 const isGuardLoading = isOneOf<GuardLoading>("block", "lazy");
 const isInheritance = isOneOf<Inheritance>("none", "pattern-tree");
+const isGuardTimeoutPolicy = isOneOf<GuardTimeoutPolicy>("block", "error", "allow");
+const isRedirectLoopPolicy = isOneOf<RedirectLoopPolicy>("block", "error", "fallback");
+const isDefaultPolicy = isOneOf<DefaultPolicy>("allow", "deny");
+
+/** Validator for millisecond durations: finite, non-negative numbers. */
+function isDuration(v: unknown): v is number {
+	return typeof v === "number" && Number.isFinite(v) && v >= 0;
+}
+
+/** Validator for `maxRedirectDepth`: a positive integer. */
+function isRedirectDepth(v: unknown): v is number {
+	return typeof v === "number" && Number.isInteger(v) && v > 0;
+}
+
+/** Validator for `busyIndicator`: a boolean or a {@link BusyIndicatorOptions} object. */
+function isBusyIndicatorOption(v: unknown): v is boolean | BusyIndicatorOptions {
+	if (typeof v === "boolean") return true;
+	if (!isRecord(v)) return false;
+	if (v.delay !== undefined && !isDuration(v.delay)) return false;
+	return v.control === undefined || isNonEmptyString(v.control) || isBusyControl(v.control);
+}
+
+/** Validator for `access`: an {@link AccessOptions} object whose set fields are non-empty strings. */
+function isAccessOptions(v: unknown): v is AccessOptions {
+	return (
+		isRecord(v) &&
+		[v.metaKey, v.deniedRoute, v.unauthenticatedRoute].every(
+			(field) => field === undefined || isNonEmptyString(field),
+		)
+	);
+}
+
+/** Duck-typed check for a {@link PermissionProvider}. */
+function isPermissionProvider(value: unknown): value is PermissionProvider {
+	return (
+		typeof value === "object" &&
+		value !== null &&
+		typeof (value as PermissionProvider).isAuthenticated === "function" &&
+		typeof (value as PermissionProvider).hasPermission === "function"
+	);
+}
 
 /** Matches a standalone optional (`:param:`) or rest (`:param*:`) segment. */
 const OPTIONAL_OR_REST_SEGMENT = /^:[^:]*\*?:$/;
@@ -144,49 +249,45 @@ interface GuardDescriptor {
 	readonly modulePath: string;
 	readonly name: string;
 	readonly exportKey?: string;
+	/** Registration options from an object-form entry; the name lives in `name`. */
+	readonly options?: GuardRegistrationOptions;
 }
 
-/**
- * Resolve a guard module path to a slash-separated AMD module path.
- *
- * Inspired by `sap.ui.core.routing.Target._getEffectiveObjectName()`,
- * which skips namespace prepending for `"module:"`-prefixed paths. This
- * function goes further: it also converts dots to slashes in a single
- * step, so both dot notation (`module:some.lib.guard`) and slash
- * notation (`module:some/lib/guard`) are accepted.
- *
- * - Paths prefixed with `"module:"` are treated as absolute (the prefix
- *   is stripped, dots become slashes).
- * - All other paths are prefixed with the component namespace, then dots
- *   become slashes.
- */
-function resolveGuardModulePath(dotPath: string, componentNamespace: string): string {
-	if (dotPath.startsWith("module:")) {
-		return dotPath.slice("module:".length).replace(/\./g, "/");
-	}
-	const fullDotPath = componentNamespace ? componentNamespace + "." + dotPath : dotPath;
-	return fullDotPath.replace(/\./g, "/");
+function isNonEmptyString(value: unknown): value is string {
+	return typeof value === "string" && value.length > 0;
+}
+
+function isGuardNameList(value: unknown): value is string | string[] {
+	return isNonEmptyString(value) || (Array.isArray(value) && value.every(isNonEmptyString));
 }
 
 /**
- * Split a manifest guard entry on the first `#` to separate the module path
- * from an optional export key, then derive a human-readable guard name.
+ * Read the registration options of an object-form manifest guard entry.
+ * Invalid fields are ignored with a warning.
  */
-function parseGuardEntry(
-	entry: string,
-	componentNamespace: string,
-): { modulePath: string; name: string; exportKey?: string } {
-	const hashIndex = entry.indexOf("#");
-	const rawPath = hashIndex === -1 ? entry : entry.slice(0, hashIndex);
-	const exportKey = hashIndex === -1 ? undefined : entry.slice(hashIndex + 1);
-
-	const modulePath = resolveGuardModulePath(rawPath, componentNamespace);
-
-	// Name: export key if present, otherwise last segment of the dot path
-	const lastSegment = rawPath.split(".").pop() ?? rawPath;
-	const name = exportKey ?? lastSegment;
-
-	return { modulePath, name, exportKey };
+function parseGuardEntryOptions(entry: Record<string, unknown>, label: string): GuardRegistrationOptions {
+	const options: GuardRegistrationOptions = {};
+	const read = <K extends keyof GuardRegistrationOptions>(
+		key: K,
+		isValid: (v: unknown) => v is NonNullable<GuardRegistrationOptions[K]>,
+	): void => {
+		const value = entry[key];
+		if (value === undefined) return;
+		if (isValid(value)) {
+			options[key] = value;
+		} else {
+			Log.warning(`guardRouter.guards${label}: invalid "${key}", ignoring`, JSON.stringify(value), LOG_COMPONENT);
+		}
+	};
+	read("name", isNonEmptyString);
+	read("priority", (v): v is number => typeof v === "number" && Number.isFinite(v));
+	read("before", isGuardNameList);
+	read("after", isGuardNameList);
+	read("timeout", isDuration);
+	read("parallel", (v): v is boolean => typeof v === "boolean");
+	read("once", (v): v is boolean => typeof v === "boolean");
+	read("group", isNonEmptyString);
+	return options;
 }
 
 interface ResolvedGuardExport {
@@ -194,6 +295,15 @@ interface ResolvedGuardExport {
 	readonly fn: GuardFn;
 }
 
+/**
+ * Name a guard resolved from a module: cherry-picked entries keep the
+ * descriptor name (which may be set explicitly), multi-export modules name
+ * each guard after its export.
+ */
+function guardNameFor(descriptor: GuardDescriptor, exp: ResolvedGuardExport): string {
+	return descriptor.exportKey !== undefined ? descriptor.name : exp.name;
+}
+
 /** Log a warning about a guard module entry in the manifest. */
 function guardWarning(modulePath: string, detail: string): void {
 	Log.warning(`guardRouter.guards: "${modulePath}" ${detail}`, undefined, LOG_COMPONENT);
@@ -308,6 +418,64 @@ function resolveModuleExports(
 	return [];
 }
 
+/** Module exporting a single function: the error handler or a route data resolver. */
+interface FunctionModule {
+	readonly modulePath: string;
+	readonly exportKey?: string;
+}
+
+function parseFunctionModule(entry: string, componentNamespace: string): FunctionModule {
+	const { modulePath, exportKey } = parseGuardEntry(entry, componentNamespace);
+	return exportKey !== undefined ? { modulePath, exportKey } : { modulePath };
+}
+
+/**
+ * Extract the function from a loaded module: the module itself when it
+ * is a function, or the function under the export key.
+ *
+ * @param option - Manifest option naming the module, for the warning.
+ */
+function resolveFunctionExport<T extends (...args: never[]) => unknown>(
+	moduleExport: unknown,
+	module: FunctionModule,
+	option: string,
+): T | null {
+	const value =
+		module.exportKey !== undefined && isRecord(moduleExport) ? moduleExport[module.exportKey] : moduleExport;
+	if (typeof value === "function") return value as T;
+	const label = module.exportKey !== undefined ? `${module.modulePath}#${module.exportKey}` : module.modulePath;
+	Log.warning(`guardRouter.${option}: "${label}" is not a function, ignoring`, undefined, LOG_COMPONENT);
+	return null;
+}
+
+/**
+ * Resolve the function of a module from the module cache, or load the
+ * module when the preload has not finished. A failed load rejects.
+ *
+ * @param option - Manifest option naming the module, for warnings.
+ */
+function loadFunctionExport<T extends (...args: never[]) => unknown>(
+	module: FunctionModule,
+	option: string,
+): T | null | Promise<T | null> {
+	const cached = sap.ui.require(module.modulePath) as unknown;
+	if (cached !== undefined) return resolveFunctionExport<T>(cached, module, option);
+	return new Promise<T | null>((resolve, reject) => {
+		sap.ui.require(
+			[module.modulePath],
+			(moduleExport: unknown) => resolve(resolveFunctionExport<T>(moduleExport, module, option)),
+			(err: Error) => {
+				Log.warning(
+					`guardRouter.${option}: lazy load of "${module.modulePath}" failed`,
+					String(err),
+					LOG_COMPONENT,
+				);
+				reject(err);
+			},
+		);
+	});
+}
+
 /**
  * Parse the `guards` block from the guardRouter config into an array of
  * {@link GuardDescriptor} objects.
@@ -316,8 +484,10 @@ function resolveModuleExports(
  * - `"*"` key with `string[]` -> global enter guards
  * - Route name with `string[]` (shorthand) -> enter guards
  * - Route name with `{ enter: [...], leave: [...] }` -> enter + leave guards
- * - `"*"` with object form -> warn, treat enter as global
- * - `"*"` leave -> warn, skip (global leave guards not supported)
+ * - `"*"` with object form -> global enter + global leave guards
+ * - `{ module, name?, priority?, before?, after?, timeout?, parallel?, once?, group? }` entries
+ *   -> registration options (`until` takes a function, so only the registration methods accept it)
+ * - `{ enter: [...], parallel: true }` -> enter guards default to `parallel: true`
  * - Invalid entries -> warn, skip
  */
 function parseGuardDescriptors(guards: unknown, componentNamespace: string): GuardDescriptor[] {
@@ -328,18 +498,36 @@ function parseGuardDescriptors(guards: unknown, componentNamespace: string): Gua
 
 	const descriptors: GuardDescriptor[] = [];
 
-	function pushEntries(entries: unknown[], route: string, type: "enter" | "leave", label: string): void {
+	function pushEntries(
+		entries: unknown[],
+		route: string,
+		type: "enter" | "leave",
+		label: string,
+		defaults?: GuardRegistrationOptions,
+	): void {
 		for (const entry of entries) {
-			if (typeof entry !== "string" || entry.length === 0) {
-				Log.warning(
-					`guardRouter.guards${label}: invalid entry, skipping`,
-					JSON.stringify(entry),
-					LOG_COMPONENT,
-				);
+			if (isNonEmptyString(entry)) {
+				descriptors.push({
+					route,
+					type,
+					...parseGuardEntry(entry, componentNamespace),
+					...(defaults ? { options: defaults } : {}),
+				});
+				continue;
+			}
+			if (isRecord(entry) && isNonEmptyString((entry as Partial<ManifestGuardEntry>).module)) {
+				const parsed = parseGuardEntry((entry as Partial<ManifestGuardEntry>).module!, componentNamespace);
+				const { name, ...options } = parseGuardEntryOptions(entry, label);
+				descriptors.push({
+					route,
+					type,
+					...parsed,
+					name: name ?? parsed.name,
+					options: { ...defaults, ...options },
+				});
 				continue;
 			}
-			const parsed = parseGuardEntry(entry, componentNamespace);
-			descriptors.push({ route, type, ...parsed });
+			Log.warning(`guardRouter.guards${label}: invalid entry, skipping`, JSON.stringify(entry), LOG_COMPONENT);
 		}
 	}
 
@@ -349,32 +537,29 @@ function parseGuardDescriptors(guards: unknown, componentNamespace: string): Gua
 		} else if (isRecord(value)) {
 			const config = value as ManifestRouteGuardConfig;
 
-			if (key === "*" && config.leave !== undefined) {
-				Log.warning(
-					'guardRouter.guards["*"].leave: global leave guards are not supported, skipping',
-					undefined,
-					LOG_COMPONENT,
-				);
-			}
-
-			if (key === "*" && config.enter === undefined && config.leave !== undefined) {
-				continue;
-			}
-
-			if (key === "*" && config.enter !== undefined) {
-				Log.info('guardRouter.guards["*"]: object form; treating enter as global', undefined, LOG_COMPONENT);
+			let defaults: GuardRegistrationOptions | undefined;
+			if (config.parallel !== undefined) {
+				if (typeof config.parallel === "boolean") {
+					defaults = { parallel: config.parallel };
+				} else {
+					Log.warning(
+						`guardRouter.guards["${key}"]: invalid "parallel", ignoring`,
+						JSON.stringify(config.parallel),
+						LOG_COMPONENT,
+					);
+				}
 			}
 
 			if (Array.isArray(config.enter)) {
-				pushEntries(config.enter, key, "enter", `["${key}"].enter`);
+				pushEntries(config.enter, key, "enter", `["${key}"].enter`, defaults);
 			}
 
-			if (key !== "*" && Array.isArray(config.leave)) {
+			if (Array.isArray(config.leave)) {
 				pushEntries(config.leave, key, "leave", `["${key}"].leave`);
 			}
 		} else {
 			Log.warning(
-				`guardRouter.guards["${key}"]: expected string[] or { enter?, leave? }, skipping`,
+				`guardRouter.guards["${key}"]: expected an array or { enter?, leave? }, skipping`,
 				JSON.stringify(value),
 				LOG_COMPONENT,
 			);
@@ -389,6 +574,16 @@ interface ResolvedGuardRouterOptions {
 	readonly navToPreflight: NavToPreflightMode;
 	readonly guardLoading: GuardLoading;
 	readonly inheritance: Inheritance;
+	readonly guardTimeout: number;
+	readonly guardTimeoutPolicy: GuardTimeoutPolicy;
+	readonly busyIndicator: boolean | BusyIndicatorOptions;
+	readonly maxRedirectDepth: number;
+	readonly redirectLoopPolicy: RedirectLoopPolicy;
+	readonly redirectLoopFallback: string;
+	readonly defaultPolicy: DefaultPolicy;
+	readonly defaultDenyRoute: string;
+	readonly access: AccessOptions | null;
+	readonly errorHandler: string;
 }
 
 const DEFAULT_OPTIONS: ResolvedGuardRouterOptions = {
@@ -396,6 +591,16 @@ const DEFAULT_OPTIONS: ResolvedGuardRouterOptions = {
 	navToPreflight: "guard",
 	guardLoading: "lazy",
 	inheritance: "none",
+	guardTimeout: 0,
+	guardTimeoutPolicy: "error",
+	busyIndicator: false,
+	maxRedirectDepth: 10,
+	redirectLoopPolicy: "block",
+	redirectLoopFallback: "",
+	defaultPolicy: "allow",
+	defaultDenyRoute: "",
+	access: null,
+	errorHandler: "",
 };
 
 function applyOption<K extends keyof ResolvedGuardRouterOptions>(
@@ -426,12 +631,27 @@ function normalizeGuardRouterOptions(raw: unknown): ResolvedGuardRouterOptions {
 	applyOption(raw, "navToPreflight", isNavToPreflightMode, result);
 	applyOption(raw, "guardLoading", isGuardLoading, result);
 	applyOption(raw, "inheritance", isInheritance, result);
+	applyOption(raw, "guardTimeout", isDuration, result);
+	applyOption(raw, "guardTimeoutPolicy", isGuardTimeoutPolicy, result);
+	applyOption(raw, "busyIndicator", isBusyIndicatorOption, result);
+	applyOption(raw, "maxRedirectDepth", isRedirectDepth, result);
+	applyOption(raw, "redirectLoopPolicy", isRedirectLoopPolicy, result);
+	applyOption(raw, "redirectLoopFallback", isNonEmptyString, result);
+	applyOption(raw, "defaultPolicy", isDefaultPolicy, result);
+	applyOption(raw, "defaultDenyRoute", isNonEmptyString, result);
+	applyOption(raw, "access", isAccessOptions, result);
+	applyOption(raw, "errorHandler", isNonEmptyString, result);
+	if (result.redirectLoopPolicy === "fallback" && result.redirectLoopFallback === "") {
+		Log.warning(
+			'guardRouter.redirectLoopPolicy "fallback" requires redirectLoopFallback, using "block"',
+			undefined,
+			LOG_COMPONENT,
+		);
+		result.redirectLoopPolicy = "block";
+	}
 	return result;
 }
 
-/** Maximum number of hops in a redirect chain before it is treated as a loop. */
-const MAX_REDIRECT_DEPTH = 10;
-
 /** State threaded through a redirect chain. */
 interface RedirectChainContext {
 	/** Hashes whose guards have been evaluated in this chain (mutated via .add()). */
@@ -449,7 +669,55 @@ interface RedirectChainContext {
 	/** Shared generation counter from the original navigation. */
 	readonly generation: number;
 	/** Shared bag from the original navigation's guard context. */
-	readonly bag: Map<string, unknown>;
+	readonly bag: GuardBag;
+	/** Guard context of the original navigation. Its transition is shared by every hop. */
+	readonly context: GuardContext;
+	/** Guard that issued the most recent redirect of the chain. */
+	decidedBy?: GuardDecisionSource;
+	/** Loop that sent the chain to `redirectLoopFallback`, reported on its settlement. */
+	loopError?: RedirectLoopError;
+}
+
+/** Diagnostics reported on a settlement alongside its status. */
+interface SettlementDetails {
+	readonly error?: unknown;
+	readonly decidedBy?: GuardDecisionSource;
+	readonly redirectChain?: string[];
+	readonly reason?: string;
+	readonly data?: unknown;
+}
+
+/** Settlement details of a block decision: the deciding guard and its block reason. */
+function blockDetails(decision: Extract<GuardDecision, { action: "block" }>): SettlementDetails {
+	const { decidedBy, reason, data } = decision;
+	return { decidedBy, reason, data };
+}
+
+/** Add the redirect chain to the settlement details of a chain hop. */
+function chainDetails(chain: RedirectChainContext, details: SettlementDetails): SettlementDetails {
+	return { ...details, redirectChain: [...chain.visited] };
+}
+
+function applySettlementDetails(result: NavigationResult, details: SettlementDetails): void {
+	if (details.decidedBy) {
+		result.decidedBy = details.decidedBy;
+	}
+	if (details.redirectChain) {
+		result.redirectChain = details.redirectChain;
+	}
+	if (details.reason !== undefined) {
+		result.reason = details.reason;
+	}
+	if (details.data !== undefined) {
+		result.data = details.data;
+	}
+}
+
+/** Arguments needed to replay a navigation through `navTo()`. */
+interface TransitionTarget {
+	readonly route: string;
+	readonly parameters: object;
+	readonly componentTargetInfo?: Record<string, ComponentTargetParameters>;
 }
 
 /**
@@ -478,21 +746,35 @@ interface RedirectChainContext {
  */
 export default class Router extends MobileRouter implements GuardRouter {
 	private _options: ResolvedGuardRouterOptions = DEFAULT_OPTIONS;
-	private _pipeline = new GuardPipeline();
+	private _pipeline: GuardPipeline;
+	private _busyIndicator: NavigationBusyIndicator | null = null;
+	private _permissionProvider: PermissionProvider | null = null;
+	private _pendingErrorHandler: FunctionModule | null = null;
 	private _currentRoute = "";
 	private _currentHash: string | null = null;
 	private _phase: RouterPhase = IDLE;
+	/** Controller of each attempt, keyed by its signal, so a guard timeout can abort it in any phase. */
+	private _attemptControllers = new WeakMap<AbortSignal, AbortController>();
 	private _parseGeneration = 0;
 	private _suppressedHash: string | null = null;
 	private _settlementResolvers: ((result: NavigationResult) => void)[] = [];
+	private _settlementListeners: SettlementListener[] = [];
+	private _afterHooks: AfterHookFn[] = [];
 	private _lastSettlement: NavigationResult | null = null;
 	private _pendingGuardDescriptors: GuardDescriptor[] = [];
 	private _sourceDescriptors: GuardDescriptor[] = [];
+	/** Registration sequence of the next manifest guard descriptor; its exports share it. */
+	private _nextManifestSeq = MANIFEST_SEQ_START;
 	private _destroyed = false;
 	private _manifestMeta = new Map<string, Readonly<Record<string, unknown>>>();
 	private _runtimeMeta = new Map<string, Readonly<Record<string, unknown>>>();
 	private _resolvedMetaCache = new Map<string, Readonly<Record<string, unknown>>>();
 	private _routeNames: string[] = [];
+	private _resolvedData = new Map<string, Readonly<Record<string, unknown>>>();
+	/** Enter guards that allowed the navigation of a transition, for `retry({ skipPassedGuards: true })`. */
+	private _passedGuards = new WeakMap<NavigationTransition, Set<GuardFn>>();
+	/** Guards the next preflight skips, handed from {@link NavigationTransition.retry} to {@link navTo}. */
+	private _retrySkippedGuards: ReadonlySet<GuardFn> | null = null;
 
 	constructor(...args: ConstructorParameters<typeof MobileRouter>) {
 		const [routes, config, owner, ...rest] = args;
@@ -501,6 +783,24 @@ export default class Router extends MobileRouter implements GuardRouter {
 		const { guardRouter, ...cleanConfig } = isRecordConfig ? rawConfig : ({} as Record<string, unknown>);
 		super(routes, isRecordConfig ? (cleanConfig as typeof config) : config, owner, ...rest);
 		this._options = normalizeGuardRouterOptions(guardRouter);
+		const { access, defaultDenyRoute } = this._options;
+		this._pipeline = new GuardPipeline({
+			guardTimeout: this._options.guardTimeout,
+			guardTimeoutPolicy: this._options.guardTimeoutPolicy,
+			defaultPolicy: this._options.defaultPolicy,
+			defaultDenyRoute: defaultDenyRoute !== "" ? defaultDenyRoute : undefined,
+			accessMetaKey: access !== null ? (access.metaKey ?? DEFAULT_ACCESS_META_KEY) : undefined,
+		});
+		const busyIndicator = this._options.busyIndicator;
+		if (busyIndicator !== false) {
+			this._busyIndicator = new NavigationBusyIndicator(busyIndicator === true ? {} : busyIndicator);
+		}
+		if (access !== null) {
+			this._pipeline.addGlobalGuard(
+				createAccessGuard(access, () => this._permissionProvider),
+				{ name: ACCESS_GUARD_NAME },
+			);
+		}
 
 		// Collect route names from the constructor's routes parameter for pattern-tree traversal.
 		if (Array.isArray(routes)) {
@@ -533,14 +833,31 @@ export default class Router extends MobileRouter implements GuardRouter {
 			}
 		}
 
-		if (isRecord(guardRouter) && guardRouter.guards !== undefined) {
-			let componentNamespace = "";
-			if (owner) {
-				const appConfig = owner.getManifestEntry("sap.app") as Record<string, unknown> | undefined;
-				if (isRecord(appConfig) && typeof appConfig.id === "string") {
-					componentNamespace = appConfig.id;
-				}
+		let componentNamespace = "";
+		if (owner) {
+			const appConfig = owner.getManifestEntry("sap.app") as Record<string, unknown> | undefined;
+			if (isRecord(appConfig) && typeof appConfig.id === "string") {
+				componentNamespace = appConfig.id;
+			}
+		}
+
+		if (this._options.errorHandler !== "") {
+			const module = parseFunctionModule(this._options.errorHandler, componentNamespace);
+			// Same loading strategy as guard modules: block mode loads the module in
+			// initialize(), lazy mode preloads it and resolves it on the first guard error.
+			if (this._options.guardLoading === "block") {
+				this._pendingErrorHandler = module;
+			} else {
+				sap.ui.require([module.modulePath]);
+				this._pipeline.setErrorHandler(this._createLazyErrorHandler(module));
 			}
+		}
+
+		if (isRecord(guardRouter) && guardRouter.resolve !== undefined) {
+			this._registerManifestResolvers(guardRouter.resolve, componentNamespace);
+		}
+
+		if (isRecord(guardRouter) && guardRouter.guards !== undefined) {
 			this._pendingGuardDescriptors = parseGuardDescriptors(guardRouter.guards, componentNamespace);
 
 			// Fire-and-forget preload hint: warm the module cache so lazy
@@ -564,7 +881,8 @@ export default class Router extends MobileRouter implements GuardRouter {
 	 * @since 1.0.1
 	 */
 	override initialize(): this {
-		if (this._pendingGuardDescriptors.length === 0) {
+		if (this._pendingGuardDescriptors.length === 0 && this._pendingErrorHandler === null) {
+			this._warnUnguardedRoutes();
 			return super.initialize();
 		}
 
@@ -577,14 +895,17 @@ export default class Router extends MobileRouter implements GuardRouter {
 
 		if (this._options.guardLoading === "lazy") {
 			this._registerLazyGuards(expandedDescriptors);
+			this._warnUnguardedRoutes();
 			return super.initialize();
 		}
 
 		// "block" mode: load all modules, then initialize.
 		// Guard against destroy() being called while modules are still loading.
-		this._loadAndRegisterGuards(expandedDescriptors)
+		Promise.all([this._loadAndRegisterGuards(expandedDescriptors), this._loadErrorHandler()])
 			.then(() => {
-				if (!this._destroyed) super.initialize();
+				if (this._destroyed) return;
+				this._warnUnguardedRoutes();
+				super.initialize();
 			})
 			.catch((err: unknown) => {
 				if (this._destroyed) return;
@@ -593,11 +914,32 @@ export default class Router extends MobileRouter implements GuardRouter {
 					String(err),
 					LOG_COMPONENT,
 				);
+				this._warnUnguardedRoutes();
 				super.initialize();
 			});
 		return this;
 	}
 
+	/**
+	 * Under `defaultPolicy: "deny"`, warn once about the routes that are
+	 * unreachable because they have neither a route-level enter guard nor
+	 * `public: true` in their metadata. Guards registered or disabled after
+	 * `initialize()` are not taken into account here; the pipeline reports a
+	 * route the first time a navigation to it is denied.
+	 */
+	private _warnUnguardedRoutes(): void {
+		if (this._options.defaultPolicy !== "deny") return;
+		const unguarded = this._routeNames.filter((name) =>
+			this._pipeline.isDeniedByDefault(name, this.getRouteMeta(name)),
+		);
+		if (unguarded.length === 0) return;
+		Log.warning(
+			'guardRouter.defaultPolicy "deny": routes without an enter guard or public metadata are unreachable',
+			unguarded.join(", "),
+			LOG_COMPONENT,
+		);
+	}
+
 	/**
 	 * Add a route dynamically and integrate it into pattern-tree inheritance.
 	 *
@@ -687,12 +1029,13 @@ export default class Router extends MobileRouter implements GuardRouter {
 	 * Register a global guard that runs for every navigation.
 	 *
 	 * @param guard - Guard function to register. Non-functions are ignored with a warning.
+	 * @param options - Per-guard options: `timeout`, `name`, `priority`, `before`, `after`, `parallel`, `once`, `until`, `group`.
 	 * @returns `this` for chaining.
 	 * @since 1.0.1
 	 */
-	addGuard(guard: GuardFn): this {
+	addGuard(guard: GuardFn, options?: GuardRegistrationOptions): this {
 		if (!this._isFn(guard, "addGuard")) return this;
-		this._pipeline.addGlobalGuard(guard);
+		this._pipeline.addGlobalGuard(guard, options);
 		return this;
 	}
 
@@ -709,6 +1052,70 @@ export default class Router extends MobileRouter implements GuardRouter {
 		return this;
 	}
 
+	/**
+	 * Register a leave guard that runs whenever the current route is left.
+	 *
+	 * Global leave guards run before the route-specific leave guards of the
+	 * route being left, and like them return only a boolean (no redirects).
+	 *
+	 * @param guard - Leave guard function to register. Non-functions are ignored with a warning.
+	 * @param options - Per-guard options: `timeout`, `name`, `priority`, `before`, `after`, `parallel`, `once`, `until`, `group`.
+	 * @returns `this` for chaining.
+	 * @since 1.7.0
+	 */
+	addGlobalLeaveGuard(guard: LeaveGuardFn, options?: GuardRegistrationOptions): this {
+		if (!this._isFn(guard, "addGlobalLeaveGuard")) return this;
+		this._pipeline.addGlobalLeaveGuard(guard, options);
+		return this;
+	}
+
+	/**
+	 * Remove a previously registered global leave guard.
+	 *
+	 * @param guard - Leave guard function to remove by reference. Non-functions are ignored with a warning.
+	 * @returns `this` for chaining.
+	 * @since 1.7.0
+	 */
+	removeGlobalLeaveGuard(guard: LeaveGuardFn): this {
+		if (!this._isFn(guard, "removeGlobalLeaveGuard")) return this;
+		this._pipeline.removeGlobalLeaveGuard(guard);
+		return this;
+	}
+
+	/**
+	 * Register a hook that runs after every committed, blocked, redirected, or failed navigation.
+	 *
+	 * Hooks run after `parse()` has been delegated to the parent router for
+	 * commits, and after the hash is restored for blocked and failed
+	 * navigations. Errors thrown by a hook are logged and do not affect the
+	 * navigation or other hooks.
+	 *
+	 * @param hook - After hook to register. Non-functions are ignored with a warning.
+	 * @returns `this` for chaining.
+	 * @since 1.7.0
+	 */
+	addAfterHook(hook: AfterHookFn): this {
+		if (!this._isFn(hook, "addAfterHook")) return this;
+		this._afterHooks.push(hook);
+		return this;
+	}
+
+	/**
+	 * Remove a previously registered after hook.
+	 *
+	 * @param hook - After hook to remove by reference. Non-functions are ignored with a warning.
+	 * @returns `this` for chaining.
+	 * @since 1.7.0
+	 */
+	removeAfterHook(hook: AfterHookFn): this {
+		if (!this._isFn(hook, "removeAfterHook")) return this;
+		const index = this._afterHooks.indexOf(hook);
+		if (index !== -1) {
+			this._afterHooks.splice(index, 1);
+		}
+		return this;
+	}
+
 	/**
 	 * Register a guard for a specific route.
 	 *
@@ -717,10 +1124,11 @@ export default class Router extends MobileRouter implements GuardRouter {
 	 *
 	 * @param routeName - Route name as defined in `manifest.json`. If the route is unknown, the {@link GuardRouterOptions.unknownRouteRegistration} policy applies (default: warn).
 	 * @param guard - Guard function or {@link RouteGuardConfig} object.
+	 * @param options - Per-guard options (`timeout`, `name`, `priority`, `before`, `after`, `parallel`, `once`, `until`, `group`), applied to every guard in the call.
 	 * @returns `this` for chaining.
 	 * @since 1.0.1
 	 */
-	addRouteGuard(routeName: string, guard: GuardFn | RouteGuardConfig): this {
+	addRouteGuard(routeName: string, guard: GuardFn | RouteGuardConfig, options?: GuardRegistrationOptions): this {
 		if (isRouteGuardConfig(guard)) {
 			if (!this._handleUnknownRouteRegistration(routeName, "addRouteGuard")) {
 				return this;
@@ -730,13 +1138,13 @@ export default class Router extends MobileRouter implements GuardRouter {
 			if (guard.beforeEnter !== undefined) {
 				hasHandler = true;
 				if (this._isFn(guard.beforeEnter, "addRouteGuard", routeName)) {
-					this._pipeline.addEnterGuard(routeName, guard.beforeEnter);
+					this._pipeline.addEnterGuard(routeName, guard.beforeEnter, options);
 				}
 			}
 			if (guard.beforeLeave !== undefined) {
 				hasHandler = true;
 				if (this._isFn(guard.beforeLeave, "addRouteGuard", routeName)) {
-					this._pipeline.addLeaveGuard(routeName, guard.beforeLeave);
+					this._pipeline.addLeaveGuard(routeName, guard.beforeLeave, options);
 				}
 			}
 
@@ -750,7 +1158,7 @@ export default class Router extends MobileRouter implements GuardRouter {
 		if (!this._handleUnknownRouteRegistration(routeName, "addRouteGuard")) {
 			return this;
 		}
-		this._pipeline.addEnterGuard(routeName, guard);
+		this._pipeline.addEnterGuard(routeName, guard, options);
 		return this;
 	}
 
@@ -790,15 +1198,16 @@ export default class Router extends MobileRouter implements GuardRouter {
 	 *
 	 * @param routeName - Route name as defined in `manifest.json`. If the route is unknown, the {@link GuardRouterOptions.unknownRouteRegistration} policy applies (default: warn).
 	 * @param guard - Leave guard function to register. Non-functions are ignored with a warning.
+	 * @param options - Per-guard options: `timeout`, `name`, `priority`, `before`, `after`, `parallel`, `once`, `until`, `group`.
 	 * @returns `this` for chaining.
 	 * @since 1.0.1
 	 */
-	addLeaveGuard(routeName: string, guard: LeaveGuardFn): this {
+	addLeaveGuard(routeName: string, guard: LeaveGuardFn, options?: GuardRegistrationOptions): this {
 		if (!this._isFn(guard, "addLeaveGuard", routeName)) return this;
 		if (!this._handleUnknownRouteRegistration(routeName, "addLeaveGuard")) {
 			return this;
 		}
-		this._pipeline.addLeaveGuard(routeName, guard);
+		this._pipeline.addLeaveGuard(routeName, guard, options);
 		return this;
 	}
 
@@ -877,6 +1286,113 @@ export default class Router extends MobileRouter implements GuardRouter {
 		return this;
 	}
 
+	/**
+	 * Register a global guard and return a handle that removes it.
+	 *
+	 * Same as {@link addGuard}, for callers that would otherwise keep the
+	 * guard function only to pass it to {@link removeGuard} later.
+	 *
+	 * @param guard - Guard function to register. Non-functions are ignored with a warning.
+	 * @param options - Per-guard options: `timeout`, `name`, `priority`, `before`, `after`, `parallel`, `once`, `until`, `group`.
+	 * @returns Handle whose `remove()` unregisters the guard.
+	 * @since 1.7.0
+	 */
+	registerGuard(guard: GuardFn, options?: GuardRegistrationOptions): GuardRegistration {
+		this.addGuard(guard, options);
+		if (typeof guard !== "function") return EMPTY_REGISTRATION;
+		return createRegistration(() => this.removeGuard(guard));
+	}
+
+	/**
+	 * Register a route guard and return a handle that removes it.
+	 *
+	 * Same as {@link addRouteGuard}; for a {@link RouteGuardConfig}, `remove()`
+	 * unregisters both its `beforeEnter` and `beforeLeave` guards.
+	 *
+	 * @param routeName - Route name as defined in `manifest.json`. If the route is unknown, the {@link GuardRouterOptions.unknownRouteRegistration} policy applies (default: warn).
+	 * @param guard - Guard function or {@link RouteGuardConfig} object.
+	 * @param options - Per-guard options (`timeout`, `name`, `priority`, `before`, `after`, `parallel`, `once`, `until`, `group`), applied to every guard in the call.
+	 * @returns Handle whose `remove()` unregisters the guards of the call.
+	 * @since 1.7.0
+	 */
+	registerRouteGuard(
+		routeName: string,
+		guard: GuardFn | RouteGuardConfig,
+		options?: GuardRegistrationOptions,
+	): GuardRegistration {
+		this.addRouteGuard(routeName, guard, options);
+		if (!isRouteGuardConfig(guard) && typeof guard !== "function") return EMPTY_REGISTRATION;
+		// Copy the config so later mutations of the caller's object do not change what is removed.
+		const registered = isRouteGuardConfig(guard) ? { ...guard } : guard;
+		return createRegistration(() => this.removeRouteGuard(routeName, registered));
+	}
+
+	/**
+	 * Register a leave guard and return a handle that removes it.
+	 *
+	 * Same as {@link addLeaveGuard}.
+	 *
+	 * @param routeName - Route name as defined in `manifest.json`. If the route is unknown, the {@link GuardRouterOptions.unknownRouteRegistration} policy applies (default: warn).
+	 * @param guard - Leave guard function to register. Non-functions are ignored with a warning.
+	 * @param options - Per-guard options: `timeout`, `name`, `priority`, `before`, `after`, `parallel`, `once`, `until`, `group`.
+	 * @returns Handle whose `remove()` unregisters the guard.
+	 * @since 1.7.0
+	 */
+	registerLeaveGuard(routeName: string, guard: LeaveGuardFn, options?: GuardRegistrationOptions): GuardRegistration {
+		this.addLeaveGuard(routeName, guard, options);
+		if (typeof guard !== "function") return EMPTY_REGISTRATION;
+		return createRegistration(() => this.removeLeaveGuard(routeName, guard));
+	}
+
+	/**
+	 * Register a global leave guard and return a handle that removes it.
+	 *
+	 * Same as {@link addGlobalLeaveGuard}.
+	 *
+	 * @param guard - Leave guard function to register. Non-functions are ignored with a warning.
+	 * @param options - Per-guard options: `timeout`, `name`, `priority`, `before`, `after`, `parallel`, `once`, `until`, `group`.
+	 * @returns Handle whose `remove()` unregisters the guard.
+	 * @since 1.7.0
+	 */
+	registerGlobalLeaveGuard(guard: LeaveGuardFn, options?: GuardRegistrationOptions): GuardRegistration {
+		this.addGlobalLeaveGuard(guard, options);
+		if (typeof guard !== "function") return EMPTY_REGISTRATION;
+		return createRegistration(() => this.removeGlobalLeaveGuard(guard));
+	}
+
+	/**
+	 * Enable or disable every guard registered with `group: name`.
+	 *
+	 * Applies to guards registered programmatically and in the manifest,
+	 * including guards registered later. Groups are enabled by default.
+	 * A navigation already evaluating a guard list finishes that list unchanged.
+	 * Non-string names are ignored with a warning.
+	 *
+	 * @param name - Group name, as passed in the `group` registration option.
+	 * @param enabled - `false` to skip the group's guards, `true` to run them again.
+	 * @returns `this` for chaining.
+	 * @since 1.7.0
+	 */
+	setGuardGroupEnabled(name: string, enabled: boolean): this {
+		if (!isNonEmptyString(name)) {
+			Log.warning("setGuardGroupEnabled: expected a non-empty group name, ignoring", String(name), LOG_COMPONENT);
+			return this;
+		}
+		this._pipeline.setGroupEnabled(name, enabled !== false);
+		return this;
+	}
+
+	/**
+	 * Whether the guards of a group run.
+	 *
+	 * @param name - Group name.
+	 * @returns `false` once the group was disabled with {@link setGuardGroupEnabled}, `true` otherwise.
+	 * @since 1.7.0
+	 */
+	isGuardGroupEnabled(name: string): boolean {
+		return this._pipeline.isGroupEnabled(name);
+	}
+
 	private static readonly _EMPTY_META: Readonly<Record<string, unknown>> = Object.freeze({});
 
 	/**
@@ -949,6 +1465,92 @@ export default class Router extends MobileRouter implements GuardRouter {
 		return this;
 	}
 
+	/**
+	 * Set the provider answering the checks of the built-in access guard.
+	 *
+	 * The access guard is enabled by the `guardRouter.access` manifest block
+	 * and reads the provider on every navigation, so the provider can be set
+	 * or replaced at any time. Without a provider, it denies every restricted
+	 * route. Values that are neither `null` nor a provider are ignored with a warning.
+	 *
+	 * @param provider - Object with `isAuthenticated` and `hasPermission`, or `null` to remove the provider.
+	 * @returns `this` for chaining.
+	 * @since 1.7.0
+	 */
+	setPermissionProvider(provider: PermissionProvider | null): this {
+		if (provider !== null && !isPermissionProvider(provider)) {
+			Log.warning(
+				"setPermissionProvider: expected isAuthenticated and hasPermission functions, ignoring",
+				undefined,
+				LOG_COMPONENT,
+			);
+			return this;
+		}
+		this._permissionProvider = provider;
+		return this;
+	}
+
+	/**
+	 * Set the handler converting guard errors into guard results, or `null`
+	 * to remove it. Replaces a handler configured under `guardRouter.errorHandler`,
+	 * including one whose module is still loading.
+	 *
+	 * @param handler - Error handler, or `null`. Non-functions are ignored with a warning.
+	 * @returns `this` for chaining.
+	 * @since 1.7.0
+	 */
+	setErrorHandler(handler: GuardErrorHandler | null): this {
+		if (handler !== null && !this._isFn(handler, "setErrorHandler")) return this;
+		this._pendingErrorHandler = null;
+		this._pipeline.setErrorHandler(handler);
+		return this;
+	}
+
+	/**
+	 * Register a data resolver for a route. Resolvers run concurrently after
+	 * the enter guards allow a navigation, before the route is committed.
+	 * A resolver registered under an existing key replaces it.
+	 *
+	 * @param routeName - Route name as defined in `manifest.json`.
+	 * @param key - Key of the resolved value in `getResolvedData()`.
+	 * @param resolver - Resolver function. Non-functions are ignored with a warning.
+	 * @returns `this` for chaining.
+	 * @since 1.7.0
+	 */
+	addResolver(routeName: string, key: string, resolver: RouteResolverFn): this {
+		if (!this._isFn(resolver, "addResolver", `${routeName}.${key}`)) return this;
+		if (!this._handleUnknownRouteRegistration(routeName, "addResolver")) return this;
+		this._pipeline.addResolver(routeName, key, resolver);
+		return this;
+	}
+
+	/**
+	 * Remove the data resolver registered under a key.
+	 *
+	 * @param routeName - Route name.
+	 * @param key - Key the resolver was registered under.
+	 * @returns `this` for chaining.
+	 * @since 1.7.0
+	 */
+	removeResolver(routeName: string, key: string): this {
+		this._pipeline.removeResolver(routeName, key);
+		return this;
+	}
+
+	/**
+	 * Data resolved for the last committed navigation to a route, by resolver
+	 * key. Set before the route's `patternMatched` event fires. `undefined`
+	 * when the route has no resolvers or was last committed without running
+	 * them (`skipGuards`, `navToPreflight: "bypass"`, redirect loop fallback).
+	 *
+	 * @param routeName - Route name.
+	 * @returns The resolved data, or `undefined`.
+	 * @since 1.7.0
+	 */
+	getResolvedData(routeName: string): Readonly<Record<string, unknown>> | undefined {
+		return this._resolvedData.get(routeName);
+	}
+
 	/**
 	 * Return a Promise that settles when the current guard pipeline finishes.
 	 *
@@ -1022,19 +1624,187 @@ export default class Router extends MobileRouter implements GuardRouter {
 	}
 
 	/**
-	 * Drain all settlement resolvers with the given result and fire
-	 * the `navigationSettled` event.
+	 * Whether guards are currently being evaluated for a navigation.
+	 *
+	 * @returns `true` while a navigation is in the evaluating phase.
+	 * @since 1.7.0
+	 */
+	isNavigating(): boolean {
+		return this._phase.kind === "evaluating";
+	}
+
+	/**
+	 * Return the navigation whose guards are being evaluated.
+	 *
+	 * During a redirect chain this is the originally attempted navigation.
+	 *
+	 * @returns The pending navigation, or `null` when no guards are running.
+	 * @since 1.7.0
+	 */
+	getPendingNavigation(): PendingNavigation | null {
+		if (this._phase.kind !== "evaluating") return null;
+		const { route, hash, trigger } = this._phase.attempt;
+		return { route, hash, trigger };
+	}
+
+	/**
+	 * Attach an event handler for the `navigationStarted` event.
+	 *
+	 * Fires synchronously when guard evaluation begins for a navigation,
+	 * with a {@link PendingNavigation} payload. Navigations that skip the
+	 * guard pipeline (`skipGuards`, `navToPreflight: "bypass"`) do not fire it.
+	 *
+	 * @param oData - Application-specific payload passed to the handler as second argument.
+	 * @param fnFunction - The function to be called when the event occurs.
+	 * @param oListener - Context object to call the event handler with. Defaults to this Router.
+	 * @since 1.7.0
+	 */
+	attachNavigationStarted(
+		oData: object,
+		fnFunction: (evt: Router$NavigationStartedEvent) => void,
+		oListener?: object,
+	): this;
+	attachNavigationStarted(fnFunction: (evt: Router$NavigationStartedEvent) => void, oListener?: object): this;
+	attachNavigationStarted(oData: unknown, fnFunction?: unknown, oListener?: unknown): this {
+		this.attachEvent(
+			"navigationStarted",
+			oData as object,
+			fnFunction as (...args: unknown[]) => void,
+			oListener as object,
+		);
+		return this;
+	}
+
+	/**
+	 * Detach a previously attached `navigationStarted` event handler.
+	 *
+	 * @param fnFunction - The handler function to detach.
+	 * @param oListener - Context object on which the given function had to be called.
+	 * @since 1.7.0
+	 */
+	detachNavigationStarted(fnFunction: (evt: Router$NavigationStartedEvent) => void, oListener?: object): this {
+		this.detachEvent("navigationStarted", fnFunction as (...args: unknown[]) => void, oListener);
+		return this;
+	}
+
+	/**
+	 * Enter the evaluating phase for a new attempt and fire `navigationStarted`.
+	 *
+	 * Handlers run synchronously and may start or cancel navigations, so
+	 * callers must check {@link _isCurrentAttempt} before evaluating guards.
+	 */
+	private _beginEvaluation(hash: string, route: string, trigger: NavigationTrigger): NavigationAttempt {
+		const attempt: NavigationAttempt = {
+			hash,
+			route,
+			controller: new AbortController(),
+			generation: this._parseGeneration,
+			trigger,
+		};
+		this._phase = { kind: "evaluating", attempt };
+		this._attemptControllers.set(attempt.controller.signal, attempt.controller);
+		this._busyIndicator?.start();
+		this.fireEvent("navigationStarted", { route, hash, trigger });
+		return attempt;
+	}
+
+	private _isCurrentAttempt(attempt: NavigationAttempt): boolean {
+		return this._phase.kind === "evaluating" && this._phase.attempt === attempt;
+	}
+
+	/**
+	 * Drain all settlement resolvers with the given result, notify internal
+	 * settlement listeners, and fire the `navigationSettled` event.
+	 *
+	 * @param generation - Generation of the navigation that settled. Defaults to the
+	 *   current generation, which is correct for every settlement except cancellation.
 	 */
-	private _flushSettlement(result: NavigationResult): void {
+	private _flushSettlement(result: NavigationResult, generation = this._parseGeneration): void {
 		this._lastSettlement = result;
+		this._busyIndicator?.stop();
 		const resolvers = this._settlementResolvers;
 		this._settlementResolvers = [];
 		for (const resolve of resolvers) {
 			resolve(result);
 		}
+		for (const listener of this._settlementListeners.slice()) {
+			listener(result, generation);
+		}
 		this.fireEvent("navigationSettled", result);
 	}
 
+	/**
+	 * Navigate and resolve with the settlement of this specific navigation.
+	 *
+	 * Delegates to `navTo()`, so preflight, dedup, and `navToPreflight` behave
+	 * exactly as for a plain `navTo()` call. The returned Promise is tied to
+	 * the attempt's generation and resolves with `Cancelled` when a newer
+	 * navigation supersedes it.
+	 *
+	 * @param routeName - Route name as defined in `manifest.json`.
+	 * @param parameters - Route parameters.
+	 * @param options - History, nested component, and guard options for this navigation.
+	 * @returns Promise that resolves with the {@link NavigationResult} of this navigation.
+	 * @since 1.7.0
+	 */
+	navigate(routeName: string, parameters?: object, options?: GuardNavigateOptions): Promise<NavigationResult> {
+		const { componentTargetInfo, replace, ...guardOptions } = options ?? {};
+		return this._trackNavigation(() => {
+			this.navTo(routeName, parameters, componentTargetInfo, replace, guardOptions);
+		});
+	}
+
+	/**
+	 * Run `start` and resolve with the settlement of the navigation it starts.
+	 *
+	 * Every navigation started by `start` gets a generation above the one
+	 * captured beforehand, so settlements of older navigations (including the
+	 * `Cancelled` flush of a superseded one) are ignored. A settlement that
+	 * happens synchronously inside `start` resolves directly; otherwise the
+	 * Promise is pinned to the generation of the attempt left evaluating.
+	 * When `start` leaves nothing pending, the current state is reported.
+	 */
+	private _trackNavigation(start: () => void): Promise<NavigationResult> {
+		const startGeneration = this._parseGeneration;
+		return new Promise((resolve) => {
+			let attemptGeneration: number | undefined;
+			const listener: SettlementListener = (result, generation) => {
+				const isOwn =
+					attemptGeneration === undefined ? generation > startGeneration : generation === attemptGeneration;
+				if (!isOwn) return;
+				this._removeSettlementListener(listener);
+				resolve(result);
+			};
+			this._settlementListeners.push(listener);
+
+			try {
+				start();
+			} catch (error) {
+				this._removeSettlementListener(listener);
+				throw error;
+			}
+
+			if (!this._settlementListeners.includes(listener)) return;
+			if (this._phase.kind === "evaluating") {
+				attemptGeneration = this._phase.attempt.generation;
+				return;
+			}
+			this._removeSettlementListener(listener);
+			resolve({
+				status: NavigationOutcome.Committed,
+				route: this._currentRoute,
+				hash: this._currentHash ?? "",
+			});
+		});
+	}
+
+	private _removeSettlementListener(listener: SettlementListener): void {
+		const index = this._settlementListeners.indexOf(listener);
+		if (index !== -1) {
+			this._settlementListeners.splice(index, 1);
+		}
+	}
+
 	/**
 	 * Navigate to a route with preflight guard evaluation.
 	 *
@@ -1087,6 +1857,8 @@ export default class Router extends MobileRouter implements GuardRouter {
 			replaceOrOptions,
 			options,
 		);
+		const skippedGuards = this._retrySkippedGuards ?? undefined;
+		this._retrySkippedGuards = null;
 
 		// Redirect path: _redirect() calls this.navTo() while in committing/redirect phase.
 		// Bypass preflight -- parse() will commit directly via the committing phase.
@@ -1147,17 +1919,29 @@ export default class Router extends MobileRouter implements GuardRouter {
 		}
 
 		// Default "guard" mode: evaluate guards before hash change.
-		const controller = new AbortController();
-		const generation = this._parseGeneration;
+		const attempt = this._beginEvaluation(targetHash, toRoute, "navTo");
+		if (!this._isCurrentAttempt(attempt)) return this;
+		const { controller, generation } = attempt;
 
-		this._phase = {
-			kind: "evaluating",
-			attempt: { hash: targetHash, route: toRoute, controller, generation },
-		};
-
-		const context = this._createGuardContext(toRoute, targetHash, routeInfo, controller.signal);
+		const direction = replace ? HistoryDirection.Unknown : HistoryDirection.NewEntry;
+		const context = this._createGuardContext(
+			toRoute,
+			targetHash,
+			routeInfo,
+			controller.signal,
+			"navTo",
+			direction,
+			{
+				route: routeName,
+				parameters: parameters ?? {},
+				componentTargetInfo,
+			},
+		);
 
-		const decision = this._pipeline.evaluate(context);
+		const decision = this._pipeline.evaluate(context, {
+			passedGuards: this._passedGuards.get(context.transition),
+			skipGuards: skippedGuards,
+		});
 
 		if (isPromiseLike(decision)) {
 			decision
@@ -1178,7 +1962,7 @@ export default class Router extends MobileRouter implements GuardRouter {
 						replace,
 						targetHash,
 						toRoute,
-						context.bag,
+						context,
 					);
 				})
 				.catch((error: unknown) => {
@@ -1191,7 +1975,7 @@ export default class Router extends MobileRouter implements GuardRouter {
 						String(error),
 						LOG_COMPONENT,
 					);
-					this._errorNavigation(error, targetHash, false);
+					this._errorNavigation(error, targetHash, false, context);
 				});
 			return this;
 		}
@@ -1205,7 +1989,7 @@ export default class Router extends MobileRouter implements GuardRouter {
 			replace,
 			targetHash,
 			toRoute,
-			context.bag,
+			context,
 		);
 		return this;
 	}
@@ -1223,6 +2007,7 @@ export default class Router extends MobileRouter implements GuardRouter {
 	 * @param bReplace - Whether to replace the current history entry.
 	 * @param targetHash - Resolved hash for the target route.
 	 * @param toRoute - Resolved route name (may differ from routeName for nested routes).
+	 * @param context - Guard context the decision was made for.
 	 */
 	private _applyPreflightDecision(
 		decision: GuardDecision,
@@ -1232,11 +2017,18 @@ export default class Router extends MobileRouter implements GuardRouter {
 		bReplace: boolean | undefined,
 		targetHash: string,
 		toRoute: string,
-		bag: Map<string, unknown>,
+		context: GuardContext,
 	): void {
 		switch (decision.action) {
 			case "allow":
-				this._phase = { kind: "committing", hash: targetHash, route: toRoute, origin: "preflight" };
+				this._phase = {
+					kind: "committing",
+					hash: targetHash,
+					route: toRoute,
+					origin: "preflight",
+					context,
+					resolved: decision.resolved,
+				};
 				super.navTo(routeName, parameters, componentTargetInfo, bReplace);
 				// Safety: if super.navTo didn't trigger parse (e.g. hash didn't change),
 				// clear the marker to avoid stale state.
@@ -1246,13 +2038,13 @@ export default class Router extends MobileRouter implements GuardRouter {
 				}
 				break;
 			case "block":
-				this._blockNavigation(targetHash, false);
+				this._blockNavigation(targetHash, false, context, blockDetails(decision));
 				break;
 			case "redirect":
-				this._startRedirectChain(decision.target, targetHash, false, bag);
+				this._startRedirectChain(decision.target, context, false, decision.decidedBy);
 				break;
 			case "error":
-				this._errorNavigation(decision.error, targetHash, false);
+				this._errorNavigation(decision.error, targetHash, false, context, { decidedBy: decision.decidedBy });
 				break;
 		}
 	}
@@ -1297,17 +2089,24 @@ export default class Router extends MobileRouter implements GuardRouter {
 
 		this._cancelPendingNavigation();
 
-		const controller = new AbortController();
-		const generation = this._parseGeneration;
+		const attempt = this._beginEvaluation(newHash, toRoute, this._currentHash === null ? "initial" : "hashchange");
+		if (!this._isCurrentAttempt(attempt)) return;
+		const { controller, generation, trigger } = attempt;
 
-		this._phase = {
-			kind: "evaluating",
-			attempt: { hash: newHash, route: toRoute, controller, generation },
-		};
-
-		const context = this._createGuardContext(toRoute, newHash, routeInfo, controller.signal);
+		const context = this._createGuardContext(
+			toRoute,
+			newHash,
+			routeInfo,
+			controller.signal,
+			trigger,
+			parsedDirection(),
+			{
+				route: toRoute,
+				parameters: routeInfo?.arguments ?? {},
+			},
+		);
 
-		const decision = this._pipeline.evaluate(context);
+		const decision = this._pipeline.evaluate(context, { passedGuards: this._passedGuards.get(context.transition) });
 
 		if (isPromiseLike(decision)) {
 			decision
@@ -1320,7 +2119,7 @@ export default class Router extends MobileRouter implements GuardRouter {
 						);
 						return;
 					}
-					this._applyDecision(d, newHash, toRoute, context.bag);
+					this._applyDecision(d, context);
 				})
 				.catch((error: unknown) => {
 					// Only check generation here, not phase. If _redirect threw and its
@@ -1332,12 +2131,12 @@ export default class Router extends MobileRouter implements GuardRouter {
 						String(error),
 						LOG_COMPONENT,
 					);
-					this._errorNavigation(error, newHash);
+					this._errorNavigation(error, newHash, true, context);
 				});
 			return;
 		}
 
-		this._applyDecision(decision, newHash, toRoute, context.bag);
+		this._applyDecision(decision, context);
 	}
 
 	/**
@@ -1370,12 +2169,16 @@ export default class Router extends MobileRouter implements GuardRouter {
 	private _cancelPendingNavigation(): void {
 		++this._parseGeneration;
 		if (this._phase.kind === "evaluating") {
-			this._phase.attempt.controller.abort();
-			this._flushSettlement({
-				status: NavigationOutcome.Cancelled,
-				route: this._currentRoute,
-				hash: this._currentHash ?? "",
-			});
+			const { attempt } = this._phase;
+			attempt.controller.abort();
+			this._flushSettlement(
+				{
+					status: NavigationOutcome.Cancelled,
+					route: this._currentRoute,
+					hash: this._currentHash ?? "",
+				},
+				attempt.generation,
+			);
 		}
 		this._phase = IDLE;
 	}
@@ -1383,20 +2186,28 @@ export default class Router extends MobileRouter implements GuardRouter {
 	/**
 	 * Apply a guard decision for the parse() fallback path.
 	 */
-	private _applyDecision(decision: GuardDecision, hash: string, route: string, bag: Map<string, unknown>): void {
+	private _applyDecision(decision: GuardDecision, context: GuardContext): void {
+		const { toHash: hash, toRoute: route } = context;
 		switch (decision.action) {
 			case "allow":
-				this._phase = { kind: "committing", hash, route, origin: "parse" };
+				this._phase = {
+					kind: "committing",
+					hash,
+					route,
+					origin: "parse",
+					context,
+					resolved: decision.resolved,
+				};
 				this._commitNavigation(hash, route);
 				break;
 			case "block":
-				this._blockNavigation(hash);
+				this._blockNavigation(hash, true, context, blockDetails(decision));
 				break;
 			case "redirect":
-				this._startRedirectChain(decision.target, hash, true, bag);
+				this._startRedirectChain(decision.target, context, true, decision.decidedBy);
 				break;
 			case "error":
-				this._errorNavigation(decision.error, hash);
+				this._errorNavigation(decision.error, hash, true, context, { decidedBy: decision.decidedBy });
 				break;
 		}
 	}
@@ -1410,12 +2221,18 @@ export default class Router extends MobileRouter implements GuardRouter {
 	 */
 	private _commitNavigation(hash: string, route?: string): void {
 		const wasRedirect = this._phase.kind === "committing" && this._phase.origin === "redirect";
+		const chain = this._phase.kind === "committing" ? this._phase.chain : undefined;
+		const resolved = this._phase.kind === "committing" ? this._phase.resolved : undefined;
+		const toRoute = route ?? this.getRouteInfoByHash(hash)?.name ?? "";
+		const context =
+			(this._phase.kind === "committing" ? this._phase.context : undefined) ??
+			(this._afterHooks.length > 0 ? this._createCommitContext(hash, toRoute) : undefined);
 		this._currentHash = hash;
-		this._currentRoute = route ?? this.getRouteInfoByHash(hash)?.name ?? "";
+		this._currentRoute = toRoute;
 		// Transition to idle before super.parse so that routeMatched/patternMatched
 		// handlers that call navTo() go through the full guard pipeline.
 		this._phase = IDLE;
-		this._flushSettlement({
+		const result: NavigationResult = {
 			status: wasRedirect
 				? NavigationOutcome.Redirected
 				: this._currentRoute === ""
@@ -1423,8 +2240,71 @@ export default class Router extends MobileRouter implements GuardRouter {
 					: NavigationOutcome.Committed,
 			route: this._currentRoute,
 			hash,
-		});
+		};
+		if (wasRedirect && context) {
+			result.transition = context.transition;
+		}
+		if (wasRedirect && chain) {
+			if (chain.loopError) {
+				result.error = chain.loopError;
+			}
+			applySettlementDetails(result, chainDetails(chain, { decidedBy: chain.decidedBy }));
+		}
+		if (resolved) {
+			this._resolvedData.set(toRoute, resolved);
+		} else {
+			this._resolvedData.delete(toRoute);
+		}
+		this._flushSettlement(result);
 		super.parse(hash);
+		if (context) {
+			this._runAfterHooks(context, result);
+		}
+	}
+
+	/**
+	 * Build a guard context for a commit that skipped the guard pipeline
+	 * (`skipGuards`, `navToPreflight: "bypass"`), so after hooks still
+	 * receive one. Must run before `_currentRoute` is updated.
+	 */
+	private _createCommitContext(hash: string, toRoute: string): GuardContext {
+		const routeInfo = this.getRouteInfoByHash(hash);
+		return this._createGuardContext(
+			toRoute,
+			hash,
+			routeInfo,
+			new AbortController().signal,
+			"navTo",
+			parsedDirection(),
+			{
+				route: toRoute,
+				parameters: routeInfo?.arguments ?? {},
+			},
+		);
+	}
+
+	/**
+	 * Run after hooks for a settled navigation. Hooks run on a snapshot copy;
+	 * a throwing or rejecting hook is logged and does not affect the others.
+	 */
+	private _runAfterHooks(context: GuardContext, result: NavigationResult): void {
+		const logFailure = (error: unknown): void => {
+			Log.error(
+				`After hook failed for "${result.hash}" (${result.status})`,
+				error instanceof Error ? error : String(error),
+				LOG_COMPONENT,
+			);
+		};
+		for (const hook of this._afterHooks.slice()) {
+			try {
+				const returned: unknown = hook(context, result);
+				if (isPromiseLike(returned)) {
+					returned.then(undefined, logFailure);
+				}
+			} catch (error) {
+				logFailure(error);
+			}
+		}
 	}
 
 	/**
@@ -1455,21 +2335,19 @@ export default class Router extends MobileRouter implements GuardRouter {
 
 		// Loop detection: visited set (exact hash match) + depth cap.
 		if (targetHash !== null && chain.visited.has(targetHash)) {
-			Log.error(
-				`Guard redirect loop detected: ${[...chain.visited, targetHash].join(" -> ")}`,
-				undefined,
-				LOG_COMPONENT,
-			);
-			this._blockNavigation(chain.attemptedHash, chain.restoreHash);
+			const error = new RedirectLoopError([...chain.visited, targetHash], "loop");
+			Log.error(error.message, undefined, LOG_COMPONENT);
+			this._settleRedirectLoop(error, chain);
 			return;
 		}
-		if (chain.visited.size > MAX_REDIRECT_DEPTH) {
+		if (chain.visited.size > this._options.maxRedirectDepth) {
+			const error = new RedirectLoopError([...chain.visited], "depth");
 			Log.error(
-				`Guard redirect chain exceeded maximum depth (${MAX_REDIRECT_DEPTH}): ${[...chain.visited].join(" -> ")}`,
+				`Guard redirect chain exceeded maximum depth (${this._options.maxRedirectDepth}): ${[...chain.visited].join(" -> ")}`,
 				undefined,
 				LOG_COMPONENT,
 			);
-			this._blockNavigation(chain.attemptedHash, chain.restoreHash);
+			this._settleRedirectLoop(error, chain);
 			return;
 		}
 		if (targetHash !== null) {
@@ -1480,7 +2358,7 @@ export default class Router extends MobileRouter implements GuardRouter {
 		// attempt navTo (parent may fire bypassed) and fall back to blocked.
 		if (targetHash === null) {
 			const settlementBefore = this._lastSettlement;
-			this._phase = { kind: "committing", hash: "", route: targetName, origin: "redirect" };
+			this._phase = { kind: "committing", hash: "", route: targetName, origin: "redirect", chain };
 			try {
 				if (typeof target === "string") {
 					this.navTo(target, {}, {}, true);
@@ -1498,7 +2376,12 @@ export default class Router extends MobileRouter implements GuardRouter {
 					undefined,
 					LOG_COMPONENT,
 				);
-				this._blockNavigation(chain.attemptedHash, chain.restoreHash);
+				this._blockNavigation(
+					chain.attemptedHash,
+					chain.restoreHash,
+					chain.context,
+					chainDetails(chain, { decidedBy: chain.decidedBy }),
+				);
 			}
 			return;
 		}
@@ -1506,19 +2389,7 @@ export default class Router extends MobileRouter implements GuardRouter {
 		// Narrowed after the null-branch early return; const carries it into the async closure.
 		const resolvedHash: string = targetHash;
 
-		// Build guard context for the redirect target.
-		const routeInfo = this.getRouteInfoByHash(resolvedHash);
-		const context: GuardContext = {
-			toRoute: routeInfo?.name ?? "",
-			toHash: resolvedHash,
-			toArguments: routeInfo?.arguments ?? {},
-			fromRoute: chain.fromRoute,
-			fromHash: chain.fromHash,
-			signal: chain.signal,
-			bag: chain.bag,
-			toMeta: this.getRouteMeta(routeInfo?.name ?? ""),
-			fromMeta: this.getRouteMeta(chain.fromRoute),
-		};
+		const context = this._createRedirectContext(resolvedHash, chain);
 
 		const decision = this._pipeline.evaluate(context, { skipLeaveGuards: true });
 
@@ -1526,7 +2397,7 @@ export default class Router extends MobileRouter implements GuardRouter {
 			decision
 				.then((d: GuardDecision) => {
 					if (chain.generation !== this._parseGeneration) return;
-					this._applyRedirectDecision(d, target, resolvedHash, chain);
+					this._applyRedirectDecision(d, target, context, chain);
 				})
 				.catch((error: unknown) => {
 					if (chain.generation !== this._parseGeneration) return;
@@ -1535,12 +2406,78 @@ export default class Router extends MobileRouter implements GuardRouter {
 						String(error),
 						LOG_COMPONENT,
 					);
-					this._errorNavigation(error, chain.attemptedHash, chain.restoreHash);
+					this._errorNavigation(
+						error,
+						chain.attemptedHash,
+						chain.restoreHash,
+						chain.context,
+						chainDetails(chain, {}),
+					);
 				});
 			return;
 		}
 
-		this._applyRedirectDecision(decision, target, resolvedHash, chain);
+		this._applyRedirectDecision(decision, target, context, chain);
+	}
+
+	/** Build the guard context for a redirect chain hop to `hash`. */
+	private _createRedirectContext(hash: string, chain: RedirectChainContext): GuardContext {
+		const routeInfo = this.getRouteInfoByHash(hash);
+		return {
+			toRoute: routeInfo?.name ?? "",
+			toHash: hash,
+			toArguments: routeInfo?.arguments ?? {},
+			fromRoute: chain.fromRoute,
+			fromHash: chain.fromHash,
+			signal: chain.signal,
+			bag: chain.bag,
+			toMeta: this.getRouteMeta(routeInfo?.name ?? ""),
+			fromMeta: this.getRouteMeta(chain.fromRoute),
+			transition: chain.context.transition,
+			trigger: "redirect",
+			direction: chain.context.direction,
+		};
+	}
+
+	/**
+	 * Settle a redirect chain that revisited a hash or exceeded `maxRedirectDepth`
+	 * according to `redirectLoopPolicy`.
+	 *
+	 * `"fallback"` commits `redirectLoopFallback` without evaluating its guards,
+	 * so a guarded fallback cannot loop again. It blocks when the fallback route
+	 * is unknown or needs parameters.
+	 */
+	private _settleRedirectLoop(error: RedirectLoopError, chain: RedirectChainContext): void {
+		const details = chainDetails(chain, { decidedBy: chain.decidedBy });
+		const { redirectLoopPolicy, redirectLoopFallback } = this._options;
+		if (redirectLoopPolicy === "error") {
+			this._errorNavigation(error, chain.attemptedHash, chain.restoreHash, chain.context, details);
+			return;
+		}
+		if (redirectLoopPolicy === "fallback") {
+			let fallbackHash: string | null = null;
+			try {
+				fallbackHash = this.getRoute(redirectLoopFallback)?.getURL({}) ?? null;
+			} catch {
+				fallbackHash = null;
+			}
+			if (fallbackHash !== null) {
+				chain.loopError = error;
+				this._applyRedirectDecision(
+					{ action: "allow" },
+					redirectLoopFallback,
+					this._createRedirectContext(fallbackHash, chain),
+					chain,
+				);
+				return;
+			}
+			Log.warning(
+				`guardRouter.redirectLoopFallback "${redirectLoopFallback}" cannot be navigated to, blocking`,
+				undefined,
+				LOG_COMPONENT,
+			);
+		}
+		this._blockNavigation(chain.attemptedHash, chain.restoreHash, chain.context, { ...details, error });
 	}
 
 	/**
@@ -1550,20 +2487,29 @@ export default class Router extends MobileRouter implements GuardRouter {
 	 *
 	 * @param decision - Normalized guard pipeline result for this hop.
 	 * @param target - The redirect target (route name or {@link GuardRedirect}).
-	 * @param targetHash - Resolved hash for the redirect target (guaranteed non-null).
+	 * @param context - Guard context of this hop; `context.toHash` is the resolved redirect target hash.
 	 * @param chain - Shared redirect chain context with visited set, signals, etc.
 	 */
 	private _applyRedirectDecision(
 		decision: GuardDecision,
 		target: string | GuardRedirect,
-		targetHash: string,
+		context: GuardContext,
 		chain: RedirectChainContext,
 	): void {
 		switch (decision.action) {
 			case "allow": {
 				const targetName = typeof target === "string" ? target : target.route;
+				const targetHash = context.toHash;
 				const settlementBefore = this._lastSettlement;
-				this._phase = { kind: "committing", hash: targetHash, route: targetName, origin: "redirect" };
+				this._phase = {
+					kind: "committing",
+					hash: targetHash,
+					route: targetName,
+					origin: "redirect",
+					context,
+					chain,
+					resolved: decision.resolved,
+				};
 				try {
 					if (typeof target === "string") {
 						this.navTo(target, {}, {}, true);
@@ -1585,6 +2531,8 @@ export default class Router extends MobileRouter implements GuardRouter {
 							hash: this._currentHash ?? "",
 							route: this._currentRoute,
 							origin: "redirect",
+							context,
+							chain,
 						};
 						this._commitNavigation(this._currentHash ?? "", this._currentRoute);
 						return;
@@ -1594,18 +2542,35 @@ export default class Router extends MobileRouter implements GuardRouter {
 						undefined,
 						LOG_COMPONENT,
 					);
-					this._blockNavigation(chain.attemptedHash, chain.restoreHash);
+					this._blockNavigation(
+						chain.attemptedHash,
+						chain.restoreHash,
+						chain.context,
+						chainDetails(chain, { decidedBy: chain.decidedBy }),
+					);
 				}
 				break;
 			}
 			case "block":
-				this._blockNavigation(chain.attemptedHash, chain.restoreHash);
+				this._blockNavigation(
+					chain.attemptedHash,
+					chain.restoreHash,
+					chain.context,
+					chainDetails(chain, blockDetails(decision)),
+				);
 				break;
 			case "redirect":
+				chain.decidedBy = decision.decidedBy;
 				this._redirect(decision.target, chain);
 				break;
 			case "error":
-				this._errorNavigation(decision.error, chain.attemptedHash, chain.restoreHash);
+				this._errorNavigation(
+					decision.error,
+					chain.attemptedHash,
+					chain.restoreHash,
+					chain.context,
+					chainDetails(chain, { decidedBy: decision.decidedBy }),
+				);
 				break;
 		}
 	}
@@ -1613,13 +2578,21 @@ export default class Router extends MobileRouter implements GuardRouter {
 	/**
 	 * Build a guard context for a new navigation.
 	 * Called by {@link navTo} (preflight path) and {@link parse} (browser-initiated path).
+	 *
+	 * @param trigger - What started the navigation.
+	 * @param direction - History direction the navigation takes.
+	 * @param replay - Arguments the context's {@link NavigationTransition} uses to replay the navigation.
 	 */
 	private _createGuardContext(
 		toRoute: string,
 		toHash: string,
 		routeInfo: { arguments: Record<string, string | Record<string, string>> } | undefined,
 		signal: AbortSignal,
+		trigger: NavigationTrigger,
+		direction: routing.HistoryDirection,
+		replay: TransitionTarget,
 	): GuardContext {
+		const bag: GuardBag = new Map();
 		return {
 			toRoute,
 			toHash,
@@ -1627,25 +2600,72 @@ export default class Router extends MobileRouter implements GuardRouter {
 			fromRoute: this._currentRoute,
 			fromHash: this._currentHash ?? "",
 			signal,
-			bag: new Map(),
+			bag,
 			toMeta: this.getRouteMeta(toRoute),
 			fromMeta: this.getRouteMeta(this._currentRoute),
+			transition: this._createTransition(replay, toHash, bag),
+			trigger,
+			direction,
 		};
 	}
 
+	/**
+	 * Create the replayable {@link NavigationTransition} for a navigation.
+	 *
+	 * `retry()` goes through the public `navTo()`, so the replay gets its own
+	 * preflight, generation, and settlement. Unmatched hashes have no route to
+	 * pass to `navTo()` and are replayed via `setHash()` instead.
+	 *
+	 * The enter guards that allow the navigation are recorded in {@link _passedGuards}
+	 * by the evaluation of the original navigation (redirect chain hops do not record).
+	 * `skipPassedGuards` hands them to the replay's preflight through {@link _retrySkippedGuards}.
+	 */
+	private _createTransition(replay: TransitionTarget, hash: string, bag: GuardBag): NavigationTransition {
+		const { route, parameters, componentTargetInfo } = replay;
+		const passed = new Set<GuardFn>();
+		const transition: NavigationTransition = Object.freeze({
+			route,
+			parameters,
+			componentTargetInfo,
+			hash,
+			bag,
+			retry: (options?: TransitionRetryOptions): Promise<NavigationResult> => {
+				if (this._destroyed) {
+					Log.warning("NavigationTransition.retry: router is destroyed, ignoring", hash, LOG_COMPONENT);
+					return Promise.resolve({ status: NavigationOutcome.Cancelled, route: "", hash: "" });
+				}
+				if (route === "") {
+					return this._trackNavigation(() => this.getHashChanger()?.setHash(hash));
+				}
+				const { skipPassedGuards, ...navToOptions } = options ?? {};
+				this._retrySkippedGuards = skipPassedGuards === true ? passed : null;
+				try {
+					return this.navigate(route, parameters, { ...navToOptions, componentTargetInfo });
+				} finally {
+					this._retrySkippedGuards = null;
+				}
+			},
+		});
+		this._passedGuards.set(transition, passed);
+		return transition;
+	}
+
 	/**
 	 * Start a new redirect chain from the current evaluating phase.
 	 * Called by {@link _applyPreflightDecision} and {@link _applyDecision}
 	 * when a guard returns a redirect. Delegates to {@link _redirect} with
 	 * a fresh {@link RedirectChainContext}.
+	 *
+	 * @param decidedBy - Guard that issued the redirect.
 	 */
 	private _startRedirectChain(
 		target: string | GuardRedirect,
-		hash: string,
+		context: GuardContext,
 		restoreHash: boolean,
-		bag: Map<string, unknown>,
+		decidedBy?: GuardDecisionSource,
 	): void {
 		const { attempt } = this._phase as PhaseEvaluating;
+		const hash = context.toHash;
 		const visited = new Set<string>();
 		visited.add(hash);
 		this._redirect(target, {
@@ -1656,7 +2676,9 @@ export default class Router extends MobileRouter implements GuardRouter {
 			fromHash: this._currentHash ?? "",
 			signal: attempt.controller.signal,
 			generation: attempt.generation,
-			bag,
+			bag: context.bag,
+			context,
+			decidedBy,
 		});
 	}
 
@@ -1664,32 +2686,83 @@ export default class Router extends MobileRouter implements GuardRouter {
 	 * Clear pending state and flush a Blocked settlement.
 	 * When `restoreHash` is true (default), also restores the browser hash
 	 * to `_currentHash`. Preflight callers pass false because the hash was
-	 * never changed.
+	 * never changed. When `context` is given, its transition is attached to
+	 * the result and after hooks run once the hash is restored.
+	 *
+	 * @param details - Deciding guard, block reason, redirect chain, and the timeout error of a timed-out guard.
 	 */
-	private _blockNavigation(attemptedHash?: string, restoreHash = true): void {
+	private _blockNavigation(
+		attemptedHash?: string,
+		restoreHash = true,
+		context?: GuardContext,
+		details: SettlementDetails = {},
+	): void {
 		this._phase = IDLE;
-		this._flushSettlement({
+		const result: NavigationResult = {
 			status: NavigationOutcome.Blocked,
 			route: this._currentRoute,
 			hash: this._currentHash ?? "",
-		});
+		};
+		if (details.error !== undefined) {
+			result.error = details.error;
+		}
+		if (context) {
+			result.transition = context.transition;
+		}
+		applySettlementDetails(result, details);
+		this._flushSettlement(result);
 		this._restoreHashIfNeeded(attemptedHash, restoreHash);
+		if (context) {
+			this._runAfterHooks(context, result);
+		}
 	}
 
 	/**
 	 * Clear pending state and flush an Error settlement.
 	 * Same structure as {@link _blockNavigation} but with `NavigationOutcome.Error`
 	 * and the error that caused the failure.
+	 *
+	 * A {@link GuardTimeoutError} aborts the navigation's signal with the error
+	 * as reason, and settles as `Blocked` under `guardTimeoutPolicy: "block"`.
+	 *
+	 * @param details - Deciding guard and redirect chain.
 	 */
-	private _errorNavigation(error: unknown, attemptedHash?: string, restoreHash = true): void {
+	private _errorNavigation(
+		error: unknown,
+		attemptedHash?: string,
+		restoreHash = true,
+		context?: GuardContext,
+		details: SettlementDetails = {},
+	): void {
+		if (error instanceof GuardTimeoutError) {
+			// Redirect chain hops and settlements after the phase moved on share
+			// the signal of the original attempt, so abort through the signal.
+			if (context) {
+				this._attemptControllers.get(context.signal)?.abort(error);
+			} else if (this._phase.kind === "evaluating") {
+				this._phase.attempt.controller.abort(error);
+			}
+			if (this._options.guardTimeoutPolicy === "block") {
+				this._blockNavigation(attemptedHash, restoreHash, context, { ...details, error });
+				return;
+			}
+		}
 		this._phase = IDLE;
-		this._flushSettlement({
+		const result: NavigationResult = {
 			status: NavigationOutcome.Error,
 			route: this._currentRoute,
 			hash: this._currentHash ?? "",
 			error,
-		});
+		};
+		if (context) {
+			result.transition = context.transition;
+		}
+		applySettlementDetails(result, details);
+		this._flushSettlement(result);
 		this._restoreHashIfNeeded(attemptedHash, restoreHash);
+		if (context) {
+			this._runAfterHooks(context, result);
+		}
 	}
 
 	/** Conditionally restore the browser hash after a blocked or errored navigation. */
@@ -1863,6 +2936,7 @@ export default class Router extends MobileRouter implements GuardRouter {
 		});
 		return Promise.all(promises).then((results) => {
 			for (const { descriptor, moduleExport } of results) {
+				const seq = this._nextManifestSeq++;
 				if (moduleExport === null) continue;
 				const exports = resolveModuleExports(
 					moduleExport,
@@ -1870,9 +2944,14 @@ export default class Router extends MobileRouter implements GuardRouter {
 					descriptor.name,
 					descriptor.exportKey,
 				);
-				for (const { fn } of exports) {
+				for (const [i, exp] of exports.entries()) {
 					try {
-						this._registerGuardFromDescriptor(descriptor, fn);
+						this._registerGuardFromDescriptor(
+							descriptor,
+							exp.fn,
+							guardNameFor(descriptor, exp),
+							seq + i / exports.length,
+						);
 					} catch (err: unknown) {
 						Log.error(
 							`guardRouter.guards: failed to register "${descriptor.modulePath}"`,
@@ -1885,17 +2964,123 @@ export default class Router extends MobileRouter implements GuardRouter {
 		});
 	}
 
+	/**
+	 * Load the error handler module named under `guardRouter.errorHandler`
+	 * (`guardLoading: "block"`) and set it on the pipeline, unless
+	 * `setErrorHandler()` replaced it in the meantime. A failed load is
+	 * logged and leaves guard errors unhandled.
+	 */
+	private _loadErrorHandler(): Promise<void> {
+		const module = this._pendingErrorHandler;
+		if (module === null) return Promise.resolve();
+		return new Promise<void>((resolve) => {
+			sap.ui.require(
+				[module.modulePath],
+				(moduleExport: unknown) => {
+					if (this._pendingErrorHandler === module) {
+						this._pendingErrorHandler = null;
+						this._pipeline.setErrorHandler(
+							resolveFunctionExport<GuardErrorHandler>(moduleExport, module, "errorHandler"),
+						);
+					}
+					resolve();
+				},
+				(err: Error) => {
+					Log.warning(
+						`guardRouter.errorHandler: failed to load module "${module.modulePath}", ignoring`,
+						String(err),
+						LOG_COMPONENT,
+					);
+					resolve();
+				},
+			);
+		});
+	}
+
+	/**
+	 * Create a wrapper that resolves the error handler module on the first
+	 * guard error, from the module cache when the preload has finished, and
+	 * delegates to it. Guard errors stay unhandled when the module fails to load.
+	 */
+	private _createLazyErrorHandler(module: FunctionModule): GuardErrorHandler {
+		return (error, context) => {
+			const handler = loadFunctionExport<GuardErrorHandler>(module, "errorHandler");
+			if (!isPromiseLike<GuardErrorHandler | null>(handler)) return handler?.(error, context);
+			return handler.then((loaded) => loaded?.(error, context));
+		};
+	}
+
+	/**
+	 * Register the resolvers declared under `guardRouter.resolve`. Resolver
+	 * modules are preloaded and resolved on the first navigation to their
+	 * route, whatever the `guardLoading` mode.
+	 */
+	private _registerManifestResolvers(config: unknown, componentNamespace: string): void {
+		if (!isRecord(config)) {
+			Log.warning("guardRouter.resolve: expected object, skipping", JSON.stringify(config), LOG_COMPONENT);
+			return;
+		}
+		const modulePaths: string[] = [];
+		for (const [route, resolvers] of Object.entries(config)) {
+			if (!isRecord(resolvers)) {
+				Log.warning(
+					`guardRouter.resolve["${route}"]: expected an object of module paths, skipping`,
+					JSON.stringify(resolvers),
+					LOG_COMPONENT,
+				);
+				continue;
+			}
+			if (!this._handleUnknownRouteRegistration(route, "addResolver")) continue;
+			for (const [key, entry] of Object.entries(resolvers)) {
+				const option = `resolve["${route}"].${key}`;
+				if (!isNonEmptyString(entry)) {
+					Log.warning(
+						`guardRouter.${option}: expected a module path, skipping`,
+						JSON.stringify(entry),
+						LOG_COMPONENT,
+					);
+					continue;
+				}
+				const module = parseFunctionModule(entry, componentNamespace);
+				modulePaths.push(module.modulePath);
+				this._pipeline.addResolver(route, key, (context) => {
+					const resolver = loadFunctionExport<RouteResolverFn>(module, option);
+					if (!isPromiseLike<RouteResolverFn | null>(resolver)) return resolver?.(context);
+					return resolver.then((loaded) => loaded?.(context));
+				});
+			}
+		}
+		if (modulePaths.length > 0) {
+			sap.ui.require([...new Set(modulePaths)]);
+		}
+	}
+
 	/**
 	 * Route a parsed guard descriptor to the correct registration method.
+	 *
+	 * @param name - Guard name to register under. Defaults to the descriptor name.
+	 * @param seq - Registration sequence, placing the guard among manifest guards
+	 *   of equal priority (see {@link MANIFEST_SEQ_START}).
 	 */
-	private _registerGuardFromDescriptor(descriptor: GuardDescriptor, guardFn: GuardFn): void {
+	private _registerGuardFromDescriptor(
+		descriptor: GuardDescriptor,
+		guardFn: GuardFn,
+		name: string,
+		seq: number,
+	): void {
+		const options: GuardRegistrationOptions = { ...descriptor.options, name };
 		if (descriptor.route === "*") {
-			this.addGuard(guardFn);
+			if (descriptor.type === "leave") {
+				this._pipeline.addGlobalLeaveGuard(guardFn, options, seq);
+			} else {
+				this._pipeline.addGlobalGuard(guardFn, options, seq);
+			}
 		} else if (descriptor.type === "leave") {
 			if (!this._handleUnknownRouteRegistration(descriptor.route, "addLeaveGuard")) return;
-			this._pipeline.addLeaveGuard(descriptor.route, guardFn);
+			this._pipeline.addLeaveGuard(descriptor.route, guardFn, options, seq);
 		} else {
-			this.addRouteGuard(descriptor.route, guardFn);
+			if (!this._handleUnknownRouteRegistration(descriptor.route, "addRouteGuard")) return;
+			this._pipeline.addEnterGuard(descriptor.route, guardFn, options, seq);
 		}
 	}
 
@@ -1906,11 +3091,13 @@ export default class Router extends MobileRouter implements GuardRouter {
 	 * Bare-path descriptors try a sync cache probe first; if the module is
 	 * cached (preload likely finished), all guards are expanded immediately.
 	 * On cache miss, a single "expander" wrapper loads the module on first
-	 * navigation, registers remaining guards, and executes the first.
+	 * navigation, registers the remaining guards at the expander's position,
+	 * and runs all of them in order for that navigation.
 	 */
 	private _registerLazyGuards(descriptors: GuardDescriptor[]): void {
 		for (const descriptor of descriptors) {
 			const { modulePath, exportKey, name } = descriptor;
+			const seq = this._nextManifestSeq++;
 
 			if (exportKey !== undefined) {
 				// Cherry-picked: one lazy wrapper, resolves to exactly one guard
@@ -1943,7 +3130,7 @@ export default class Router extends MobileRouter implements GuardRouter {
 						);
 					});
 				};
-				this._registerGuardFromDescriptor(descriptor, lazyGuard);
+				this._registerGuardFromDescriptor(descriptor, lazyGuard, name, seq);
 				continue;
 			}
 
@@ -1951,19 +3138,16 @@ export default class Router extends MobileRouter implements GuardRouter {
 			const cached = sap.ui.require(modulePath) as unknown;
 			if (cached !== undefined) {
 				const exports = resolveModuleExports(cached, modulePath, name);
-				for (const exp of exports) {
-					this._registerGuardFromDescriptor(descriptor, exp.fn);
+				for (const [i, exp] of exports.entries()) {
+					this._registerGuardFromDescriptor(descriptor, exp.fn, exp.name, seq + i / exports.length);
 				}
 				continue;
 			}
 
 			// Cache miss: register an expander that loads, expands once, and runs guard[0].
-			// NOTE: Guards 1..N are appended to the guard array on first invocation,
-			// which means they execute AFTER any imperative guards registered between
-			// initialize() and first navigation. This differs from block mode where
-			// all guards occupy contiguous positions. In practice this is rare because
-			// the preload hint fires in the constructor and modules are typically cached
-			// by the time initialize() runs.
+			// Guards 1..N register on first invocation with sequence numbers between the
+			// expander's and the next descriptor's, so they take the same contiguous
+			// positions as in block mode; the first invocation runs them in order itself.
 			let expanded = false;
 			const lazyExpander = (context: GuardContext): PromiseLike<GuardResult> => {
 				return new Promise<GuardResult>((resolve, reject) => {
@@ -1978,8 +3162,16 @@ export default class Router extends MobileRouter implements GuardRouter {
 							if (!expanded) {
 								expanded = true;
 								for (let i = 1; i < exports.length; i++) {
-									this._registerGuardFromDescriptor(descriptor, exports[i].fn);
+									this._registerGuardFromDescriptor(
+										descriptor,
+										exports[i].fn,
+										exports[i].name,
+										seq + i / exports.length,
+									);
 								}
+								// The running evaluation holds a snapshot without guards 1..N, so run them here once
+								resolve(allOf(...exports.map((exp) => exp.fn))(context));
+								return;
 							}
 							resolve(exports[0].fn(context));
 						},
@@ -1994,7 +3186,7 @@ export default class Router extends MobileRouter implements GuardRouter {
 					);
 				});
 			};
-			this._registerGuardFromDescriptor(descriptor, lazyExpander);
+			this._registerGuardFromDescriptor(descriptor, lazyExpander, name, seq);
 		}
 	}
 
@@ -2009,11 +3201,19 @@ export default class Router extends MobileRouter implements GuardRouter {
 		this._pendingGuardDescriptors = [];
 		this._sourceDescriptors = [];
 		this._cancelPendingNavigation();
+		this._busyIndicator?.destroy();
+		this._busyIndicator = null;
+		this._permissionProvider = null;
+		this._pendingErrorHandler = null;
+		this._pipeline.setErrorHandler(null);
+		this._settlementListeners = [];
+		this._afterHooks = [];
 		this._suppressedHash = null;
 		this._lastSettlement = null;
 		this._manifestMeta.clear();
 		this._runtimeMeta.clear();
 		this._resolvedMetaCache.clear();
+		this._resolvedData.clear();
 		super.destroy();
 		return this;
 	}
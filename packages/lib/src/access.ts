@@ -0,0 +1,89 @@
+import Log from "sap/base/Log";
+import type { AccessOptions, GuardContext, GuardFn, GuardResult, PermissionProvider } from "./types";
+import { isPromiseLike } from "./GuardPipeline";
+
+const LOG_COMPONENT = "ui5.guard.router.Router";
+
+/** Metadata key read when {@link AccessOptions.metaKey} is omitted. */
+export const DEFAULT_ACCESS_META_KEY = "roles";
+
+/** Name of the access guard, usable in `before`/`after` constraints of other global guards. */
+export const ACCESS_GUARD_NAME = "access";
+
+/**
+ * Read a route's requirement from its metadata value.
+ *
+ * @returns `null` for a public route (no value or `false`), the required
+ * permissions otherwise (empty for `true`), or `undefined` for a value
+ * that is neither.
+ */
+function readRequirement(value: unknown): readonly string[] | null | undefined {
+	if (value === undefined || value === false) return null;
+	if (value === true) return [];
+	if (typeof value === "string" && value !== "") return [value];
+	if (Array.isArray(value) && value.every((item) => typeof item === "string" && item !== "")) {
+		return value as string[];
+	}
+	return undefined;
+}
+
+/**
+ * Create the global enter guard behind `guardRouter.access`.
+ *
+ * Routes whose resolved metadata (including metadata inherited under
+ * `inheritance: "pattern-tree"`) has no value under the meta key are
+ * public. For other routes the guard asks the provider whether the user
+ * is authenticated, then whether they hold the required permissions.
+ * It fails closed: without a provider, or for a malformed metadata value,
+ * the route is denied. Stays synchronous while the provider answers
+ * synchronously.
+ *
+ * @param options - Access settings from the manifest.
+ * @param getProvider - Returns the provider currently set on the router.
+ */
+export function createAccessGuard(options: AccessOptions, getProvider: () => PermissionProvider | null): GuardFn {
+	const metaKey = options.metaKey ?? DEFAULT_ACCESS_META_KEY;
+	const deny = (required: readonly string[]): GuardResult =>
+		options.deniedRoute ?? { block: true, reason: "forbidden", data: { required } };
+	const unauthenticated: GuardResult = options.unauthenticatedRoute ?? { block: true, reason: "unauthenticated" };
+
+	const checkPermission = (
+		provider: PermissionProvider,
+		required: readonly string[],
+		context: GuardContext,
+	): GuardResult | PromiseLike<GuardResult> => {
+		if (required.length === 0) return true;
+		const permitted = provider.hasPermission(required, context);
+		if (isPromiseLike<boolean>(permitted)) {
+			return Promise.resolve(permitted).then((ok) => (ok === true ? true : deny(required)));
+		}
+		return permitted === true ? true : deny(required);
+	};
+
+	return (context) => {
+		const value = context.toMeta[metaKey];
+		const required = readRequirement(value);
+		if (required === null) return true;
+		if (required === undefined) {
+			Log.warning(
+				`guardRouter.access: invalid "${metaKey}" metadata, denying`,
+				`${context.toRoute}: ${JSON.stringify(value)}`,
+				LOG_COMPONENT,
+			);
+			return deny([]);
+		}
+		const provider = getProvider();
+		if (provider === null) {
+			Log.warning("guardRouter.access: no PermissionProvider set, denying", context.toRoute, LOG_COMPONENT);
+			return deny(required);
+		}
+		const authenticated = provider.isAuthenticated(context);
+		if (isPromiseLike<boolean>(authenticated)) {
+			return Promise.resolve(authenticated).then((ok) => {
+				if (ok !== true) return unauthenticated;
+				return context.signal.aborted ? false : checkPermission(provider, required, context);
+			});
+		}
+		return authenticated === true ? checkPermission(provider, required, context) : unauthenticated;
+	};
+}
@@ -0,0 +1,20 @@
+import type { BagKey } from "./types";
+
+/**
+ * Create a typed key for the guard bag. Values set and read through the key
+ * are checked against `T`; at runtime the key is `name` itself.
+ *
+ * @example
+ * const userKey = createBagKey<User>("user");
+ * router.addGuard(async (context) => {
+ * 	context.bag.set(userKey, await loadUser(context.signal));
+ * 	return true;
+ * });
+ * router.addRouteGuard("profile", (context) => context.bag.get(userKey)?.active === true);
+ *
+ * @param name - Bag entry name. Keys with the same name address the same entry.
+ * @since 1.7.0
+ */
+export function createBagKey<T>(name: string): BagKey<T> {
+	return name as BagKey<T>;
+}
@@ -0,0 +1,156 @@
+import type { GuardContext, GuardFn, GuardRedirect, GuardResult, LeaveGuardFn } from "./types";
+import { isGuardRedirect, isPromiseLike } from "./GuardPipeline";
+
+/**
+ * Run guards in order, synchronously until one returns a Promise-like.
+ *
+ * `pick` maps each result to the combined result, or `undefined` to
+ * continue with the next guard. Remaining guards are skipped once the
+ * navigation's signal is aborted.
+ */
+function runInOrder(
+	guards: readonly GuardFn[],
+	context: GuardContext,
+	pick: (result: GuardResult) => GuardResult | undefined,
+	fallback: GuardResult,
+): GuardResult | Promise<GuardResult> {
+	for (let i = 0; i < guards.length; i++) {
+		const result = guards[i](context);
+		if (isPromiseLike<GuardResult>(result)) {
+			return continueInOrder(result, guards, i, context, pick, fallback);
+		}
+		const picked = pick(result);
+		if (picked !== undefined) return picked;
+	}
+	return fallback;
+}
+
+async function continueInOrder(
+	pending: PromiseLike<GuardResult>,
+	guards: readonly GuardFn[],
+	index: number,
+	context: GuardContext,
+	pick: (result: GuardResult) => GuardResult | undefined,
+	fallback: GuardResult,
+): Promise<GuardResult> {
+	let picked = pick(await pending);
+	for (let i = index + 1; picked === undefined && i < guards.length; i++) {
+		if (context.signal.aborted) return false;
+		picked = pick(await guards[i](context));
+	}
+	return picked ?? fallback;
+}
+
+/** Whether a guard result redirects: a non-empty route name or a {@link GuardRedirect}. */
+function isRedirect(result: GuardResult): result is string | GuardRedirect {
+	return (typeof result === "string" && result !== "") || isGuardRedirect(result);
+}
+
+/**
+ * Allow only when every guard allows.
+ *
+ * Guards run in order and the first result other than `true` (block,
+ * {@link GuardBlock}, or redirect) is returned; the remaining guards do not run.
+ * Stays synchronous until a guard returns a Promise-like. Composing leave
+ * guards yields a leave guard.
+ *
+ * @example
+ * router.addRouteGuard("admin", allOf(isLoggedIn, hasRole("admin")));
+ *
+ * @since 1.7.0
+ */
+export function allOf(...guards: LeaveGuardFn[]): LeaveGuardFn;
+export function allOf(...guards: GuardFn[]): GuardFn;
+export function allOf(...guards: GuardFn[]): GuardFn {
+	return (context) => runInOrder(guards, context, (result) => (result === true ? undefined : result), true);
+}
+
+/**
+ * Allow when at least one guard allows.
+ *
+ * Guards run in order until one returns `true`. When none allows, the
+ * result of the first guard is returned, so its block reason or redirect
+ * decides. With no guards, the composed guard blocks.
+ * Stays synchronous until a guard returns a Promise-like. Composing leave
+ * guards yields a leave guard.
+ *
+ * @example
+ * router.addRouteGuard("reports", anyOf(hasRole("manager"), hasRole("auditor")));
+ *
+ * @since 1.7.0
+ */
+export function anyOf(...guards: LeaveGuardFn[]): LeaveGuardFn;
+export function anyOf(...guards: GuardFn[]): GuardFn;
+export function anyOf(...guards: GuardFn[]): GuardFn {
+	return (context) => {
+		let first: GuardResult | undefined;
+		const pick = (result: GuardResult): boolean | undefined => {
+			if (result === true) return true;
+			if (first === undefined) first = result;
+			return undefined;
+		};
+		const settle = (picked: GuardResult): GuardResult => (picked === true || first === undefined ? picked : first);
+		const result = runInOrder(guards, context, pick, false);
+		return isPromiseLike<GuardResult>(result) ? result.then(settle) : settle(result);
+	};
+}
+
+/**
+ * Invert a guard: `true` becomes `false`, and any other result (block,
+ * {@link GuardBlock}, or redirect) becomes `true`. The inverted guard
+ * returns booleans only, so it also works as a leave guard.
+ *
+ * @example
+ * router.addRouteGuard("login", not(isLoggedIn));
+ *
+ * @since 1.7.0
+ */
+export function not(guard: GuardFn): LeaveGuardFn {
+	return (context) => {
+		const result = guard(context);
+		return isPromiseLike<GuardResult>(result) ? result.then((r) => r !== true) : result !== true;
+	};
+}
+
+/**
+ * Run `guard` only when `predicate` holds for the navigation; otherwise allow.
+ *
+ * The predicate may return a Promise-like; a synchronous predicate with a
+ * synchronous guard keeps the composed guard synchronous. Wrapping a leave
+ * guard yields a leave guard.
+ *
+ * @example
+ * router.addGuard(when((context) => context.toMeta.requiresAuth === true, isLoggedIn));
+ *
+ * @since 1.7.0
+ */
+export function when(
+	predicate: (context: GuardContext) => boolean | PromiseLike<boolean>,
+	guard: LeaveGuardFn,
+): LeaveGuardFn;
+export function when(predicate: (context: GuardContext) => boolean | PromiseLike<boolean>, guard: GuardFn): GuardFn;
+export function when(predicate: (context: GuardContext) => boolean | PromiseLike<boolean>, guard: GuardFn): GuardFn {
+	return (context) => {
+		const applies = predicate(context);
+		if (isPromiseLike<boolean>(applies)) {
+			return Promise.resolve(applies).then((ok) => (ok && !context.signal.aborted ? guard(context) : true));
+		}
+		return applies ? guard(context) : true;
+	};
+}
+
+/**
+ * Redirect to the first redirect any guard returns; otherwise allow.
+ *
+ * Guards run in order until one returns a route name or {@link GuardRedirect}.
+ * Results other than a redirect, including blocks, let the next guard run.
+ * Useful for prioritized redirects such as login before onboarding.
+ *
+ * @example
+ * router.addGuard(firstRedirect(requireLogin, requireOnboarding));
+ *
+ * @since 1.7.0
+ */
+export function firstRedirect(...guards: GuardFn[]): GuardFn {
+	return (context) => runInOrder(guards, context, (result) => (isRedirect(result) ? result : undefined), true);
+}
@@ -0,0 +1,48 @@
+import type ManagedObject from "sap/ui/base/ManagedObject";
+import type { GuardRegistration } from "./types";
+
+/** Registrations waiting for their owner's destruction. */
+const pendingByOwner = new WeakMap<ManagedObject, GuardRegistration[]>();
+
+/**
+ * Remove guard registrations when a `ManagedObject` is destroyed, e.g. a
+ * controller's view or a component.
+ *
+ * The owner's `destroy()` is wrapped on the instance, so the guards are
+ * removed before the owner tears down its children. Registrations for an
+ * owner that is already destroyed, or being destroyed, are removed immediately.
+ * Removing a registration manually beforehand is fine; `remove()` is idempotent.
+ *
+ * @example
+ * onInit(): void {
+ * 	removeOnDestroy(
+ * 		this.getView()!,
+ * 		router.registerLeaveGuard("editOrder", () => !this.hasUnsavedChanges()),
+ * 	);
+ * }
+ *
+ * @param owner - Object whose destruction ends the guards' lifetime.
+ * @param registrations - Handles returned by the router's `register*` methods.
+ * @since 1.7.0
+ */
+export function removeOnDestroy(owner: ManagedObject, ...registrations: GuardRegistration[]): void {
+	if (owner.isDestroyed() || owner.isDestroyStarted()) {
+		for (const registration of registrations) registration.remove();
+		return;
+	}
+
+	const pending = pendingByOwner.get(owner);
+	if (pending) {
+		pending.push(...registrations);
+		return;
+	}
+
+	pendingByOwner.set(owner, [...registrations]);
+	const destroy = owner.destroy;
+	owner.destroy = function (this: ManagedObject, ...args: Parameters<ManagedObject["destroy"]>): void {
+		const registered = pendingByOwner.get(owner) ?? [];
+		pendingByOwner.delete(owner);
+		for (const registration of registered) registration.remove();
+		destroy.apply(this, args);
+	};
+}
@@ -1,4 +1,6 @@
 import type Event from "sap/ui/base/Event";
+import type Control from "sap/ui/core/Control";
+import type { routing } from "sap/ui/core/library";
 import type MobileRouter from "sap/m/routing/Router";
 import type { ComponentTargetParameters, RouteInfo } from "sap/ui/core/routing/Router";
 import type NavigationOutcome from "./NavigationOutcome";
@@ -17,6 +19,21 @@ export interface GuardRedirect {
 	componentTargetInfo?: Record<string, ComponentTargetParameters>;
 }
 
+/**
+ * Block result carrying a reason the UI can act on, e.g. to tell
+ * "not authorized" apart from "unsaved changes".
+ *
+ * @since 1.7.0
+ */
+export interface GuardBlock {
+	/** Marks the result as a block. */
+	block: true;
+	/** Application-defined reason, reported as `NavigationResult.reason`. */
+	reason: string;
+	/** Optional payload, reported as `NavigationResult.data`. */
+	data?: unknown;
+}
+
 /**
  * Result of a guard check.
  *
@@ -33,17 +50,107 @@ export interface GuardRedirect {
  *   For browser-initiated navigation, the redirect replaces the current entry.
  * - `GuardRedirect`: Redirect with route name, parameters, and optional
  *   component target info. Same history semantics as string redirect.
+ * - `GuardBlock`: Block navigation like `false`, with a reason reported on
+ *   the {@link NavigationResult}.
  *
  * @since 1.0.1
  */
-export type GuardResult = boolean | string | GuardRedirect;
+export type GuardResult = boolean | string | GuardRedirect | GuardBlock;
+
+/**
+ * Intercepted navigation that can be stored and replayed later.
+ *
+ * Every guarded navigation carries a transition on {@link GuardContext.transition}.
+ * Redirect chain hops share the transition of the navigation that started the
+ * chain, so a login route guard sees where the user originally wanted to go.
+ * Blocked, redirected, and failed settlements expose the same object on
+ * {@link NavigationResult.transition}.
+ *
+ * The object holds a reference to the router and is not serializable. Use
+ * `hash` when the destination must survive a page reload.
+ *
+ * @since 1.7.0
+ */
+export interface NavigationTransition {
+	/** Route name of the intercepted navigation (empty string if no route matched). */
+	readonly route: string;
+	/**
+	 * Route parameters of the intercepted navigation. For `navTo()` calls this is the
+	 * parameters object passed by the caller; for browser-initiated navigation it holds
+	 * the arguments parsed from the hash.
+	 */
+	readonly parameters: object;
+	/** Component target info passed to the original `navTo()` call, if any. */
+	readonly componentTargetInfo?: Record<string, ComponentTargetParameters>;
+	/** Hash of the intercepted navigation. */
+	readonly hash: string;
+	/** Guard bag of the intercepted navigation, including values written by redirect chain hops. */
+	readonly bag: GuardBag;
+	/**
+	 * Replay the navigation through `navTo()`, so the preflight guard pipeline runs again.
+	 * Pass `{ skipPassedGuards: true }` to run only the enter guards that did not allow the
+	 * intercepted navigation (for example right after a successful login), or
+	 * `{ skipGuards: true }` to bypass every guard. Transitions of unmatched hashes replay via `setHash()`.
+	 *
+	 * @param options - Per-navigation overrides for the replayed `navTo()` call.
+	 * @returns Promise that resolves with the settlement of the replay, like {@link GuardRouter.navigate}.
+	 */
+	retry(options?: TransitionRetryOptions): Promise<NavigationResult>;
+}
+
+/**
+ * Options for {@link NavigationTransition.retry}.
+ *
+ * @since 1.7.0
+ */
+export interface TransitionRetryOptions extends GuardNavToOptions {
+	/**
+	 * When `true`, enter guards that returned `true` for the intercepted navigation
+	 * are not run again. The guard that blocked or redirected it, the guards after
+	 * that one, and the target route's resolvers still run. Leave guards of the
+	 * current route always run. Ignored under `navToPreflight: "off"`, where the
+	 * replay is evaluated by `parse()`.
+	 */
+	skipPassedGuards?: boolean;
+}
+
+/** Phantom property carrying the value type of a {@link BagKey}. */
+declare const bagValueType: unique symbol;
+
+/**
+ * Typed key for the guard bag, created with `createBagKey()` from
+ * `ui5/guard/router/bag`. At runtime it is the plain string name, so a
+ * typed key and the same string address the same entry.
+ *
+ * @since 1.7.0
+ */
+export type BagKey<T> = string & { readonly [bagValueType]: T };
+
+/**
+ * Guard bag of a navigation: a `Map` whose `get` and `set` are typed when
+ * called with a {@link BagKey}. Plain string keys keep working untyped.
+ *
+ * @example
+ * const userKey = createBagKey<User>("user");
+ * context.bag.set(userKey, user);
+ * context.bag.get(userKey); // User | undefined
+ *
+ * @since 1.7.0
+ */
+export interface GuardBag extends Map<string, unknown> {
+	get<K extends string>(key: K): (K extends BagKey<infer T> ? T : unknown) | undefined;
+	set<K extends string>(key: K, value: K extends BagKey<infer T> ? T : unknown): this;
+}
 
 /**
  * Context passed to guard functions.
  *
+ * `TMeta` declares the shape of the application's route metadata, typing
+ * `toMeta` and `fromMeta`. It defaults to an open record.
+ *
  * @since 1.0.1
  */
-export interface GuardContext {
+export interface GuardContext<TMeta extends object = Record<string, unknown>> {
 	/** Target route name (empty string if no route matched / bypassed) @since 1.0.1 */
 	toRoute: string;
 	/** Raw hash being navigated to @since 1.0.1 */
@@ -76,7 +183,7 @@ export interface GuardContext {
 	 *
 	 * @since 1.5.0
 	 */
-	bag: Map<string, unknown>;
+	bag: GuardBag;
 	/**
 	 * Resolved metadata for the target route (manifest + runtime, frozen).
 	 * When `inheritance` is `"pattern-tree"`, includes metadata inherited
@@ -84,7 +191,7 @@ export interface GuardContext {
 	 *
 	 * @since 1.6.0
 	 */
-	toMeta: Readonly<Record<string, unknown>>;
+	toMeta: Readonly<TMeta>;
 	/**
 	 * Resolved metadata for the current route (manifest + runtime, frozen).
 	 * When `inheritance` is `"pattern-tree"`, includes metadata inherited
@@ -92,7 +199,30 @@ export interface GuardContext {
 	 *
 	 * @since 1.6.0
 	 */
-	fromMeta: Readonly<Record<string, unknown>>;
+	fromMeta: Readonly<TMeta>;
+	/**
+	 * The navigation being guarded, as a replayable object. Redirect chain hops
+	 * receive the transition of the navigation that started the chain.
+	 *
+	 * @since 1.7.0
+	 */
+	transition: NavigationTransition;
+	/**
+	 * What started the navigation. Guards on a redirect target see `"redirect"`.
+	 *
+	 * @since 1.7.0
+	 */
+	trigger: NavigationTrigger;
+	/**
+	 * History direction of the navigation, e.g. `Backwards` for browser back.
+	 * For `"hashchange"` and `"initial"`, read from `sap/ui/core/routing/History`
+	 * (`Unknown` when it cannot tell). For `"navTo"`, `NewEntry`, or `Unknown`
+	 * when replacing the history entry. Redirect hops keep the direction of the
+	 * navigation that started the chain.
+	 *
+	 * @since 1.7.0
+	 */
+	direction: routing.HistoryDirection;
 }
 
 /**
@@ -104,20 +234,79 @@ export interface GuardContext {
  * Promise-like return values are awaited.
  * @since 1.0.1
  */
-export type GuardFn = (context: GuardContext) => GuardResult | PromiseLike<GuardResult>;
+export type GuardFn<TMeta extends object = Record<string, unknown>> = (
+	context: GuardContext<TMeta>,
+) => GuardResult | PromiseLike<GuardResult>;
 
 /**
  * A leave guard function. It can be synchronous or asynchronous.
  *
  * Leave guards answer the question "can I leave this route?" and return
- * only a boolean. They cannot redirect. Use enter guards for that.
+ * a boolean or a {@link GuardBlock}. They cannot redirect. Use enter guards for that.
  *
  * @param context - Navigation context with current/target route info and an `AbortSignal`.
- * @returns `true` to allow leaving the current route. Any non-`true` boolean result blocks.
- * Promise-like return values are awaited. Non-boolean runtime values are treated as blocked.
+ * @returns `true` to allow leaving the current route. `false` or a {@link GuardBlock} blocks.
+ * Promise-like return values are awaited. Other runtime values are treated as blocked.
  * @since 1.0.1
  */
-export type LeaveGuardFn = (context: GuardContext) => boolean | PromiseLike<boolean>;
+export type LeaveGuardFn<TMeta extends object = Record<string, unknown>> = (
+	context: GuardContext<TMeta>,
+) => boolean | GuardBlock | PromiseLike<boolean | GuardBlock>;
+
+/**
+ * A hook that runs after a navigation has settled.
+ *
+ * After hooks observe navigations; they cannot change the outcome. They run
+ * after `Committed`, `Bypassed`, and `Redirected` navigations are committed,
+ * and after `Blocked` and `Error` settlements once the hash is restored.
+ * Cancelled navigations do not run after hooks. Return values are ignored.
+ *
+ * @param context - Guard context of the settled navigation. For `Redirected`, the
+ *   context of the redirect target that committed.
+ * @param result - Settlement of the navigation. `result.status` is the final {@link NavigationOutcome}.
+ * @since 1.7.0
+ */
+export type AfterHookFn<TMeta extends object = Record<string, unknown>> = (
+	context: GuardContext<TMeta>,
+	result: NavigationResult,
+) => void;
+
+/**
+ * Router-level handler for guard errors, set with `setErrorHandler()` or
+ * named as a module under `guardRouter.errorHandler`.
+ *
+ * Receives the error of a guard that threw or rejected, and converts it into a {@link GuardResult}
+ * applied in place of the error: redirect to an error route, block with a
+ * reason, or allow (e.g. after flagging the navigation as degraded in
+ * `context.bag`). Returning `undefined` keeps the error, which settles the
+ * navigation as `Error`. A handler that throws keeps the original error too.
+ * Guard timeouts do not reach the handler; `guardTimeoutPolicy` settles them.
+ *
+ * @param error - Value the guard threw or rejected with.
+ * @param context - Guard context of the failed navigation.
+ * @returns The result to apply instead of the error, or `undefined`. Promise-like values are awaited.
+ * @since 1.7.0
+ */
+export type GuardErrorHandler<TMeta extends object = Record<string, unknown>> = (
+	error: unknown,
+	context: GuardContext<TMeta>,
+) => GuardResult | undefined | PromiseLike<GuardResult | undefined>;
+
+/**
+ * A route data resolver. Runs after the enter guards allow a navigation and
+ * before the target route is committed. Its `context.signal` is a child of the
+ * navigation's `AbortSignal`, also aborted when an earlier resolver fails.
+ *
+ * The resolved value is exposed under the resolver's key by `getResolvedData()`.
+ * Throwing or rejecting with a `ResolveRejection` blocks or redirects the
+ * navigation; any other error settles it as `Error`, unless the router's
+ * error handler converts it.
+ *
+ * @param context - Guard context of the navigation.
+ * @returns The data to expose. Promise-like values are awaited.
+ * @since 1.7.0
+ */
+export type RouteResolverFn<TMeta extends object = Record<string, unknown>> = (context: GuardContext<TMeta>) => unknown;
 
 /**
  * Configuration object for registering enter and/or leave guards on a route.
@@ -128,11 +317,11 @@ export type LeaveGuardFn = (context: GuardContext) => boolean | PromiseLike<bool
  *
  * @since 1.0.1
  */
-export interface RouteGuardConfig {
+export interface RouteGuardConfig<TMeta extends object = Record<string, unknown>> {
 	/** Guard that runs before entering this route */
-	beforeEnter?: GuardFn;
+	beforeEnter?: GuardFn<TMeta>;
 	/** Guard that runs before leaving this route */
-	beforeLeave?: LeaveGuardFn;
+	beforeLeave?: LeaveGuardFn<TMeta>;
 }
 
 /**
@@ -179,35 +368,235 @@ export type GuardLoading = "block" | "lazy";
  */
 export type Inheritance = "none" | "pattern-tree";
 
+/**
+ * Outcome applied when an async guard exceeds its timeout.
+ *
+ * - `"error"`: Settle as `Error` with a `GuardTimeoutError` (default).
+ * - `"block"`: Settle as `Blocked`; `result.error` carries the `GuardTimeoutError`.
+ * - `"allow"`: Treat the timed-out guard as returning `true` and continue the pipeline.
+ *
+ * Under every policy, the timed-out guard's `context.signal` is aborted with the
+ * `GuardTimeoutError` as its reason, and a result it returns later is ignored
+ * (including for `once` and `until` removal). For `"error"` and `"block"`, the
+ * navigation's `AbortSignal` is aborted as well. Under `"allow"`, the remaining
+ * guards keep a live signal because the navigation continues.
+ *
+ * @since 1.7.0
+ */
+export type GuardTimeoutPolicy = "block" | "error" | "allow";
+
+/**
+ * Outcome of a guard redirect chain that revisits a hash or exceeds `maxRedirectDepth`.
+ *
+ * - `"block"`: settle as `Blocked`; `result.error` carries the `RedirectLoopError`.
+ * - `"error"`: settle as `Error` with the `RedirectLoopError`.
+ * - `"fallback"`: commit `redirectLoopFallback` without evaluating its guards and settle
+ *   as `Redirected`; `result.error` carries the `RedirectLoopError`.
+ *
+ * @since 1.7.0
+ */
+export type RedirectLoopPolicy = "block" | "error" | "fallback";
+
+/**
+ * Whether routes without an explicit guard are reachable.
+ *
+ * - `"allow"`: every route is reachable unless a guard objects (default).
+ * - `"deny"`: a route is reachable only when it has a route-level enter guard,
+ *   a value under the access guard's meta key, or `public: true` in its metadata.
+ *   Other routes are blocked with reason `"default-deny"`, or redirected to `defaultDenyRoute`.
+ *
+ * @since 1.7.0
+ */
+export type DefaultPolicy = "allow" | "deny";
+
+/**
+ * Busy indicator settings for slow guard evaluation.
+ *
+ * @since 1.7.0
+ */
+export interface BusyIndicatorOptions {
+	/** Milliseconds guard evaluation may stay pending before the indicator shows. Defaults to `1000`. */
+	delay?: number;
+	/**
+	 * Control (or control ID) to set busy instead of showing the global
+	 * `sap/ui/core/BusyIndicator`. Falls back to the global indicator when
+	 * the ID does not resolve to a control.
+	 */
+	control?: string | Control;
+}
+
+/**
+ * Answers the access checks of the built-in access guard (see {@link GuardRouterOptions.access}).
+ * Both methods may return a Promise-like, e.g. to load the user's session lazily.
+ *
+ * @since 1.7.0
+ */
+export interface PermissionProvider {
+	/** Whether the current user is authenticated. */
+	isAuthenticated(context: GuardContext): boolean | PromiseLike<boolean>;
+	/**
+	 * Whether the authenticated user may enter a route that requires `required`,
+	 * the permissions listed under the route's {@link AccessOptions.metaKey}.
+	 * The provider decides whether any or all of them are needed.
+	 */
+	hasPermission(required: readonly string[], context: GuardContext): boolean | PromiseLike<boolean>;
+}
+
+/**
+ * Settings of the built-in access guard, configured under `guardRouter.access`.
+ *
+ * @since 1.7.0
+ */
+export interface AccessOptions {
+	/**
+	 * Route metadata key holding a route's required permissions: a permission
+	 * name, an array of names, or `true` for "authenticated only". Defaults to `"roles"`.
+	 */
+	metaKey?: string;
+	/** Route to redirect to when the user lacks a permission. Blocks with reason `"forbidden"` when omitted. */
+	deniedRoute?: string;
+	/** Route to redirect to when the user is not authenticated. Blocks with reason `"unauthenticated"` when omitted. */
+	unauthenticatedRoute?: string;
+}
+
+/**
+ * Per-guard options accepted by the guard registration methods.
+ *
+ * @since 1.7.0
+ */
+export interface GuardRegistrationOptions {
+	/**
+	 * Timeout in milliseconds for this guard, overriding {@link GuardRouterOptions.guardTimeout}.
+	 * `0` disables the timeout for this guard.
+	 */
+	timeout?: number;
+	/**
+	 * Name identifying the guard in `before`/`after` constraints and in log messages.
+	 *
+	 * @since 1.7.0
+	 */
+	name?: string;
+	/**
+	 * Execution priority. Higher values run first; guards with equal priority
+	 * run in registration order. Defaults to `0`.
+	 *
+	 * @since 1.7.0
+	 */
+	priority?: number;
+	/**
+	 * Name(s) of guards this guard must run before. Only guards in the same list
+	 * (global enter, global leave, or one route's enter or leave guards) are considered.
+	 *
+	 * @since 1.7.0
+	 */
+	before?: string | string[];
+	/**
+	 * Name(s) of guards this guard must run after. Only guards in the same list
+	 * (global enter, global leave, or one route's enter or leave guards) are considered.
+	 *
+	 * @since 1.7.0
+	 */
+	after?: string | string[];
+	/**
+	 * Run this guard concurrently with the adjacent parallel guards of the same list
+	 * (after ordering). The group waits for the guards before it, and the guards after
+	 * it wait for the group. The first result other than `true` in declaration order
+	 * decides; guards of the group still running are then aborted through their own
+	 * child `AbortSignal`.
+	 *
+	 * @since 1.7.0
+	 */
+	parallel?: boolean;
+	/**
+	 * Remove the guard after its first decision, whatever it returned.
+	 * Shorthand for `until: () => true`.
+	 *
+	 * @since 1.7.0
+	 */
+	once?: boolean;
+	/**
+	 * Remove the guard after a decision for which this predicate returns `true`,
+	 * e.g. `(result) => result !== true` to keep a redirect guard until it redirects once.
+	 * Receives the guard's raw result. A run counts as a decision only when the guard
+	 * settles with a result: runs that throw, time out, or belong to a navigation
+	 * that was superseded or cancelled in the meantime keep the guard registered.
+	 *
+	 * @since 1.7.0
+	 */
+	until?: (result: GuardResult) => boolean;
+	/**
+	 * Group the guard belongs to. Guards of a group disabled with
+	 * `setGuardGroupEnabled(group, false)` are skipped during evaluation.
+	 *
+	 * @since 1.7.0
+	 */
+	group?: string;
+}
+
+/**
+ * Handle returned by the `register*` methods of the router, removing the
+ * registered guard without keeping a reference to the guard function.
+ *
+ * @since 1.7.0
+ */
+export interface GuardRegistration {
+	/** Remove the guard. Calls after the first do nothing. */
+	remove(): void;
+}
+
+/**
+ * Object form of a manifest guard entry, carrying registration options
+ * alongside the module path.
+ *
+ * When `name` is omitted, the guard is named after its export key or the
+ * last segment of the module path. Modules exporting several guards name
+ * each guard after its export.
+ *
+ * @since 1.7.0
+ */
+export interface ManifestGuardEntry extends Omit<GuardRegistrationOptions, "until"> {
+	/** Guard module path (dot notation, relative to component namespace), optionally with `#exportKey`. */
+	module: string;
+}
+
 /**
  * Per-route guard declaration in the manifest.
  *
  * @since 1.5.0
  */
 export interface ManifestRouteGuardConfig {
-	/** Enter guard module paths (dot notation, relative to component namespace). */
-	enter?: string[];
-	/** Leave guard module paths (dot notation, relative to component namespace). */
-	leave?: string[];
+	/** Enter guard module paths (dot notation, relative to component namespace) or entry objects. */
+	enter?: (string | ManifestGuardEntry)[];
+	/** Leave guard module paths (dot notation, relative to component namespace) or entry objects. */
+	leave?: (string | ManifestGuardEntry)[];
+	/**
+	 * Run the `enter` guards as one parallel group. Entry objects may opt out with `parallel: false`.
+	 *
+	 * @since 1.7.0
+	 */
+	parallel?: boolean;
 }
 
 /**
  * Guard declarations in the manifest `guardRouter.guards` block.
  *
  * Keys are route names or `"*"` for global guards.
- * Values are either a `string[]` shorthand (enter guards only)
+ * Values are either an array shorthand (enter guards only)
  * or a {@link ManifestRouteGuardConfig} object with `enter` and/or `leave` arrays.
+ * Array items are module paths or {@link ManifestGuardEntry} objects.
+ * Under `"*"`, `leave` registers global leave guards.
  *
  * @since 1.5.0
  */
-export type ManifestGuardConfig = Record<string, string[] | ManifestRouteGuardConfig>;
+export type ManifestGuardConfig = Record<string, (string | ManifestGuardEntry)[] | ManifestRouteGuardConfig>;
 
 /**
  * Router-level options for the guard router.
  *
  * Configured manifest-first under `sap.ui5.routing.config.guardRouter`.
  * Defaults: `unknownRouteRegistration: "warn"`, `navToPreflight: "guard"`, `guardLoading: "lazy"`,
- * `inheritance: "none"`.
+ * `inheritance: "none"`, `guardTimeout: 0`, `guardTimeoutPolicy: "error"`, `busyIndicator: false`,
+ * `maxRedirectDepth: 10`, `redirectLoopPolicy: "block"`, `defaultPolicy: "allow"`.
  *
  * @since 1.5.0
  */
@@ -219,19 +608,85 @@ export interface GuardRouterOptions {
 	/**
 	 * Strategy for loading manifest-declared guard modules. Defaults to `"lazy"`.
 	 *
-	 * In `"lazy"` mode, if the preload hint has not completed before the first
-	 * navigation, multi-export module guards beyond the first are appended after
-	 * any imperatively registered guards. Use `"block"` for strict declaration-order
-	 * guarantees.
+	 * Guard order is the same in both modes: at equal priority, manifest guards run
+	 * ahead of imperative guards, in declaration order, including the guards of a
+	 * multi-export module that `"lazy"` mode expands on the first navigation.
 	 */
 	guardLoading?: GuardLoading;
 	/** Strategy for inheriting guards and metadata down the URL pattern tree. Defaults to `"none"`. @since 1.6.0 */
 	inheritance?: Inheritance;
+	/**
+	 * Maximum time in milliseconds an async guard may take before {@link guardTimeoutPolicy}
+	 * applies. Defaults to `0`, which disables timeouts. Synchronous guards are never timed.
+	 *
+	 * @since 1.7.0
+	 */
+	guardTimeout?: number;
+	/** Outcome applied when a guard exceeds its timeout. Defaults to `"error"`. @since 1.7.0 */
+	guardTimeoutPolicy?: GuardTimeoutPolicy;
+	/**
+	 * Show a busy indicator while async guards keep a navigation pending.
+	 * `true` uses the global `sap/ui/core/BusyIndicator` after the default delay;
+	 * an object configures the delay and an optional control to set busy instead.
+	 * Defaults to `false`.
+	 *
+	 * @since 1.7.0
+	 */
+	busyIndicator?: boolean | BusyIndicatorOptions;
+	/**
+	 * Maximum number of redirect hops in one chain before it is treated as a loop, so a
+	 * chain evaluates at most one hash more than this. Positive integer; defaults to `10`.
+	 *
+	 * @since 1.7.0
+	 */
+	maxRedirectDepth?: number;
+	/** Outcome of a redirect loop. Defaults to `"block"`. @since 1.7.0 */
+	redirectLoopPolicy?: RedirectLoopPolicy;
+	/**
+	 * Route committed when a redirect loops under `redirectLoopPolicy: "fallback"`,
+	 * e.g. `"notFound"`. Must be a route without required parameters.
+	 *
+	 * @since 1.7.0
+	 */
+	redirectLoopFallback?: string;
+	/** Reachability of routes without an explicit guard. Defaults to `"allow"`. @since 1.7.0 */
+	defaultPolicy?: DefaultPolicy;
+	/**
+	 * Route to redirect to when `defaultPolicy: "deny"` denies a route, instead of blocking.
+	 * The route itself must be reachable, e.g. marked `public: true`.
+	 *
+	 * @since 1.7.0
+	 */
+	defaultDenyRoute?: string;
+	/**
+	 * Enable the built-in access guard: a global enter guard that checks the target
+	 * route's required permissions (read from its metadata) against the
+	 * {@link PermissionProvider} set with `setPermissionProvider()`.
+	 *
+	 * @since 1.7.0
+	 */
+	access?: AccessOptions;
+	/**
+	 * Module exporting a {@link GuardErrorHandler}, in the notation of guard module
+	 * paths: relative to the component namespace, or absolute with the `module:` prefix.
+	 * A `#key` suffix picks a function from an object export. Replaced by `setErrorHandler()`.
+	 *
+	 * @since 1.7.0
+	 */
+	errorHandler?: string;
 	/** Declarative guard declarations indexed by route name or `"*"` for globals. */
 	guards?: ManifestGuardConfig;
+	/**
+	 * Route data resolvers indexed by route name, then by data key. Values are module
+	 * paths in the notation of guard module paths, including the `#key` suffix.
+	 *
+	 * @since 1.7.0
+	 */
+	resolve?: Record<string, Record<string, string>>;
 	/**
 	 * Per-route metadata declarations indexed by route name.
-	 * Values are arbitrary key-value objects that the router stores but never interprets.
+	 * Values are arbitrary key-value objects that the router stores but never interprets,
+	 * except for the {@link AccessOptions.metaKey} read by the access guard.
 	 * The router exposes these values on `GuardContext` as `toMeta` and `fromMeta`.
 	 *
 	 * @since 1.6.0
@@ -252,6 +707,43 @@ export interface GuardNavToOptions {
 	skipGuards?: boolean;
 }
 
+/**
+ * Options for {@link GuardRouter.navigate}.
+ *
+ * @since 1.7.0
+ */
+export interface GuardNavigateOptions extends GuardNavToOptions {
+	/** Component target info for nested component routing. */
+	componentTargetInfo?: Record<string, ComponentTargetParameters>;
+	/** When `true`, replace the current history entry instead of adding a new one. */
+	replace?: boolean;
+}
+
+/**
+ * Pipeline phase a guard runs in: `"leave"` for global and route leave guards,
+ * `"global"` for global enter guards, `"route"` for route enter guards, and
+ * `"resolve"` for route data resolvers.
+ *
+ * @since 1.7.0
+ */
+export type GuardPhase = "leave" | "global" | "route" | "resolve";
+
+/**
+ * Identifies the guard whose result decided a navigation.
+ *
+ * @since 1.7.0
+ */
+export interface GuardDecisionSource {
+	/** Guard name, when the guard was registered with one (manifest guards always are). The key of a resolver. */
+	name?: string;
+	/** Pipeline phase the guard ran in. */
+	phase: GuardPhase;
+	/** Position of the guard within its phase, in execution order. Global leave guards come first in `"leave"`. */
+	index: number;
+	/** Route the guard was registered for: the route being left for `"leave"`, the target route otherwise. */
+	route: string;
+}
+
 /**
  * Result of a settled navigation, returned by `navigationSettled()`.
  *
@@ -274,11 +766,49 @@ export interface NavigationResult {
 	hash: string;
 	/**
 	 * The error that caused the navigation to fail.
-	 * Present only when `status` is `NavigationOutcome.Error`.
+	 * Present when `status` is `NavigationOutcome.Error`, on `NavigationOutcome.Blocked`
+	 * when a guard timed out under `guardTimeoutPolicy: "block"` or a redirect chain looped,
+	 * and on `NavigationOutcome.Redirected` when a loop fell back to `redirectLoopFallback`.
 	 *
 	 * @since 1.4.0
 	 */
 	error?: unknown;
+	/**
+	 * The intercepted navigation, ready to be replayed with `retry()`.
+	 * Present only when `status` is `NavigationOutcome.Blocked`, `NavigationOutcome.Redirected`,
+	 * or `NavigationOutcome.Error` and the guard pipeline evaluated the navigation.
+	 *
+	 * @since 1.7.0
+	 */
+	transition?: NavigationTransition;
+	/**
+	 * The guard whose result decided the navigation: the guard that blocked, threw, or
+	 * issued the final redirect of a chain. Present when `status` is `NavigationOutcome.Blocked`,
+	 * `NavigationOutcome.Redirected`, or `NavigationOutcome.Error` and a guard made that decision.
+	 *
+	 * @since 1.7.0
+	 */
+	decidedBy?: GuardDecisionSource;
+	/**
+	 * Hashes evaluated in a redirect chain, starting with the originally attempted hash.
+	 * Present when a guard redirected, whether the chain committed, blocked, or failed.
+	 *
+	 * @since 1.7.0
+	 */
+	redirectChain?: string[];
+	/**
+	 * Reason given by a guard that blocked with a {@link GuardBlock}.
+	 * Present only when `status` is `NavigationOutcome.Blocked`.
+	 *
+	 * @since 1.7.0
+	 */
+	reason?: string;
+	/**
+	 * Payload given by a guard that blocked with a {@link GuardBlock} that carries `data`.
+	 *
+	 * @since 1.7.0
+	 */
+	data?: unknown;
 }
 
 /**
@@ -293,15 +823,64 @@ export interface NavigationResult {
  */
 export type Router$NavigationSettledEvent = Event<NavigationResult, GuardRouter>;
 
+/**
+ * What started a navigation.
+ *
+ * - `"navTo"`: programmatic `navTo()` or `navigate()` evaluated as a preflight.
+ * - `"hashchange"`: a hash change reaching `parse()`: browser back/forward, URL edits,
+ *   `setHash()`, and `navTo()` under `navToPreflight: "off"`.
+ * - `"initial"`: the first hash parsed after `initialize()`.
+ * - `"redirect"`: a hop of a redirect chain. Only reported on {@link GuardContext.trigger};
+ *   pending navigations report the trigger of the navigation that started the chain.
+ *
+ * @since 1.7.0
+ */
+export type NavigationTrigger = "navTo" | "hashchange" | "redirect" | "initial";
+
+/**
+ * A navigation whose guards are being evaluated.
+ *
+ * @since 1.7.0
+ */
+export interface PendingNavigation {
+	/** Target route name (empty if no route matches). */
+	route: string;
+	/** Target hash. */
+	hash: string;
+	/** What started the navigation. */
+	trigger: NavigationTrigger;
+}
+
+/**
+ * Event object passed to `attachNavigationStarted` handlers.
+ * Parameters are identical to {@link PendingNavigation}.
+ *
+ * @since 1.7.0
+ */
+export type Router$NavigationStartedEvent = Event<PendingNavigation, GuardRouter>;
+
 /**
  * Public instance shape of the extended Router.
  *
  * Extends `sap.m.routing.Router` with guard management methods.
  * Use this type when casting `getRouter()` in application code.
  *
+ * `TMeta` declares the shape of the application's route metadata. It types
+ * `getRouteMeta()`, `setRouteMeta()`, and the `toMeta`/`fromMeta` of the
+ * guard contexts the router passes to its guards, hooks, and resolvers.
+ * For metadata keyed per route, see {@link TypedGuardRouter}.
+ *
+ * @example
+ * interface AppMeta {
+ * 	requiresAuth?: boolean;
+ * 	title?: string;
+ * }
+ * const router = this.getOwnerComponent()!.getRouter() as GuardRouter<AppMeta>;
+ * router.addGuard((context) => !context.toMeta.requiresAuth || isLoggedIn());
+ *
  * @since 1.0.1
  */
-export interface GuardRouter extends MobileRouter {
+export interface GuardRouter<TMeta extends object = Record<string, unknown>> extends MobileRouter {
 	/**
 	 * Navigate with optional guard-router-specific per-call options.
 	 *
@@ -323,14 +902,32 @@ export interface GuardRouter extends MobileRouter {
 		options?: GuardNavToOptions,
 	): this;
 
+	/**
+	 * Navigate and resolve with the settlement of this specific navigation.
+	 *
+	 * Unlike `navigationSettled()`, the Promise never resolves with the result of a
+	 * different navigation: if a newer navigation supersedes this one, it resolves
+	 * with `Cancelled`. If the call does not start a navigation (for example the
+	 * target hash is already active), it resolves immediately with the router's
+	 * current state as `Committed`.
+	 *
+	 * @param routeName - Route name as defined in `manifest.json`.
+	 * @param parameters - Route parameters.
+	 * @param options - History, nested component, and guard options for this navigation.
+	 * @returns Promise that resolves with the {@link NavigationResult} of this navigation.
+	 * @since 1.7.0
+	 */
+	navigate(routeName: string, parameters?: object, options?: GuardNavigateOptions): Promise<NavigationResult>;
+
 	/**
 	 * Register a global guard that runs for every navigation.
 	 *
 	 * @param guard - Guard function to register. Non-functions are ignored with a warning.
+	 * @param options - Per-guard options: `timeout`, `name`, `priority`, `before`, `after`, `parallel`, `once`, `until`, `group`.
 	 * @returns `this` for chaining.
 	 * @since 1.0.1
 	 */
-	addGuard(guard: GuardFn): GuardRouter;
+	addGuard(guard: GuardFn<TMeta>, options?: GuardRegistrationOptions): GuardRouter<TMeta>;
 	/**
 	 * Remove a previously registered global guard.
 	 *
@@ -338,7 +935,7 @@ export interface GuardRouter extends MobileRouter {
 	 * @returns `this` for chaining.
 	 * @since 1.0.1
 	 */
-	removeGuard(guard: GuardFn): GuardRouter;
+	removeGuard(guard: GuardFn<TMeta>): GuardRouter<TMeta>;
 	/**
 	 * Register a guard for a specific route.
 	 *
@@ -347,10 +944,15 @@ export interface GuardRouter extends MobileRouter {
 	 *
 	 * @param routeName - Route name as defined in `manifest.json`. If the route is unknown, the {@link GuardRouterOptions.unknownRouteRegistration} policy applies (default: warn).
 	 * @param guard - Guard function or {@link RouteGuardConfig} object.
+	 * @param options - Per-guard options (`timeout`, `name`, `priority`, `before`, `after`, `parallel`, `once`, `until`, `group`), applied to every guard in the call.
 	 * @returns `this` for chaining.
 	 * @since 1.0.1
 	 */
-	addRouteGuard(routeName: string, guard: GuardFn | RouteGuardConfig): GuardRouter;
+	addRouteGuard(
+		routeName: string,
+		guard: GuardFn<TMeta> | RouteGuardConfig<TMeta>,
+		options?: GuardRegistrationOptions,
+	): GuardRouter<TMeta>;
 	/**
 	 * Remove a guard from a specific route.
 	 *
@@ -363,7 +965,7 @@ export interface GuardRouter extends MobileRouter {
 	 * @returns `this` for chaining.
 	 * @since 1.0.1
 	 */
-	removeRouteGuard(routeName: string, guard: GuardFn | RouteGuardConfig): GuardRouter;
+	removeRouteGuard(routeName: string, guard: GuardFn<TMeta> | RouteGuardConfig<TMeta>): GuardRouter<TMeta>;
 	/**
 	 * Register a leave guard for a specific route.
 	 *
@@ -372,10 +974,15 @@ export interface GuardRouter extends MobileRouter {
 	 *
 	 * @param routeName - Route name as defined in `manifest.json`. If the route is unknown, the {@link GuardRouterOptions.unknownRouteRegistration} policy applies (default: warn).
 	 * @param guard - Leave guard function to register. Non-functions are ignored with a warning.
+	 * @param options - Per-guard options: `timeout`, `name`, `priority`, `before`, `after`, `parallel`, `once`, `until`, `group`.
 	 * @returns `this` for chaining.
 	 * @since 1.0.1
 	 */
-	addLeaveGuard(routeName: string, guard: LeaveGuardFn): GuardRouter;
+	addLeaveGuard(
+		routeName: string,
+		guard: LeaveGuardFn<TMeta>,
+		options?: GuardRegistrationOptions,
+	): GuardRouter<TMeta>;
 	/**
 	 * Remove a previously registered leave guard from a specific route.
 	 *
@@ -384,7 +991,107 @@ export interface GuardRouter extends MobileRouter {
 	 * @returns `this` for chaining.
 	 * @since 1.0.1
 	 */
-	removeLeaveGuard(routeName: string, guard: LeaveGuardFn): GuardRouter;
+	removeLeaveGuard(routeName: string, guard: LeaveGuardFn<TMeta>): GuardRouter<TMeta>;
+	/**
+	 * Register a leave guard that runs whenever the current route is left.
+	 *
+	 * Global leave guards run before the route-specific leave guards of the
+	 * route being left. Like route leave guards, they can allow or block the
+	 * navigation, but they cannot redirect.
+	 *
+	 * @param guard - Leave guard function to register. Non-functions are ignored with a warning.
+	 * @param options - Per-guard options: `timeout`, `name`, `priority`, `before`, `after`, `parallel`, `once`, `until`, `group`.
+	 * @returns `this` for chaining.
+	 * @since 1.7.0
+	 */
+	addGlobalLeaveGuard(guard: LeaveGuardFn<TMeta>, options?: GuardRegistrationOptions): GuardRouter<TMeta>;
+	/**
+	 * Remove a previously registered global leave guard.
+	 *
+	 * @param guard - Leave guard function to remove by reference. Non-functions are ignored with a warning.
+	 * @returns `this` for chaining.
+	 * @since 1.7.0
+	 */
+	removeGlobalLeaveGuard(guard: LeaveGuardFn<TMeta>): GuardRouter<TMeta>;
+	/**
+	 * Register a global guard like `addGuard()` and return a handle that removes it.
+	 *
+	 * @param guard - Guard function to register. Non-functions are ignored with a warning.
+	 * @param options - Per-guard options: `timeout`, `name`, `priority`, `before`, `after`, `parallel`, `once`, `until`, `group`.
+	 * @returns Handle whose `remove()` unregisters the guard.
+	 * @since 1.7.0
+	 */
+	registerGuard(guard: GuardFn<TMeta>, options?: GuardRegistrationOptions): GuardRegistration;
+	/**
+	 * Register a route guard like `addRouteGuard()` and return a handle that removes it.
+	 *
+	 * @param routeName - Route name as defined in `manifest.json`. If the route is unknown, the {@link GuardRouterOptions.unknownRouteRegistration} policy applies (default: warn).
+	 * @param guard - Guard function or {@link RouteGuardConfig} object.
+	 * @param options - Per-guard options (`timeout`, `name`, `priority`, `before`, `after`, `parallel`, `once`, `until`, `group`), applied to every guard in the call.
+	 * @returns Handle whose `remove()` unregisters the guards of the call.
+	 * @since 1.7.0
+	 */
+	registerRouteGuard(
+		routeName: string,
+		guard: GuardFn<TMeta> | RouteGuardConfig<TMeta>,
+		options?: GuardRegistrationOptions,
+	): GuardRegistration;
+	/**
+	 * Register a leave guard like `addLeaveGuard()` and return a handle that removes it.
+	 *
+	 * @param routeName - Route name as defined in `manifest.json`. If the route is unknown, the {@link GuardRouterOptions.unknownRouteRegistration} policy applies (default: warn).
+	 * @param guard - Leave guard function to register. Non-functions are ignored with a warning.
+	 * @param options - Per-guard options: `timeout`, `name`, `priority`, `before`, `after`, `parallel`, `once`, `until`, `group`.
+	 * @returns Handle whose `remove()` unregisters the guard.
+	 * @since 1.7.0
+	 */
+	registerLeaveGuard(
+		routeName: string,
+		guard: LeaveGuardFn<TMeta>,
+		options?: GuardRegistrationOptions,
+	): GuardRegistration;
+	/**
+	 * Register a global leave guard like `addGlobalLeaveGuard()` and return a handle that removes it.
+	 *
+	 * @param guard - Leave guard function to register. Non-functions are ignored with a warning.
+	 * @param options - Per-guard options: `timeout`, `name`, `priority`, `before`, `after`, `parallel`, `once`, `until`, `group`.
+	 * @returns Handle whose `remove()` unregisters the guard.
+	 * @since 1.7.0
+	 */
+	registerGlobalLeaveGuard(guard: LeaveGuardFn<TMeta>, options?: GuardRegistrationOptions): GuardRegistration;
+	/**
+	 * Enable or disable every guard registered with `group: name`.
+	 * Groups are enabled by default, including groups without guards yet.
+	 *
+	 * @param name - Group name, as passed in the `group` registration option.
+	 * @param enabled - `false` to skip the group's guards, `true` to run them again.
+	 * @returns `this` for chaining.
+	 * @since 1.7.0
+	 */
+	setGuardGroupEnabled(name: string, enabled: boolean): GuardRouter<TMeta>;
+	/**
+	 * Whether the guards of a group run.
+	 *
+	 * @param name - Group name.
+	 * @since 1.7.0
+	 */
+	isGuardGroupEnabled(name: string): boolean;
+	/**
+	 * Register a hook that runs after every committed, blocked, redirected, or failed navigation.
+	 *
+	 * @param hook - After hook to register. Non-functions are ignored with a warning.
+	 * @returns `this` for chaining.
+	 * @since 1.7.0
+	 */
+	addAfterHook(hook: AfterHookFn<TMeta>): GuardRouter<TMeta>;
+	/**
+	 * Remove a previously registered after hook.
+	 *
+	 * @param hook - After hook to remove by reference. Non-functions are ignored with a warning.
+	 * @returns `this` for chaining.
+	 * @since 1.7.0
+	 */
+	removeAfterHook(hook: AfterHookFn<TMeta>): GuardRouter<TMeta>;
 	/**
 	 * Get resolved metadata for a route.
 	 *
@@ -396,7 +1103,7 @@ export interface GuardRouter extends MobileRouter {
 	 * @returns Frozen metadata object, or an empty frozen object for unknown or unconfigured routes.
 	 * @since 1.6.0
 	 */
-	getRouteMeta(routeName: string): Readonly<Record<string, unknown>>;
+	getRouteMeta(routeName: string): Readonly<TMeta>;
 	/**
 	 * Set runtime metadata for a route, replacing any existing runtime metadata.
 	 * Does not affect manifest defaults. Runtime values take precedence on read.
@@ -408,7 +1115,56 @@ export interface GuardRouter extends MobileRouter {
 	 * @returns `this` for chaining.
 	 * @since 1.6.0
 	 */
-	setRouteMeta(routeName: string, meta: Record<string, unknown>): GuardRouter;
+	setRouteMeta(routeName: string, meta: TMeta): GuardRouter<TMeta>;
+	/**
+	 * Set the provider answering the checks of the built-in access guard
+	 * (see {@link GuardRouterOptions.access}), or `null` to remove it.
+	 * Without a provider, the access guard denies every restricted route.
+	 *
+	 * @param provider - Permission provider, or `null`.
+	 * @returns `this` for chaining.
+	 * @since 1.7.0
+	 */
+	setPermissionProvider(provider: PermissionProvider | null): GuardRouter<TMeta>;
+	/**
+	 * Set the handler converting guard errors into guard results, or `null`
+	 * to remove it. Replaces a handler configured under `guardRouter.errorHandler`.
+	 *
+	 * @param handler - Error handler, or `null`. Non-functions are ignored with a warning.
+	 * @returns `this` for chaining.
+	 * @since 1.7.0
+	 */
+	setErrorHandler(handler: GuardErrorHandler<TMeta> | null): GuardRouter<TMeta>;
+	/**
+	 * Register a data resolver for a route. A resolver registered under an
+	 * existing key replaces it.
+	 *
+	 * @param routeName - Route name as defined in `manifest.json`.
+	 * @param key - Key of the resolved value in `getResolvedData()`.
+	 * @param resolver - Resolver function. Non-functions are ignored with a warning.
+	 * @returns `this` for chaining.
+	 * @since 1.7.0
+	 */
+	addResolver(routeName: string, key: string, resolver: RouteResolverFn<TMeta>): GuardRouter<TMeta>;
+	/**
+	 * Remove the data resolver registered under a key.
+	 *
+	 * @param routeName - Route name.
+	 * @param key - Key the resolver was registered under.
+	 * @returns `this` for chaining.
+	 * @since 1.7.0
+	 */
+	removeResolver(routeName: string, key: string): GuardRouter<TMeta>;
+	/**
+	 * Data resolved for the last committed navigation to a route, by resolver key.
+	 * Available from the route's `patternMatched` handlers on. `undefined` when
+	 * the route has no resolvers or was last committed without running them
+	 * (e.g. with `skipGuards`).
+	 *
+	 * @param routeName - Route name.
+	 * @since 1.7.0
+	 */
+	getResolvedData(routeName: string): Readonly<Record<string, unknown>> | undefined;
 	/**
 	 * Resolve when the current guard pipeline settles.
 	 *
@@ -422,6 +1178,19 @@ export interface GuardRouter extends MobileRouter {
 	 * @since 1.2.0
 	 */
 	navigationSettled(): Promise<NavigationResult>;
+	/**
+	 * Whether guards are currently being evaluated for a navigation.
+	 *
+	 * @since 1.7.0
+	 */
+	isNavigating(): boolean;
+	/**
+	 * Return the navigation whose guards are being evaluated, or `null` when idle.
+	 * During a redirect chain this is the originally attempted navigation.
+	 *
+	 * @since 1.7.0
+	 */
+	getPendingNavigation(): PendingNavigation | null;
 	/**
 	 * Attach an event handler for the `navigationSettled` event.
 	 *
@@ -439,7 +1208,7 @@ export interface GuardRouter extends MobileRouter {
 		oData: object,
 		fnFunction: (evt: Router$NavigationSettledEvent) => void,
 		oListener?: object,
-	): GuardRouter;
+	): GuardRouter<TMeta>;
 	/**
 	 * Attach an event handler for the `navigationSettled` event (without custom data).
 	 *
@@ -447,7 +1216,10 @@ export interface GuardRouter extends MobileRouter {
 	 * @param oListener - Context object to call the event handler with. Defaults to this Router.
 	 * @since 1.3.0
 	 */
-	attachNavigationSettled(fnFunction: (evt: Router$NavigationSettledEvent) => void, oListener?: object): GuardRouter;
+	attachNavigationSettled(
+		fnFunction: (evt: Router$NavigationSettledEvent) => void,
+		oListener?: object,
+	): GuardRouter<TMeta>;
 	/**
 	 * Detach a previously attached `navigationSettled` event handler.
 	 *
@@ -458,5 +1230,186 @@ export interface GuardRouter extends MobileRouter {
 	 * @param oListener - Context object on which the given function had to be called.
 	 * @since 1.3.0
 	 */
-	detachNavigationSettled(fnFunction: (evt: Router$NavigationSettledEvent) => void, oListener?: object): GuardRouter;
+	detachNavigationSettled(
+		fnFunction: (evt: Router$NavigationSettledEvent) => void,
+		oListener?: object,
+	): GuardRouter<TMeta>;
+	/**
+	 * Attach an event handler for the `navigationStarted` event.
+	 *
+	 * Fires synchronously when guard evaluation begins for a navigation,
+	 * with a {@link PendingNavigation} payload. Navigations that skip the
+	 * guard pipeline (`skipGuards`, `navToPreflight: "bypass"`) do not fire it.
+	 *
+	 * @param oData - Application-specific payload passed to the handler as second argument.
+	 * @param fnFunction - The function to be called when the event occurs.
+	 * @param oListener - Context object to call the event handler with. Defaults to this Router.
+	 * @since 1.7.0
+	 */
+	attachNavigationStarted(
+		oData: object,
+		fnFunction: (evt: Router$NavigationStartedEvent) => void,
+		oListener?: object,
+	): GuardRouter<TMeta>;
+	/**
+	 * Attach an event handler for the `navigationStarted` event (without custom data).
+	 *
+	 * @param fnFunction - The function to be called when the event occurs.
+	 * @param oListener - Context object to call the event handler with. Defaults to this Router.
+	 * @since 1.7.0
+	 */
+	attachNavigationStarted(
+		fnFunction: (evt: Router$NavigationStartedEvent) => void,
+		oListener?: object,
+	): GuardRouter<TMeta>;
+	/**
+	 * Detach a previously attached `navigationStarted` event handler.
+	 *
+	 * @param fnFunction - The handler function to detach.
+	 * @param oListener - Context object on which the given function had to be called.
+	 * @since 1.7.0
+	 */
+	detachNavigationStarted(
+		fnFunction: (evt: Router$NavigationStartedEvent) => void,
+		oListener?: object,
+	): GuardRouter<TMeta>;
+}
+
+/**
+ * Route names of a route map: an object type mapping each route name to its
+ * parameters, such as the `Routes` type emitted by the `ui5-guard-router-routes` CLI.
+ *
+ * @since 1.7.0
+ */
+export type RouteName<TRoutes extends object> = Extract<keyof TRoutes, string>;
+
+/** Parameters argument of a route: optional when the route has no required parameter. */
+type RouteParametersArg<TParameters> =
+	Record<never, never> extends TParameters ? [parameters?: TParameters] : [parameters: TParameters];
+
+/** Metadata of a route: the declared shape from the metadata map, combined with the shared metadata shape. */
+type RouteMetaOf<
+	TRouteMeta extends object,
+	TRoute extends string,
+	TMeta extends object,
+> = TRoute extends keyof TRouteMeta ? TRouteMeta[TRoute] & TMeta : TMeta;
+
+/**
+ * {@link GuardContext} checked against a route map. `toRoute` is one of the map's
+ * route names (or `""` when no route matched), and `toArguments` the parameters
+ * of that route. Without `TRoute`, it is a union over all routes, so comparing
+ * `toRoute` narrows `toArguments`. `TMeta` types the metadata as on {@link GuardContext}.
+ *
+ * @since 1.7.0
+ */
+export type TypedGuardContext<
+	TRoutes extends object,
+	TRoute extends RouteName<TRoutes> | "" = RouteName<TRoutes> | "",
+	TMeta extends object = Record<string, unknown>,
+> = TRoute extends unknown
+	? Omit<GuardContext<TMeta>, "toRoute" | "toArguments" | "fromRoute"> & {
+			toRoute: TRoute;
+			toArguments: TRoute extends keyof TRoutes ? TRoutes[TRoute] : Record<string, never>;
+			fromRoute: RouteName<TRoutes> | "";
+		}
+	: never;
+
+/**
+ * {@link GuardFn} receiving a {@link TypedGuardContext}.
+ *
+ * @since 1.7.0
+ */
+export type TypedGuardFn<
+	TRoutes extends object,
+	TRoute extends RouteName<TRoutes> | "" = RouteName<TRoutes> | "",
+	TMeta extends object = Record<string, unknown>,
+> = (context: TypedGuardContext<TRoutes, TRoute, TMeta>) => GuardResult | PromiseLike<GuardResult>;
+
+/**
+ * Router methods taking a route name, typed against a route map. See {@link TypedGuardRouter}.
+ *
+ * @since 1.7.0
+ */
+export interface TypedRouteMethods<
+	TRoutes extends object,
+	TRouteMeta extends object,
+	TMeta extends object = Record<string, unknown>,
+> {
+	navTo<R extends RouteName<TRoutes>>(
+		routeName: R,
+		...args: [...RouteParametersArg<TRoutes[R]>, bReplace?: boolean, options?: GuardNavToOptions]
+	): this;
+	navTo<R extends RouteName<TRoutes>>(
+		routeName: R,
+		parameters: TRoutes[R],
+		componentTargetInfo: Record<string, ComponentTargetParameters> | undefined,
+		bReplace?: boolean,
+		options?: GuardNavToOptions,
+	): this;
+	navigate<R extends RouteName<TRoutes>>(
+		routeName: R,
+		...args: [...RouteParametersArg<TRoutes[R]>, options?: GuardNavigateOptions]
+	): Promise<NavigationResult>;
+	addGuard(guard: TypedGuardFn<TRoutes, RouteName<TRoutes> | "", TMeta>, options?: GuardRegistrationOptions): this;
+	removeGuard(guard: TypedGuardFn<TRoutes, RouteName<TRoutes> | "", TMeta>): this;
+	registerGuard(
+		guard: TypedGuardFn<TRoutes, RouteName<TRoutes> | "", TMeta>,
+		options?: GuardRegistrationOptions,
+	): GuardRegistration;
+	addRouteGuard<R extends RouteName<TRoutes>>(
+		routeName: R,
+		guard: TypedGuardFn<TRoutes, R, TMeta> | RouteGuardConfig<TMeta>,
+		options?: GuardRegistrationOptions,
+	): this;
+	removeRouteGuard<R extends RouteName<TRoutes>>(
+		routeName: R,
+		guard: TypedGuardFn<TRoutes, R, TMeta> | RouteGuardConfig<TMeta>,
+	): this;
+	registerRouteGuard<R extends RouteName<TRoutes>>(
+		routeName: R,
+		guard: TypedGuardFn<TRoutes, R, TMeta> | RouteGuardConfig<TMeta>,
+		options?: GuardRegistrationOptions,
+	): GuardRegistration;
+	addLeaveGuard(routeName: RouteName<TRoutes>, guard: LeaveGuardFn<TMeta>, options?: GuardRegistrationOptions): this;
+	removeLeaveGuard(routeName: RouteName<TRoutes>, guard: LeaveGuardFn<TMeta>): this;
+	registerLeaveGuard(
+		routeName: RouteName<TRoutes>,
+		guard: LeaveGuardFn<TMeta>,
+		options?: GuardRegistrationOptions,
+	): GuardRegistration;
+	getRouteMeta<R extends RouteName<TRoutes>>(routeName: R): Readonly<RouteMetaOf<TRouteMeta, R, TMeta>>;
+	setRouteMeta(routeName: RouteName<TRoutes>, meta: TMeta): this;
+	addResolver<R extends RouteName<TRoutes>>(
+		routeName: R,
+		key: string,
+		resolver: (context: TypedGuardContext<TRoutes, R, TMeta>) => unknown,
+	): this;
+	removeResolver(routeName: RouteName<TRoutes>, key: string): this;
+	getResolvedData(routeName: RouteName<TRoutes>): Readonly<Record<string, unknown>> | undefined;
 }
+
+/**
+ * {@link GuardRouter} whose route-name parameters only accept the routes of a
+ * route map, with per-route parameter, guard context, and metadata types.
+ * Typos in route names and missing route parameters fail at compile time.
+ *
+ * Generate the maps from `manifest.json` with the `ui5-guard-router-routes`
+ * CLI, and cast the router like a `GuardRouter`:
+ *
+ * @example
+ * import type { AppRouter } from "./routes";
+ * const router = this.getOwnerComponent()!.getRouter() as AppRouter;
+ * router.navTo("employee", { id: "42" });
+ *
+ * `TRouteMeta` keys metadata shapes by route name; `getRouteMeta()` returns the
+ * route's shape combined with `TMeta`, the metadata shape shared by all routes
+ * that also types `setRouteMeta()` and the guard contexts.
+ *
+ * @since 1.7.0
+ */
+export type TypedGuardRouter<
+	TRoutes extends object,
+	TRouteMeta extends object = Record<never, never>,
+	TMeta extends object = Record<string, unknown>,
+> = Omit<GuardRouter<TMeta>, keyof TypedRouteMethods<TRoutes, TRouteMeta, TMeta>> &
+	TypedRouteMethods<TRoutes, TRouteMeta, TMeta>;
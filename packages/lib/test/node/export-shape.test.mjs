@@ -0,0 +1,116 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import { describeModuleExport } from "../../cli/export-shape.mjs";
+
+describe("describeModuleExport", () => {
+	test("describes function exports", () => {
+		for (const source of [
+			"export default function guard() { return true; }",
+			"export default async function (context) { return true; }",
+			"export default (context) => true;",
+			"export default async (context: GuardContext): Promise<boolean> => true;",
+			"export default context => true;",
+			"export default class Guard {}",
+		]) {
+			assert.deepEqual(describeModuleExport(source), { kind: "function" }, source);
+		}
+	});
+
+	test("describes array and object literals with the kind of each member", () => {
+		assert.deepEqual(describeModuleExport("export default [() => true, function () {}, 42, 'x'];"), {
+			kind: "array",
+			elements: ["function", "function", "other", "other"],
+			complete: true,
+		});
+		assert.deepEqual(describeModuleExport("export default { a: () => true, async b() {}, 'c-d': null };"), {
+			kind: "object",
+			properties: [
+				["a", "function"],
+				["b", "function"],
+				["c-d", "other"],
+			],
+			complete: true,
+		});
+	});
+
+	test("marks literals with spreads as incomplete", () => {
+		assert.deepEqual(describeModuleExport("export default [...shared, () => true];"), {
+			kind: "array",
+			elements: ["unknown", "function"],
+			complete: false,
+		});
+		assert.deepEqual(describeModuleExport("export default { ...shared, own: () => true };"), {
+			kind: "object",
+			properties: [["own", "function"]],
+			complete: false,
+		});
+	});
+
+	test("follows identifiers to their declaration in the module", () => {
+		const source = [
+			"function isAdmin() { return true; }",
+			"const isUser: GuardFn = (context) => true;",
+			"const guards = { isAdmin, isUser, label: 'x' };",
+			"export default guards satisfies Record<string, unknown>;",
+		].join("\n");
+		assert.deepEqual(describeModuleExport(source), {
+			kind: "object",
+			properties: [
+				["isAdmin", "function"],
+				["isUser", "function"],
+				["label", "other"],
+			],
+			complete: true,
+		});
+	});
+
+	test("ignores commas, brackets, and export keywords in comments and strings", () => {
+		const source = [
+			"// export default 42;",
+			"/* export default { broken: [ */",
+			"export default {",
+			"\t// a comment with a quote: don't, {",
+			'\tfirst: () => "}, ]",',
+			"\tsecond: () => `a, b ${1}`, /* , third: 1 */",
+			"};",
+		].join("\n");
+		assert.deepEqual(describeModuleExport(source), {
+			kind: "object",
+			properties: [
+				["first", "function"],
+				["second", "function"],
+			],
+			complete: true,
+		});
+	});
+
+	test("keeps nested literals inside a single member", () => {
+		assert.deepEqual(describeModuleExport("export default [(a, b) => ({ x: [a, b] }), { y: 1 }];"), {
+			kind: "array",
+			elements: ["function", "object"],
+			complete: true,
+		});
+	});
+
+	test("describes primitive exports as other", () => {
+		for (const source of ["export default 42;", "export default 'guard';", "export default null;"]) {
+			assert.deepEqual(describeModuleExport(source), { kind: "other" }, source);
+		}
+	});
+
+	test("reports exports it cannot determine as unknown", () => {
+		for (const source of [
+			"sap.ui.define([], () => { return () => true; });",
+			"export const guard = () => true;",
+			"export default createGuards();",
+			"export default imported;",
+			"export default { unclosed: () => true",
+		]) {
+			assert.deepEqual(describeModuleExport(source), { kind: "unknown" }, source);
+		}
+	});
+
+	test("stops following identifiers that reference each other", () => {
+		assert.deepEqual(describeModuleExport("const a = b;\nconst b = a;\nexport default a;"), { kind: "unknown" });
+	});
+});
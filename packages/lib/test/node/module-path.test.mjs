@@ -0,0 +1,39 @@
+import assert from "node:assert/strict";
+import { spawnSync } from "node:child_process";
+import path from "node:path";
+import { describe, test } from "node:test";
+import { fileURLToPath } from "node:url";
+import * as cli from "../../cli/module-path.mjs";
+
+const REPO_DIR = fileURLToPath(new URL("../../../..", import.meta.url));
+const GENERATOR = path.join(REPO_DIR, "scripts/generate-cli-module-path.mjs");
+
+describe("module path resolution", () => {
+	test("resolves namespace-relative paths against the component namespace", () => {
+		assert.equal(cli.resolveGuardModulePath("guards.authGuard", "my.app"), "my/app/guards/authGuard");
+		assert.equal(cli.resolveGuardModulePath("guards.authGuard", ""), "guards/authGuard");
+	});
+
+	test("resolves module: paths as absolute in dot and slash notation", () => {
+		assert.equal(cli.resolveGuardModulePath("module:shared.guards.authGuard", "my.app"), "shared/guards/authGuard");
+		assert.equal(cli.resolveGuardModulePath("module:shared/guards/authGuard", "my.app"), "shared/guards/authGuard");
+	});
+
+	test("splits the export key on the first # and names the guard after it", () => {
+		assert.deepEqual(cli.parseGuardEntry("guards.authGuard#checkRole", "my.app"), {
+			modulePath: "my/app/guards/authGuard",
+			name: "checkRole",
+			exportKey: "checkRole",
+		});
+		assert.deepEqual(cli.parseGuardEntry("module:shared.authGuard", "my.app"), {
+			modulePath: "shared/authGuard",
+			name: "authGuard",
+			exportKey: undefined,
+		});
+	});
+
+	test("is generated from the router's src/modulePath.ts", () => {
+		const result = spawnSync(process.execPath, [GENERATOR, "--check"], { encoding: "utf8" });
+		assert.equal(result.status, 0, result.stderr);
+	});
+});
@@ -0,0 +1,166 @@
+import assert from "node:assert/strict";
+import { spawnSync } from "node:child_process";
+import { mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { after, before, describe, test } from "node:test";
+import { fileURLToPath } from "node:url";
+import { generateRouteTypes, parsePatternParameters, readRoutes } from "../../cli/route-types.mjs";
+
+const LIB_DIR = fileURLToPath(new URL("../..", import.meta.url));
+const CLI = path.join(LIB_DIR, "bin/ui5-guard-router-routes.mjs");
+const FIXTURE_MANIFEST = path.join(LIB_DIR, "test/types/fixtures/manifest.json");
+const FIXTURE_ROUTES = path.join(LIB_DIR, "test/types/fixtures/routes.d.ts");
+
+function manifestWith(routes, guardRouter) {
+	return { "sap.ui5": { routing: { config: guardRouter ? { guardRouter } : {}, routes } } };
+}
+
+function runCli(args) {
+	return spawnSync(process.execPath, [CLI, ...args], { encoding: "utf8" });
+}
+
+describe("parsePatternParameters", () => {
+	test("reads mandatory and optional parameters", () => {
+		assert.deepEqual(parsePatternParameters("employees/{id}/:tab:"), [
+			{ key: "id", optional: false, query: false },
+			{ key: "tab", optional: true, query: false },
+		]);
+	});
+
+	test("keys query parameters with their question mark", () => {
+		assert.deepEqual(parsePatternParameters("search{?query}"), [{ key: "?query", optional: false, query: true }]);
+		assert.deepEqual(parsePatternParameters("search:?query:"), [{ key: "?query", optional: true, query: true }]);
+	});
+
+	test("keys rest parameters with their asterisk", () => {
+		assert.deepEqual(parsePatternParameters("files/:path*:"), [{ key: "path*", optional: true, query: false }]);
+		assert.deepEqual(parsePatternParameters("files/{path*}"), [{ key: "path*", optional: false, query: false }]);
+	});
+
+	test("returns no parameters for static patterns", () => {
+		assert.deepEqual(parsePatternParameters(""), []);
+		assert.deepEqual(parsePatternParameters("settings/profile"), []);
+	});
+});
+
+describe("readRoutes", () => {
+	test("reads routes declared as an array", () => {
+		const manifest = manifestWith([
+			{ name: "home", pattern: "" },
+			{ name: "detail", pattern: "detail/{id}" },
+		]);
+		assert.deepEqual(readRoutes(manifest), [
+			{ name: "home", pattern: "" },
+			{ name: "detail", pattern: "detail/{id}" },
+		]);
+	});
+
+	test("reads routes declared as an object keyed by name", () => {
+		const manifest = manifestWith({ home: { pattern: "" }, detail: { name: "item", pattern: "item/{id}" } });
+		assert.deepEqual(readRoutes(manifest), [
+			{ name: "home", pattern: "" },
+			{ name: "item", pattern: "item/{id}" },
+		]);
+	});
+
+	test("skips invalid entries and defaults missing patterns", () => {
+		const manifest = manifestWith([{ name: "noPattern" }, { pattern: "nameless" }, null, "home"]);
+		assert.deepEqual(readRoutes(manifest), [{ name: "noPattern", pattern: "" }]);
+	});
+
+	test("returns no routes without a routing section", () => {
+		assert.deepEqual(readRoutes({}), []);
+		assert.deepEqual(readRoutes(undefined), []);
+	});
+});
+
+describe("generateRouteTypes", () => {
+	test("emits route parameters, metadata shapes, and the typed router", () => {
+		const manifest = manifestWith(
+			[
+				{ name: "home", pattern: "" },
+				{ name: "employee", pattern: "employees/{id}/:tab:" },
+				{ name: "search", pattern: "search:?query:" },
+				{ name: "not-an-identifier", pattern: "x" },
+			],
+			{ routeMeta: { employee: { section: "hr", level: 1, tags: ["a", 1], extra: null }, home: "invalid" } },
+		);
+		assert.equal(
+			generateRouteTypes(manifest, { source: "webapp/manifest.json" }),
+			[
+				"// Generated by ui5-guard-router-routes from webapp/manifest.json. Do not edit.",
+				'import type { TypedGuardRouter } from "ui5/guard/router/types";',
+				"",
+				"export type Routes = {",
+				"\thome: Record<string, never>;",
+				"\temployee: { id: string; tab?: string };",
+				'\tsearch: { "?query"?: Record<string, string> };',
+				'\t"not-an-identifier": Record<string, never>;',
+				"};",
+				"",
+				"export type RouteMeta = {",
+				"\temployee: { section: string; level: number; tags: (string | number)[]; extra: null };",
+				"};",
+				"",
+				"export type RouteName = keyof Routes;",
+				"",
+				"export type AppRouter = TypedGuardRouter<Routes, RouteMeta>;",
+				"",
+			].join("\n"),
+		);
+	});
+
+	test("omits the source from the header when not given", () => {
+		const [header] = generateRouteTypes(manifestWith([])).split("\n");
+		assert.equal(header, "// Generated by ui5-guard-router-routes. Do not edit.");
+	});
+
+	test("matches the committed fixture used by the type tests", async () => {
+		const manifest = JSON.parse(await readFile(FIXTURE_MANIFEST, "utf8"));
+		assert.equal(generateRouteTypes(manifest, { source: "manifest.json" }), await readFile(FIXTURE_ROUTES, "utf8"));
+	});
+});
+
+describe("ui5-guard-router-routes CLI", () => {
+	let dir;
+
+	before(async () => {
+		dir = await mkdtemp(path.join(tmpdir(), "guard-router-routes-"));
+		await writeFile(
+			path.join(dir, "manifest.json"),
+			JSON.stringify(manifestWith([{ name: "detail", pattern: "detail/{id}" }])),
+		);
+	});
+
+	after(async () => {
+		await rm(dir, { recursive: true, force: true });
+	});
+
+	test("writes routes.d.ts next to the manifest", async () => {
+		const result = runCli([path.join(dir, "manifest.json")]);
+		assert.equal(result.status, 0, result.stderr);
+		const contents = await readFile(path.join(dir, "routes.d.ts"), "utf8");
+		assert.match(contents, /^\/\/ Generated by ui5-guard-router-routes from manifest\.json\. Do not edit\./u);
+		assert.match(contents, /\tdetail: \{ id: string \};/u);
+	});
+
+	test("--check passes for an up-to-date file and fails for an outdated one", async () => {
+		const manifest = path.join(dir, "manifest.json");
+		const out = path.join(dir, "custom.d.ts");
+		assert.equal(runCli([manifest, "--out", out]).status, 0);
+		assert.equal(runCli([manifest, "--out", out, "--check"]).status, 0);
+
+		await writeFile(out, "// stale\n");
+		const result = runCli([manifest, "--out", out, "--check"]);
+		assert.equal(result.status, 1);
+		assert.match(result.stderr, /is outdated/u);
+		assert.equal(await readFile(out, "utf8"), "// stale\n", "--check does not write");
+	});
+
+	test("fails for a missing manifest", () => {
+		const result = runCli([path.join(dir, "missing.json")]);
+		assert.equal(result.status, 1);
+		assert.match(result.stderr, /ENOENT/u);
+	});
+});
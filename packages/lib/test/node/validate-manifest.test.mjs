@@ -0,0 +1,283 @@
+import assert from "node:assert/strict";
+import { spawnSync } from "node:child_process";
+import { mkdir, mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { after, before, describe, test } from "node:test";
+import { fileURLToPath } from "node:url";
+import { validateManifest } from "../../cli/validate-manifest.mjs";
+
+const LIB_DIR = fileURLToPath(new URL("../..", import.meta.url));
+const CLI = path.join(LIB_DIR, "bin/ui5-guard-router-validate.mjs");
+
+const ROUTES = [
+	{ name: "home", pattern: "" },
+	{ name: "admin", pattern: "admin" },
+];
+
+/** Module sources of the fixture webapp, keyed by path relative to it. */
+const SOURCES = {
+	"guards/auth.ts": "export default (context) => true;",
+	"guards/roles.ts": "export default { isAdmin: () => true, label: 'x' };",
+	"guards/list.js": "export default [() => true, 42];",
+	"guards/empty.ts": "export default [];",
+	"guards/legacy.js": "sap.ui.define([], () => () => true);",
+	"resolvers/user.ts": "export default { load: async () => ({}) };",
+	"errorHandler.ts": "export default 42;",
+};
+
+function manifestWith(guardRouter, routes = ROUTES) {
+	return {
+		"sap.app": { id: "my.app" },
+		"sap.ui5": { routing: { config: { guardRouter }, routes } },
+	};
+}
+
+function runCli(args) {
+	return spawnSync(process.execPath, [CLI, ...args], { encoding: "utf8" });
+}
+
+/** Diagnostics reduced to `[severity, code, path]` for comparison. */
+function summarize(diagnostics) {
+	return diagnostics.map(({ severity, code, path: location }) => [severity, code, location]);
+}
+
+let webapp;
+
+before(async () => {
+	webapp = await mkdtemp(path.join(tmpdir(), "guard-router-validate-"));
+	for (const [file, source] of Object.entries(SOURCES)) {
+		await mkdir(path.dirname(path.join(webapp, file)), { recursive: true });
+		await writeFile(path.join(webapp, file), source);
+	}
+});
+
+after(async () => {
+	await rm(webapp, { recursive: true, force: true });
+});
+
+describe("validateManifest", () => {
+	test("accepts a valid configuration", async () => {
+		const manifest = manifestWith({
+			guards: {
+				"*": { enter: ["guards.auth"], leave: ["guards.roles#isAdmin"] },
+				admin: ["guards.auth", { module: "guards.list#0", priority: 1 }],
+			},
+			routeMeta: { admin: { requiresAuth: true } },
+			resolve: { admin: { user: "resolvers.user#load" } },
+			defaultDenyRoute: "home",
+		});
+		assert.deepEqual(await validateManifest(manifest, { webapp }), []);
+	});
+
+	test("returns no diagnostics without a guardRouter block", async () => {
+		assert.deepEqual(await validateManifest({}), []);
+		assert.deepEqual(await validateManifest(manifestWith(undefined)), []);
+	});
+
+	test("reports unknown routes in guards, routeMeta, resolve, and route options", async () => {
+		const manifest = manifestWith({
+			guards: { "*": ["guards.auth"], admni: ["guards.auth"] },
+			routeMeta: { hoem: {} },
+			resolve: { settings: { user: "resolvers.user#load" } },
+			defaultDenyRoute: "login",
+			access: { deniedRoute: "forbidden" },
+		});
+		assert.deepEqual(summarize(await validateManifest(manifest)), [
+			["warning", "unknown-route", 'guardRouter.guards["admni"]'],
+			["warning", "unknown-route", 'guardRouter.routeMeta["hoem"]'],
+			["warning", "unknown-route", 'guardRouter.resolve["settings"]'],
+			["warning", "unknown-route", "guardRouter.defaultDenyRoute"],
+			["warning", "unknown-route", "guardRouter.access.deniedRoute"],
+		]);
+	});
+
+	test("reports unknown routes as errors when unknownRouteRegistration is throw", async () => {
+		const manifest = manifestWith({ unknownRouteRegistration: "throw", routeMeta: { hoem: {} } });
+		assert.deepEqual(summarize(await validateManifest(manifest)), [
+			["error", "unknown-route", 'guardRouter.routeMeta["hoem"]'],
+		]);
+	});
+
+	test("checks option values against the JSON Schema", async () => {
+		const manifest = manifestWith({
+			guardTimeout: -1,
+			guardTimeoutPolicy: "allow",
+			maxRedirectDepth: 1.5,
+			redirectLoopPolicy: "loop",
+			busyIndicator: { delay: 100, kontrol: "app" },
+			access: { metaKey: "roles" },
+			errorHandler: "",
+			guardTimout: 100,
+		});
+		const diagnostics = await validateManifest(manifest);
+		assert.deepEqual(summarize(diagnostics), [
+			["warning", "invalid-option", "guardRouter.guardTimeout"],
+			["warning", "invalid-option", "guardRouter.maxRedirectDepth"],
+			["warning", "invalid-option", "guardRouter.redirectLoopPolicy"],
+			["warning", "invalid-option", "guardRouter.busyIndicator"],
+			["warning", "invalid-option", "guardRouter.errorHandler"],
+			["warning", "unknown-option", "guardRouter.guardTimout"],
+		]);
+		assert.equal(diagnostics[0].message, "invalid value -1, default used");
+	});
+
+	test("reports a fallback loop policy without a fallback route", async () => {
+		const manifest = manifestWith({ redirectLoopPolicy: "fallback" });
+		assert.deepEqual(summarize(await validateManifest(manifest)), [
+			["warning", "invalid-option", "guardRouter.redirectLoopPolicy"],
+		]);
+		const complete = manifestWith({ redirectLoopPolicy: "fallback", redirectLoopFallback: "home" });
+		assert.deepEqual(await validateManifest(complete), []);
+	});
+
+	test("reports malformed blocks, entries, and options", async () => {
+		const manifest = manifestWith({
+			guards: {
+				home: "guards.auth",
+				admin: { enter: [42, { module: "guards.auth", priority: "high" }], parallel: "yes" },
+			},
+			routeMeta: { home: true },
+			resolve: { admin: { user: 1 } },
+		});
+		assert.deepEqual(summarize(await validateManifest(manifest)), [
+			["error", "invalid-guard-block", 'guardRouter.guards["home"]'],
+			["warning", "invalid-guard-option", 'guardRouter.guards["admin"].parallel'],
+			["error", "invalid-guard-entry", 'guardRouter.guards["admin"].enter[0]'],
+			["warning", "invalid-guard-option", 'guardRouter.guards["admin"].enter[1].priority'],
+			["error", "invalid-route-meta", 'guardRouter.routeMeta["home"]'],
+			["error", "invalid-resolve", 'guardRouter.resolve["admin"].user'],
+		]);
+	});
+
+	test("resolves namespace-relative and module: paths", async () => {
+		const manifest = manifestWith({
+			guards: {
+				home: ["guards.auth", "module:my.app.guards.auth", "module:my/app/guards/auth", "module:shared.guard"],
+			},
+		});
+		const diagnostics = await validateManifest(manifest, { webapp });
+		assert.deepEqual(summarize(diagnostics), [["info", "module-external", 'guardRouter.guards["home"][3]']]);
+		assert.equal(diagnostics[0].module, "shared/guard");
+	});
+
+	test("reports missing module files", async () => {
+		const manifest = manifestWith({ guards: { home: ["guards.missing"] }, errorHandler: "handlers.missing" });
+		const diagnostics = await validateManifest(manifest, { webapp });
+		assert.deepEqual(summarize(diagnostics), [
+			["error", "module-not-found", 'guardRouter.guards["home"][0]'],
+			["error", "module-not-found", "guardRouter.errorHandler"],
+		]);
+		assert.equal(diagnostics[0].module, "my/app/guards/missing");
+	});
+
+	test("checks export keys against object and array exports", async () => {
+		const manifest = manifestWith({
+			guards: {
+				home: ["guards.roles#isAdmin", "guards.roles#isUser", "guards.roles#label", "guards.roles"],
+				admin: ["guards.list#0", "guards.list#1", "guards.list#2", "guards.list"],
+			},
+		});
+		assert.deepEqual(summarize(await validateManifest(manifest, { webapp })), [
+			["error", "export-not-found", 'guardRouter.guards["home"][1]'],
+			["error", "export-not-function", 'guardRouter.guards["home"][2]'],
+			["warning", "export-not-function", 'guardRouter.guards["home"][3]'],
+			["error", "export-not-function", 'guardRouter.guards["admin"][1]'],
+			["error", "export-not-found", 'guardRouter.guards["admin"][2]'],
+			["warning", "export-not-function", 'guardRouter.guards["admin"][3]'],
+		]);
+	});
+
+	test("checks the enter and leave blocks of the * key", async () => {
+		const manifest = manifestWith({ guards: { "*": { enter: ["guards.empty"], leave: ["guards.missing"] } } });
+		assert.deepEqual(summarize(await validateManifest(manifest, { webapp })), [
+			["error", "empty-export", 'guardRouter.guards["*"].enter[0]'],
+			["error", "module-not-found", 'guardRouter.guards["*"].leave[0]'],
+		]);
+	});
+
+	test("checks resolver and error handler exports as functions", async () => {
+		const manifest = manifestWith({
+			resolve: { admin: { user: "resolvers.user#load", other: "resolvers.user#save" } },
+			errorHandler: "errorHandler",
+		});
+		assert.deepEqual(summarize(await validateManifest(manifest, { webapp })), [
+			["error", "export-not-function", 'guardRouter.resolve["admin"].other'],
+			["error", "export-not-function", "guardRouter.errorHandler"],
+		]);
+	});
+
+	test("reports exports it cannot determine as info", async () => {
+		const manifest = manifestWith({ guards: { home: ["guards.legacy"] } });
+		const diagnostics = await validateManifest(manifest, { webapp });
+		assert.deepEqual(summarize(diagnostics), [["info", "export-not-checked", 'guardRouter.guards["home"][0]']]);
+		assert.equal(diagnostics[0].file, path.join(webapp, "guards/legacy.js"));
+	});
+});
+
+describe("ui5-guard-router-validate CLI", () => {
+	const writeManifest = async (name, guardRouter) => {
+		const file = path.join(webapp, name);
+		await writeFile(file, JSON.stringify(manifestWith(guardRouter)));
+		return file;
+	};
+
+	test("exits with 0 for a valid manifest", async () => {
+		const result = runCli([await writeManifest("valid.json", { guards: { home: ["guards.auth"] } })]);
+		assert.equal(result.status, 0, result.stdout + result.stderr);
+		assert.equal(result.stdout, "");
+	});
+
+	test("exits with 1 on errors and prints one line per diagnostic", async () => {
+		const result = runCli([await writeManifest("errors.json", { guards: { home: ["guards.missing"] } })]);
+		assert.equal(result.status, 1);
+		assert.match(
+			result.stdout,
+			/errors\.json: error guardRouter\.guards\["home"\]\[0\]: .* \(module-not-found\)\n$/u,
+		);
+	});
+
+	test("exits with 1 on warnings only with --strict", async () => {
+		const manifest = await writeManifest("warnings.json", { routeMeta: { hoem: {} } });
+		assert.equal(runCli([manifest]).status, 0);
+		assert.equal(runCli([manifest, "--strict"]).status, 1);
+	});
+
+	test("does not fail on info diagnostics with --strict", async () => {
+		const manifest = await writeManifest("info.json", { guards: { home: ["guards.legacy"] } });
+		assert.equal(runCli([manifest, "--strict"]).status, 0);
+	});
+
+	test("prints the diagnostics as JSON with --json", async () => {
+		const manifest = await writeManifest("json.json", { guards: { home: ["guards.missing"] } });
+		const result = runCli([manifest, "--json"]);
+		assert.equal(result.status, 1);
+		assert.deepEqual(JSON.parse(result.stdout), [
+			{
+				severity: "error",
+				code: "module-not-found",
+				path: 'guardRouter.guards["home"][0]',
+				module: "my/app/guards/missing",
+				message: "no .ts or .js file found for the module",
+			},
+		]);
+	});
+
+	test("resolves modules against --webapp", async () => {
+		const dir = await mkdtemp(path.join(tmpdir(), "guard-router-manifest-"));
+		try {
+			const manifest = path.join(dir, "manifest.json");
+			await writeFile(manifest, JSON.stringify(manifestWith({ guards: { home: ["guards.auth"] } })));
+			assert.equal(runCli([manifest]).status, 1);
+			assert.equal(runCli([manifest, "--webapp", webapp]).status, 0);
+		} finally {
+			await rm(dir, { recursive: true, force: true });
+		}
+	});
+
+	test("fails for a missing manifest", () => {
+		const result = runCli([path.join(webapp, "missing.json")]);
+		assert.equal(result.status, 1);
+		assert.match(result.stderr, /ENOENT/u);
+	});
+});
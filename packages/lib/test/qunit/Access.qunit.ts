@@ -0,0 +1,170 @@
+import HashChanger from "sap/ui/core/routing/HashChanger";
+import NavigationOutcome from "ui5/guard/router/NavigationOutcome";
+import type { GuardRouter, PermissionProvider } from "ui5/guard/router/types";
+import { captureWarnings, captureWarningsAsync, GuardRouterClass, initHashChanger, waitForRoute } from "./testHelpers";
+
+let router: GuardRouter;
+
+function createAccessRouter(guardRouter: Record<string, unknown>): GuardRouter {
+	return new GuardRouterClass(
+		[
+			{ name: "home", pattern: "" },
+			{ name: "login", pattern: "login" },
+			{ name: "forbidden", pattern: "forbidden" },
+			{ name: "reports", pattern: "reports" },
+			{ name: "admin", pattern: "admin" },
+			{ name: "adminUsers", pattern: "admin/users" },
+		],
+		{ async: true, guardRouter } as object,
+	);
+}
+
+function createProvider(authenticated: boolean, roles: string[]): PermissionProvider {
+	return {
+		isAuthenticated: () => authenticated,
+		hasPermission: (required) => required.some((role) => roles.includes(role)),
+	};
+}
+
+const routeMeta = {
+	reports: { roles: true },
+	admin: { roles: ["admin"] },
+};
+
+async function startRouter(guardRouter: Record<string, unknown>, provider: PermissionProvider | null): Promise<void> {
+	router = createAccessRouter(guardRouter);
+	router.setPermissionProvider(provider);
+	router.initialize();
+	await waitForRoute(router, "home");
+}
+
+QUnit.module("Router - Access control", {
+	beforeEach: function () {
+		initHashChanger();
+	},
+	afterEach: function () {
+		router.destroy();
+		HashChanger.getInstance().setHash("");
+	},
+});
+
+QUnit.test("routes without the meta key are public", async function (assert: Assert) {
+	let asked = false;
+	await startRouter(
+		{ access: {}, routeMeta },
+		{
+			isAuthenticated: () => {
+				asked = true;
+				return false;
+			},
+			hasPermission: () => false,
+		},
+	);
+
+	const result = await router.navigate("login");
+	assert.strictEqual(result.status, NavigationOutcome.Committed, "Public route committed");
+	assert.notOk(asked, "Provider not consulted");
+});
+
+QUnit.test("grants access when the provider allows", async function (assert: Assert) {
+	await startRouter({ access: {}, routeMeta }, createProvider(true, ["admin"]));
+
+	assert.strictEqual((await router.navigate("admin")).status, NavigationOutcome.Committed, "Role route committed");
+	assert.strictEqual(
+		(await router.navigate("reports")).status,
+		NavigationOutcome.Committed,
+		"true requires authentication only",
+	);
+});
+
+QUnit.test("redirects to unauthenticatedRoute and deniedRoute", async function (assert: Assert) {
+	const access = { deniedRoute: "forbidden", unauthenticatedRoute: "login" };
+	await startRouter({ access, routeMeta }, createProvider(false, []));
+
+	const unauthenticated = await router.navigate("admin");
+	assert.strictEqual(unauthenticated.status, NavigationOutcome.Redirected, "Redirected");
+	assert.strictEqual(unauthenticated.route, "login", "Unauthenticated user sent to login");
+
+	router.setPermissionProvider(createProvider(true, ["user"]));
+	const denied = await router.navigate("admin");
+	assert.strictEqual(denied.route, "forbidden", "User without the role sent to forbidden");
+});
+
+QUnit.test("blocks with a reason when no redirect route is configured", async function (assert: Assert) {
+	await startRouter({ access: {}, routeMeta }, createProvider(false, []));
+
+	const unauthenticated = await router.navigate("reports");
+	assert.strictEqual(unauthenticated.status, NavigationOutcome.Blocked, "Blocked");
+	assert.strictEqual(unauthenticated.reason, "unauthenticated", "Reason unauthenticated");
+
+	router.setPermissionProvider(createProvider(true, []));
+	const denied = await router.navigate("admin");
+	assert.strictEqual(denied.reason, "forbidden", "Reason forbidden");
+	assert.deepEqual(denied.data, { required: ["admin"] }, "Required permissions reported");
+});
+
+QUnit.test("supports async providers and a custom metaKey", async function (assert: Assert) {
+	await startRouter(
+		{
+			access: { metaKey: "permissions", deniedRoute: "forbidden" },
+			routeMeta: { admin: { permissions: "manage" } },
+		},
+		{
+			isAuthenticated: () => Promise.resolve(true),
+			hasPermission: (required) => Promise.resolve(required.includes("manage")),
+		},
+	);
+
+	const result = await router.navigate("admin");
+	assert.strictEqual(result.status, NavigationOutcome.Committed, "Async provider granted access");
+
+	router.setPermissionProvider({
+		isAuthenticated: () => Promise.resolve(true),
+		hasPermission: () => Promise.resolve(false),
+	});
+	const denied = await router.navigate("home").then(() => router.navigate("admin"));
+	assert.strictEqual(denied.route, "forbidden", "Async denial redirects");
+});
+
+QUnit.test("child routes inherit requirements under pattern-tree inheritance", async function (assert: Assert) {
+	await startRouter(
+		{ inheritance: "pattern-tree", access: { deniedRoute: "forbidden" }, routeMeta },
+		createProvider(true, []),
+	);
+
+	const result = await router.navigate("adminUsers");
+	assert.strictEqual(result.route, "forbidden", "Inherited roles enforced on the child route");
+});
+
+QUnit.test("denies restricted routes without a provider or with malformed metadata", async function (assert: Assert) {
+	await startRouter({ access: {}, routeMeta: { ...routeMeta, reports: { roles: 42 } } }, null);
+
+	const warnings = await captureWarningsAsync(async () => {
+		const missing = await router.navigate("admin");
+		assert.strictEqual(missing.status, NavigationOutcome.Blocked, "No provider denies");
+
+		router.setPermissionProvider(createProvider(true, ["admin"]));
+		const malformed = await router.navigate("reports");
+		assert.strictEqual(malformed.status, NavigationOutcome.Blocked, "Malformed metadata denies");
+	});
+	assert.ok(
+		warnings.some((w) => w.message.includes("no PermissionProvider")),
+		"Warning about the missing provider",
+	);
+	assert.ok(
+		warnings.some((w) => w.message.includes('invalid "roles" metadata')),
+		"Warning about the malformed metadata",
+	);
+});
+
+QUnit.test("invalid access options and providers are rejected with a warning", function (assert: Assert) {
+	const optionWarnings = captureWarnings(() => {
+		router = createAccessRouter({ access: { deniedRoute: 42 } });
+	});
+	assert.strictEqual(optionWarnings.length, 1, "Invalid access block warns");
+
+	const providerWarnings = captureWarnings(() => {
+		router.setPermissionProvider({ isAuthenticated: () => true } as unknown as PermissionProvider);
+	});
+	assert.strictEqual(providerWarnings.length, 1, "Incomplete provider warns");
+});
@@ -0,0 +1,272 @@
+import coreLibrary from "sap/ui/core/library";
+import HashChanger from "sap/ui/core/routing/HashChanger";
+import { allOf, anyOf, firstRedirect, not, when } from "ui5/guard/router/compose";
+import NavigationOutcome from "ui5/guard/router/NavigationOutcome";
+import type { GuardBag, GuardContext, GuardFn, GuardRouter } from "ui5/guard/router/types";
+import { createRouter, initHashChanger, waitForRoute } from "./testHelpers";
+
+function createContext(overrides: Partial<GuardContext> = {}): GuardContext {
+	const bag: GuardBag = new Map();
+	return {
+		toRoute: "target",
+		toHash: "target",
+		toArguments: {},
+		fromRoute: "",
+		fromHash: "",
+		signal: new AbortController().signal,
+		bag,
+		toMeta: Object.freeze({}),
+		fromMeta: Object.freeze({}),
+		transition: {
+			route: "target",
+			parameters: {},
+			hash: "target",
+			bag,
+			retry: () => Promise.resolve({ status: NavigationOutcome.Cancelled, route: "", hash: "" }),
+		},
+		trigger: "navTo",
+		direction: coreLibrary.routing.HistoryDirection.NewEntry,
+		...overrides,
+	};
+}
+
+const allow: GuardFn = () => true;
+const deny: GuardFn = () => false;
+const allowAsync: GuardFn = () => Promise.resolve(true);
+const denyAsync: GuardFn = () => Promise.resolve(false);
+
+// ============================================================
+// Module: allOf
+// ============================================================
+QUnit.module("compose - allOf");
+
+QUnit.test("allows synchronously when every guard allows", function (assert: Assert) {
+	assert.strictEqual(allOf(allow, allow)(createContext()), true, "Sync result");
+	assert.strictEqual(allOf()(createContext()), true, "No guards allow");
+});
+
+QUnit.test("returns the first non-true result and skips the rest", function (assert: Assert) {
+	const calls: string[] = [];
+	const guard = allOf(
+		() => {
+			calls.push("a");
+			return true;
+		},
+		() => {
+			calls.push("b");
+			return "login";
+		},
+		() => {
+			calls.push("c");
+			return false;
+		},
+	);
+	assert.strictEqual(guard(createContext()), "login", "Redirect of the second guard returned");
+	assert.deepEqual(calls, ["a", "b"], "Third guard skipped");
+});
+
+QUnit.test("switches to async at the first Promise-like result", async function (assert: Assert) {
+	const blocking = allOf(allow, allowAsync, () => ({ block: true, reason: "locked" }));
+
+	const allowed = allOf(allow, allowAsync)(createContext());
+	assert.ok(allowed instanceof Promise, "Async once a guard returns a Promise");
+	assert.strictEqual(await allowed, true, "Resolves true");
+	assert.deepEqual(await blocking(createContext()), { block: true, reason: "locked" }, "Block passed through");
+});
+
+QUnit.test("stops running guards once the signal is aborted", async function (assert: Assert) {
+	const controller = new AbortController();
+	let lastRan = false;
+	const guard = allOf(
+		() => {
+			controller.abort();
+			return Promise.resolve(true);
+		},
+		() => {
+			lastRan = true;
+			return true;
+		},
+	);
+	assert.strictEqual(await guard(createContext({ signal: controller.signal })), false, "Aborted evaluation blocks");
+	assert.notOk(lastRan, "Guard after the abort did not run");
+});
+
+QUnit.test("passes the same context to every guard", function (assert: Assert) {
+	const context = createContext();
+	const seen: GuardContext[] = [];
+	allOf(
+		(ctx) => {
+			seen.push(ctx);
+			return true;
+		},
+		(ctx) => {
+			seen.push(ctx);
+			return true;
+		},
+	)(context);
+	assert.ok(
+		seen.every((ctx) => ctx === context && ctx.signal === context.signal),
+		"Context and signal shared",
+	);
+});
+
+QUnit.test("propagates errors from sync and async guards", async function (assert: Assert) {
+	const failure = new Error("boom");
+	assert.throws(
+		() =>
+			allOf(allow, () => {
+				throw failure;
+			})(createContext()),
+		/boom/,
+		"Sync throw propagates",
+	);
+	try {
+		await allOf(allowAsync, () => Promise.reject(failure))(createContext());
+		assert.ok(false, "Should have rejected");
+	} catch (error) {
+		assert.strictEqual(error, failure, "Async rejection propagates");
+	}
+});
+
+// ============================================================
+// Module: anyOf
+// ============================================================
+QUnit.module("compose - anyOf");
+
+QUnit.test("allows at the first guard that allows", function (assert: Assert) {
+	let lastRan = false;
+	const guard = anyOf(deny, allow, () => {
+		lastRan = true;
+		return true;
+	});
+	assert.strictEqual(guard(createContext()), true, "Allowed synchronously");
+	assert.notOk(lastRan, "Guards after the allowing one skipped");
+});
+
+QUnit.test("returns the first guard's result when none allows", async function (assert: Assert) {
+	const block = { block: true as const, reason: "no-role" };
+	assert.deepEqual(anyOf(() => block, deny)(createContext()), block, "First block returned");
+	assert.strictEqual(await anyOf(denyAsync, () => "login")(createContext()), false, "First result wins async");
+	assert.strictEqual(anyOf()(createContext()), false, "No guards block");
+});
+
+QUnit.test("resolves true when an async guard allows", async function (assert: Assert) {
+	assert.strictEqual(await anyOf(denyAsync, allowAsync)(createContext()), true, "Async allow");
+});
+
+// ============================================================
+// Module: not
+// ============================================================
+QUnit.module("compose - not");
+
+QUnit.test("inverts allow and deny", async function (assert: Assert) {
+	assert.strictEqual(not(allow)(createContext()), false, "true becomes false");
+	assert.strictEqual(not(deny)(createContext()), true, "false becomes true");
+	assert.strictEqual(not(() => ({ block: true, reason: "x" }))(createContext()), true, "GuardBlock becomes true");
+	assert.strictEqual(not(() => "login")(createContext()), true, "Redirect becomes true");
+	assert.strictEqual(await not(allowAsync)(createContext()), false, "Async result inverted");
+});
+
+// ============================================================
+// Module: when
+// ============================================================
+QUnit.module("compose - when");
+
+QUnit.test("runs the guard only when the predicate holds", function (assert: Assert) {
+	const guard = when((context) => context.toMeta.requiresAuth === true, deny);
+	assert.strictEqual(guard(createContext()), true, "Predicate false allows without running the guard");
+	assert.strictEqual(
+		guard(createContext({ toMeta: Object.freeze({ requiresAuth: true }) })),
+		false,
+		"Predicate true runs the guard",
+	);
+});
+
+QUnit.test("supports async predicates", async function (assert: Assert) {
+	const guard = when(
+		() => Promise.resolve(true),
+		() => "login",
+	);
+	assert.strictEqual(await guard(createContext()), "login", "Guard ran after async predicate");
+});
+
+QUnit.test("skips the guard when aborted during an async predicate", async function (assert: Assert) {
+	const controller = new AbortController();
+	let ran = false;
+	const guard = when(
+		() => {
+			controller.abort();
+			return Promise.resolve(true);
+		},
+		() => {
+			ran = true;
+			return false;
+		},
+	);
+	await guard(createContext({ signal: controller.signal }));
+	assert.notOk(ran, "Guard did not run");
+});
+
+// ============================================================
+// Module: firstRedirect
+// ============================================================
+QUnit.module("compose - firstRedirect");
+
+QUnit.test("returns the first redirect and ignores non-redirect results", async function (assert: Assert) {
+	const target = { route: "detail", parameters: { id: "1" } };
+	assert.strictEqual(
+		firstRedirect(
+			deny,
+			() => "login",
+			() => "onboarding",
+		)(createContext()),
+		"login",
+		"String",
+	);
+	assert.deepEqual(await firstRedirect(allowAsync, () => target)(createContext()), target, "GuardRedirect");
+	assert.strictEqual(firstRedirect(deny, allow)(createContext()), true, "Allows when no guard redirects");
+});
+
+// ============================================================
+// Module: composed guards on the router
+// ============================================================
+let router: GuardRouter;
+
+QUnit.module("compose - with Router", {
+	beforeEach: function () {
+		initHashChanger();
+		router = createRouter();
+	},
+	afterEach: function () {
+		router.destroy();
+		HashChanger.getInstance().setHash("");
+	},
+});
+
+QUnit.test("composed enter and leave guards drive navigation", async function (assert: Assert) {
+	router.addRouteGuard(
+		"protected",
+		allOf(
+			allowAsync,
+			when(
+				() => true,
+				() => "forbidden",
+			),
+		),
+	);
+	router.initialize();
+	await waitForRoute(router, "home");
+
+	const redirected = await router.navigate("protected");
+	assert.strictEqual(redirected.route, "forbidden", "Redirected by the composed enter guard");
+
+	router.addLeaveGuard(
+		"forbidden",
+		anyOf(
+			() => false,
+			not(() => true),
+		),
+	);
+	const blocked = await router.navigate("home");
+	assert.strictEqual(blocked.status, NavigationOutcome.Blocked, "Blocked by the composed leave guard");
+});
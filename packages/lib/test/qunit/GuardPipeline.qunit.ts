@@ -1,6 +1,10 @@
 import Log from "sap/base/Log";
+import coreLibrary from "sap/ui/core/library";
 import GuardPipeline from "ui5/guard/router/GuardPipeline";
-import type { GuardContext, GuardFn, LeaveGuardFn } from "ui5/guard/router/types";
+import GuardTimeoutError from "ui5/guard/router/GuardTimeoutError";
+import NavigationOutcome from "ui5/guard/router/NavigationOutcome";
+import ResolveRejection from "ui5/guard/router/ResolveRejection";
+import type { GuardBag, GuardContext, GuardFn, GuardResult, LeaveGuardFn } from "ui5/guard/router/types";
 
 /**
  * Sinon-qunit-bridge injects `stub`, `spy`, `mock` onto the QUnit test
@@ -13,6 +17,7 @@ interface SinonTestContext {
 }
 
 function createContext(overrides: Partial<GuardContext> = {}): GuardContext {
+	const bag: GuardBag = new Map();
 	return {
 		toRoute: "target",
 		toHash: "target",
@@ -20,9 +25,18 @@ function createContext(overrides: Partial<GuardContext> = {}): GuardContext {
 		fromRoute: "",
 		fromHash: "",
 		signal: new AbortController().signal,
-		bag: new Map(),
+		bag,
 		toMeta: Object.freeze({}),
 		fromMeta: Object.freeze({}),
+		transition: {
+			route: "target",
+			parameters: {},
+			hash: "target",
+			bag,
+			retry: () => Promise.resolve({ status: NavigationOutcome.Cancelled, route: "", hash: "" }),
+		},
+		trigger: "navTo",
+		direction: coreLibrary.routing.HistoryDirection.NewEntry,
 		...overrides,
 	};
 }
@@ -52,6 +66,7 @@ QUnit.test("clear removes all guards", function (assert: Assert) {
 	pipeline.addGlobalGuard(() => false);
 	pipeline.addEnterGuard("target", () => false);
 	pipeline.addLeaveGuard("current", () => false);
+	pipeline.addGlobalLeaveGuard(() => false);
 
 	pipeline.clear();
 
@@ -89,6 +104,16 @@ QUnit.test("removeLeaveGuard removes by reference", function (assert: Assert) {
 	assert.deepEqual(result, { action: "allow" }, "Leave guard removed");
 });
 
+QUnit.test("removeGlobalLeaveGuard removes by reference", function (assert: Assert) {
+	const pipeline = new GuardPipeline();
+	const guard: LeaveGuardFn = () => false;
+	pipeline.addGlobalLeaveGuard(guard);
+	pipeline.removeGlobalLeaveGuard(guard);
+
+	const result = pipeline.evaluate(createContext({ fromRoute: "current" }));
+	assert.deepEqual(result, { action: "allow" }, "Global leave guard removed");
+});
+
 QUnit.test("removing a never-added guard is a no-op", function (assert: Assert) {
 	const pipeline = new GuardPipeline();
 	const guard: GuardFn = () => false;
@@ -111,14 +136,18 @@ QUnit.test("global guard returning false blocks", function (assert: Assert) {
 	const pipeline = new GuardPipeline();
 	pipeline.addGlobalGuard(() => false);
 	const result = pipeline.evaluate(createContext());
-	assert.deepEqual(result, { action: "block" });
+	assert.deepEqual(result, { action: "block", decidedBy: { phase: "global", index: 0, route: "target" } });
 });
 
 QUnit.test("global guard returning string redirects", function (assert: Assert) {
 	const pipeline = new GuardPipeline();
 	pipeline.addGlobalGuard(() => "login");
 	const result = pipeline.evaluate(createContext());
-	assert.deepEqual(result, { action: "redirect", target: "login" });
+	assert.deepEqual(result, {
+		action: "redirect",
+		target: "login",
+		decidedBy: { phase: "global", index: 0, route: "target" },
+	});
 });
 
 QUnit.test("global guard returning GuardRedirect object redirects", function (assert: Assert) {
@@ -126,7 +155,11 @@ QUnit.test("global guard returning GuardRedirect object redirects", function (as
 	const redirect = { route: "login", parameters: { reason: "auth" } };
 	pipeline.addGlobalGuard(() => redirect);
 	const result = pipeline.evaluate(createContext());
-	assert.deepEqual(result, { action: "redirect", target: redirect });
+	assert.deepEqual(result, {
+		action: "redirect",
+		target: redirect,
+		decidedBy: { phase: "global", index: 0, route: "target" },
+	});
 });
 
 QUnit.test("first non-true global guard short-circuits", function (assert: Assert) {
@@ -153,14 +186,18 @@ QUnit.test("route enter guard blocks", function (assert: Assert) {
 	const pipeline = new GuardPipeline();
 	pipeline.addEnterGuard("target", () => false);
 	const result = pipeline.evaluate(createContext());
-	assert.deepEqual(result, { action: "block" });
+	assert.deepEqual(result, { action: "block", decidedBy: { phase: "route", index: 0, route: "target" } });
 });
 
 QUnit.test("route enter guard redirects", function (assert: Assert) {
 	const pipeline = new GuardPipeline();
 	pipeline.addEnterGuard("target", () => "other");
 	const result = pipeline.evaluate(createContext());
-	assert.deepEqual(result, { action: "redirect", target: "other" });
+	assert.deepEqual(result, {
+		action: "redirect",
+		target: "other",
+		decidedBy: { phase: "route", index: 0, route: "target" },
+	});
 });
 
 QUnit.test("route enter guard returning GuardRedirect object redirects", function (assert: Assert) {
@@ -168,7 +205,11 @@ QUnit.test("route enter guard returning GuardRedirect object redirects", functio
 	const redirect = { route: "login", parameters: { reason: "expired" } };
 	pipeline.addEnterGuard("target", () => redirect);
 	const result = pipeline.evaluate(createContext());
-	assert.deepEqual(result, { action: "redirect", target: redirect });
+	assert.deepEqual(result, {
+		action: "redirect",
+		target: redirect,
+		decidedBy: { phase: "route", index: 0, route: "target" },
+	});
 });
 
 // ============================================================
@@ -245,7 +286,7 @@ QUnit.test("leave guard blocks and skips enter guards", function (assert: Assert
 	});
 
 	const result = pipeline.evaluate(createContext({ fromRoute: "current" }));
-	assert.deepEqual(result, { action: "block" });
+	assert.deepEqual(result, { action: "block", decidedBy: { phase: "leave", index: 0, route: "current" } });
 	assert.deepEqual(called, ["leave"], "Enter guards never called");
 });
 
@@ -289,10 +330,76 @@ QUnit.test("multiple leave guards run in order and short-circuit on first false"
 	});
 
 	const result2 = pipeline2.evaluate(createContext({ fromRoute: "current" }));
-	assert.deepEqual(result2, { action: "block" });
+	assert.deepEqual(result2, { action: "block", decidedBy: { phase: "leave", index: 1, route: "current" } });
 	assert.deepEqual(called, [1, 2], "Third leave guard never called");
 });
 
+QUnit.test("global leave guards run before route leave guards", function (assert: Assert) {
+	const pipeline = new GuardPipeline();
+	const order: string[] = [];
+	pipeline.addLeaveGuard("current", () => {
+		order.push("route");
+		return true;
+	});
+	pipeline.addGlobalLeaveGuard(() => {
+		order.push("global");
+		return true;
+	});
+
+	const result = pipeline.evaluate(createContext({ fromRoute: "current" }));
+	assert.deepEqual(result, { action: "allow" });
+	assert.deepEqual(order, ["global", "route"], "Global leave guard ran first");
+});
+
+QUnit.test("global leave guard blocks without route leave guards", function (assert: Assert) {
+	const pipeline = new GuardPipeline();
+	const called: string[] = [];
+	pipeline.addGlobalLeaveGuard(() => {
+		called.push("globalLeave");
+		return false;
+	});
+	pipeline.addLeaveGuard("current", () => {
+		called.push("routeLeave");
+		return true;
+	});
+	pipeline.addGlobalGuard(() => {
+		called.push("globalEnter");
+		return true;
+	});
+
+	const result = pipeline.evaluate(createContext({ fromRoute: "other" }));
+	assert.deepEqual(
+		result,
+		{ action: "block", decidedBy: { phase: "leave", index: 0, route: "other" } },
+		"Blocks when leaving a route with no leave guards",
+	);
+	assert.deepEqual(called, ["globalLeave"], "Enter guards never called");
+});
+
+QUnit.test("global leave guards skipped when fromRoute is empty string", function (assert: Assert) {
+	const pipeline = new GuardPipeline();
+	pipeline.addGlobalLeaveGuard(() => false);
+	const result = pipeline.evaluate(createContext());
+	assert.deepEqual(result, { action: "allow" }, "No leave guards checked for empty fromRoute");
+});
+
+QUnit.test("async global leave guard block skips route leave guards", async function (assert: Assert) {
+	const pipeline = new GuardPipeline();
+	const called: string[] = [];
+	pipeline.addGlobalLeaveGuard(async () => {
+		called.push("globalLeave");
+		return false;
+	});
+	pipeline.addLeaveGuard("current", () => {
+		called.push("routeLeave");
+		return true;
+	});
+
+	const result = await pipeline.evaluate(createContext({ fromRoute: "current" }));
+	assert.deepEqual(result, { action: "block", decidedBy: { phase: "leave", index: 0, route: "current" } });
+	assert.deepEqual(called, ["globalLeave"], "Route leave guard never called");
+});
+
 // ============================================================
 // Module: validation
 // ============================================================
@@ -303,17 +410,25 @@ QUnit.test("invalid return values treated as block", function (this: SinonTestCo
 
 	const p1 = new GuardPipeline();
 	p1.addGlobalGuard((() => 42) as unknown as GuardFn);
-	assert.deepEqual(p1.evaluate(createContext()), { action: "block" }, "Number treated as block");
+	assert.deepEqual(
+		p1.evaluate(createContext()),
+		{ action: "block", decidedBy: { phase: "global", index: 0, route: "target" } },
+		"Number treated as block",
+	);
 
 	const p2 = new GuardPipeline();
 	p2.addGlobalGuard((() => "") as unknown as GuardFn);
-	assert.deepEqual(p2.evaluate(createContext()), { action: "block" }, "Empty string treated as block");
+	assert.deepEqual(
+		p2.evaluate(createContext()),
+		{ action: "block", decidedBy: { phase: "global", index: 0, route: "target" } },
+		"Empty string treated as block",
+	);
 
 	const p3 = new GuardPipeline();
 	p3.addLeaveGuard("current", (() => "nope") as unknown as LeaveGuardFn);
 	assert.deepEqual(
 		p3.evaluate(createContext({ fromRoute: "current" })),
-		{ action: "block" },
+		{ action: "block", decidedBy: { phase: "leave", index: 0, route: "current" } },
 		"Leave guard non-boolean treated as block",
 	);
 
@@ -335,7 +450,7 @@ QUnit.test("throwing guards produce error decisions and log errors", function (t
 	});
 	assert.deepEqual(
 		p1.evaluate(createContext()),
-		{ action: "error", error: enterError },
+		{ action: "error", error: enterError, decidedBy: { phase: "global", index: 0, route: "target" } },
 		"Enter guard throw → error decision",
 	);
 
@@ -346,7 +461,7 @@ QUnit.test("throwing guards produce error decisions and log errors", function (t
 	});
 	assert.deepEqual(
 		p2.evaluate(createContext({ fromRoute: "current" })),
-		{ action: "error", error: leaveError },
+		{ action: "error", error: leaveError, decidedBy: { phase: "leave", index: 0, route: "current" } },
 		"Leave guard throw → error decision",
 	);
 
@@ -360,7 +475,11 @@ QUnit.test("async guard that rejects produces error decision", async function (t
 	pipeline.addGlobalGuard(() => Promise.reject(rejectedError));
 
 	const result = await pipeline.evaluate(createContext());
-	assert.deepEqual(result, { action: "error", error: rejectedError });
+	assert.deepEqual(result, {
+		action: "error",
+		error: rejectedError,
+		decidedBy: { phase: "global", index: 0, route: "target" },
+	});
 	assert.ok(errorStub.calledOnce, "Error was logged");
 });
 
@@ -394,7 +513,11 @@ QUnit.test(
 QUnit.test("guard returning false produces block, not error", function (assert: Assert) {
 	const pipeline = new GuardPipeline();
 	pipeline.addGlobalGuard(() => false);
-	assert.deepEqual(pipeline.evaluate(createContext()), { action: "block" }, "false → block, not error");
+	assert.deepEqual(
+		pipeline.evaluate(createContext()),
+		{ action: "block", decidedBy: { phase: "global", index: 0, route: "target" } },
+		"false → block, not error",
+	);
 });
 
 // ============================================================
@@ -409,11 +532,19 @@ QUnit.test("async guard decisions", async function (assert: Assert) {
 
 	const p2 = new GuardPipeline();
 	p2.addGlobalGuard(() => Promise.resolve(false));
-	assert.deepEqual(await p2.evaluate(createContext()), { action: "block" }, "Async block");
+	assert.deepEqual(
+		await p2.evaluate(createContext()),
+		{ action: "block", decidedBy: { phase: "global", index: 0, route: "target" } },
+		"Async block",
+	);
 
 	const p3 = new GuardPipeline();
 	p3.addGlobalGuard(() => Promise.resolve("login"));
-	assert.deepEqual(await p3.evaluate(createContext()), { action: "redirect", target: "login" }, "Async redirect");
+	assert.deepEqual(
+		await p3.evaluate(createContext()),
+		{ action: "redirect", target: "login", decidedBy: { phase: "global", index: 0, route: "target" } },
+		"Async redirect",
+	);
 });
 
 QUnit.test("mixed sync-async pipeline preserves order", async function (assert: Assert) {
@@ -450,7 +581,7 @@ QUnit.test("async leave guard blocks before enter guards run", async function (a
 	});
 
 	const result = await pipeline.evaluate(createContext({ fromRoute: "current" }));
-	assert.deepEqual(result, { action: "block" });
+	assert.deepEqual(result, { action: "block", decidedBy: { phase: "leave", index: 0, route: "current" } });
 	assert.deepEqual(called, ["leave"], "Enter guards never called");
 });
 
@@ -502,11 +633,303 @@ QUnit.test(
 		pipeline.addGlobalGuard(() => Promise.resolve(42 as unknown as boolean));
 
 		const result = await pipeline.evaluate(createContext());
-		assert.deepEqual(result, { action: "block" });
+		assert.deepEqual(result, { action: "block", decidedBy: { phase: "global", index: 0, route: "target" } });
 		assert.ok(warnStub.calledOnce, "Warning logged for invalid async return");
 	},
 );
 
+// ============================================================
+// Module: timeouts
+// ============================================================
+QUnit.module("GuardPipeline - timeouts");
+
+const neverSettles = (): Promise<boolean> => new Promise<boolean>(() => {});
+
+QUnit.test(
+	"guard exceeding guardTimeout produces a GuardTimeoutError decision",
+	async function (this: SinonTestContext, assert: Assert) {
+		const errorStub = this.stub(Log, "error");
+		const pipeline = new GuardPipeline({ guardTimeout: 20 });
+		pipeline.addEnterGuard("target", neverSettles);
+
+		const result = await pipeline.evaluate(createContext());
+		assert.strictEqual(result.action, "error", "Error decision");
+		const error = (result as { error: unknown }).error;
+		assert.ok(error instanceof GuardTimeoutError, "Error is a GuardTimeoutError");
+		assert.strictEqual((error as GuardTimeoutError).timeout, 20, "Carries the exceeded timeout");
+		assert.strictEqual((error as GuardTimeoutError).route, "target", "Carries the target route");
+		assert.ok(String(errorStub.firstCall.args[0]).includes("timed out"), "Logged as a timeout");
+	},
+);
+
+QUnit.test("leave guard timeout reports the route being left", async function (this: SinonTestContext, assert: Assert) {
+	this.stub(Log, "error");
+	const pipeline = new GuardPipeline({ guardTimeout: 20 });
+	pipeline.addLeaveGuard("current", neverSettles);
+
+	const result = await pipeline.evaluate(createContext({ fromRoute: "current" }));
+	const error = (result as { error: unknown }).error;
+	assert.ok(error instanceof GuardTimeoutError, "Error is a GuardTimeoutError");
+	assert.strictEqual((error as GuardTimeoutError).route, "current", "Carries the route being left");
+});
+
+QUnit.test("per-guard timeout overrides the default", async function (this: SinonTestContext, assert: Assert) {
+	this.stub(Log, "error");
+	const pipeline = new GuardPipeline();
+	pipeline.addGlobalGuard(neverSettles, { timeout: 20 });
+
+	const result = await pipeline.evaluate(createContext());
+	const error = (result as { error: unknown }).error;
+	assert.ok(error instanceof GuardTimeoutError, "Per-guard timeout applies without a default");
+});
+
+QUnit.test("per-guard timeout of 0 disables the default", async function (assert: Assert) {
+	const pipeline = new GuardPipeline({ guardTimeout: 10 });
+	pipeline.addGlobalGuard(() => new Promise<boolean>((resolve) => setTimeout(() => resolve(true), 40)), {
+		timeout: 0,
+	});
+
+	const result = await pipeline.evaluate(createContext());
+	assert.deepEqual(result, { action: "allow" }, "Slow guard allowed to finish");
+});
+
+QUnit.test("guards settling in time are unaffected", async function (assert: Assert) {
+	const pipeline = new GuardPipeline({ guardTimeout: 200 });
+	pipeline.addGlobalGuard(() => Promise.resolve("home"));
+
+	const result = await pipeline.evaluate(createContext());
+	assert.deepEqual(
+		result,
+		{ action: "redirect", target: "home", decidedBy: { phase: "global", index: 0, route: "target" } },
+		"Guard result passes through",
+	);
+});
+
+QUnit.test(
+	"'allow' policy treats the timed-out guard as true and continues",
+	async function (this: SinonTestContext, assert: Assert) {
+		const warnStub = this.stub(Log, "warning");
+		const pipeline = new GuardPipeline({ guardTimeout: 20, guardTimeoutPolicy: "allow" });
+		const called: string[] = [];
+		pipeline.addGlobalGuard(neverSettles);
+		pipeline.addEnterGuard("target", () => {
+			called.push("route");
+			return false;
+		});
+
+		const result = await pipeline.evaluate(createContext());
+		assert.deepEqual(
+			result,
+			{ action: "block", decidedBy: { phase: "route", index: 0, route: "target" } },
+			"Next guard decides",
+		);
+		assert.deepEqual(called, ["route"], "Pipeline continued after the timeout");
+		assert.ok(String(warnStub.firstCall.args[0]).includes("timed out"), "Timeout logged as a warning");
+	},
+);
+
+QUnit.test(
+	"timeout aborts the timed-out guard's signal under every policy",
+	async function (this: SinonTestContext, assert: Assert) {
+		this.stub(Log, "warning");
+		this.stub(Log, "error");
+		for (const guardTimeoutPolicy of ["error", "block", "allow"] as const) {
+			const pipeline = new GuardPipeline({ guardTimeout: 20, guardTimeoutPolicy });
+			let guardSignal: AbortSignal | null = null;
+			pipeline.addGlobalGuard((context) => {
+				guardSignal = context.signal;
+				return neverSettles();
+			});
+			const navigation = new AbortController();
+
+			await pipeline.evaluate(createContext({ signal: navigation.signal }));
+			const signal = guardSignal as AbortSignal | null;
+			assert.strictEqual(signal?.aborted, true, `${guardTimeoutPolicy}: guard signal aborted`);
+			assert.ok(
+				signal?.reason instanceof GuardTimeoutError,
+				`${guardTimeoutPolicy}: reason is the GuardTimeoutError`,
+			);
+			assert.notOk(navigation.signal.aborted, `${guardTimeoutPolicy}: navigation signal left to the Router`);
+		}
+	},
+);
+
+QUnit.test(
+	"late result of a timed-out guard does not remove a once guard",
+	async function (this: SinonTestContext, assert: Assert) {
+		this.stub(Log, "warning");
+		const pipeline = new GuardPipeline({ guardTimeout: 20, guardTimeoutPolicy: "allow" });
+		let resolveGuard: (value: boolean) => void = () => {};
+		let calls = 0;
+		pipeline.addGlobalGuard(
+			() => {
+				calls++;
+				return new Promise<boolean>((resolve) => (resolveGuard = resolve));
+			},
+			{ once: true },
+		);
+
+		assert.deepEqual(await pipeline.evaluate(createContext()), { action: "allow" }, "Timed out and allowed");
+		resolveGuard(true);
+		await Promise.resolve();
+
+		const pending = pipeline.evaluate(createContext());
+		assert.strictEqual(calls, 2, "Guard still registered after its late result");
+		resolveGuard(true);
+		await pending;
+	},
+);
+
+QUnit.test("aborting the navigation aborts a timed guard's signal", function (assert: Assert) {
+	const pipeline = new GuardPipeline({ guardTimeout: 1000 });
+	const navigation = new AbortController();
+	let guardSignal: AbortSignal | null = null;
+	pipeline.addGlobalGuard((context) => {
+		guardSignal = context.signal;
+		return neverSettles();
+	});
+
+	void pipeline.evaluate(createContext({ signal: navigation.signal }));
+	navigation.abort("superseded");
+	const signal = guardSignal as AbortSignal | null;
+	assert.strictEqual(signal?.aborted, true, "Child signal follows the navigation");
+	assert.strictEqual(signal?.reason, "superseded", "With the navigation's reason");
+});
+
+QUnit.test("aborting the signal clears the timeout", async function (assert: Assert) {
+	const pipeline = new GuardPipeline({ guardTimeout: 20 });
+	const controller = new AbortController();
+	let resolveGuard: (value: boolean) => void = () => {};
+	pipeline.addGlobalGuard(() => new Promise<boolean>((resolve) => (resolveGuard = resolve)));
+
+	const pending = pipeline.evaluate(createContext({ signal: controller.signal }));
+	controller.abort();
+	await new Promise((resolve) => setTimeout(resolve, 40));
+	resolveGuard(true);
+
+	assert.deepEqual(await pending, { action: "allow" }, "No timeout fired after abort");
+});
+
+// ============================================================
+// Module: named guards and ordering
+// ============================================================
+QUnit.module("GuardPipeline - named guards and ordering");
+
+function recorder(calls: string[], label: string, result: boolean = true): GuardFn {
+	return () => {
+		calls.push(label);
+		return result;
+	};
+}
+
+QUnit.test("higher priority runs first, equal priority keeps registration order", function (assert: Assert) {
+	const pipeline = new GuardPipeline();
+	const calls: string[] = [];
+	pipeline.addGlobalGuard(recorder(calls, "a"));
+	pipeline.addGlobalGuard(recorder(calls, "b"), { priority: 10 });
+	pipeline.addGlobalGuard(recorder(calls, "c"));
+	pipeline.addGlobalGuard(recorder(calls, "d"), { priority: -1 });
+	pipeline.addGlobalGuard(recorder(calls, "e"), { priority: 10 });
+
+	pipeline.evaluate(createContext());
+	assert.deepEqual(calls, ["b", "e", "a", "c", "d"], "Sorted by priority, stable within a priority");
+});
+
+QUnit.test("before and after constraints reorder named guards", function (assert: Assert) {
+	const pipeline = new GuardPipeline();
+	const calls: string[] = [];
+	pipeline.addEnterGuard("target", recorder(calls, "auth"), { name: "auth" });
+	pipeline.addEnterGuard("target", recorder(calls, "audit"), { name: "audit", before: "auth" });
+	pipeline.addEnterGuard("target", recorder(calls, "featureFlag"), {
+		name: "featureFlag",
+		priority: 5,
+		after: ["auth"],
+	});
+
+	pipeline.evaluate(createContext());
+	assert.deepEqual(calls, ["audit", "auth", "featureFlag"], "Constraints win over priority");
+});
+
+QUnit.test("constraints naming a later registration apply once it registers", function (assert: Assert) {
+	const pipeline = new GuardPipeline();
+	const calls: string[] = [];
+	pipeline.addGlobalGuard(recorder(calls, "late-runner"), { after: "auth" });
+	pipeline.addGlobalGuard(recorder(calls, "unrelated"), { after: "missing" });
+
+	pipeline.evaluate(createContext());
+	assert.deepEqual(calls, ["late-runner", "unrelated"], "Unknown names are ignored");
+
+	calls.length = 0;
+	pipeline.addGlobalGuard(recorder(calls, "auth"), { name: "auth" });
+	pipeline.evaluate(createContext());
+	assert.deepEqual(calls, ["unrelated", "auth", "late-runner"], "Constraint applies after auth registers");
+});
+
+QUnit.test("constraints only apply within the same guard list", function (assert: Assert) {
+	const pipeline = new GuardPipeline();
+	const calls: string[] = [];
+	pipeline.addGlobalGuard(recorder(calls, "global"), { name: "global" });
+	pipeline.addEnterGuard("target", recorder(calls, "route"), { before: "global" });
+
+	pipeline.evaluate(createContext());
+	assert.deepEqual(calls, ["global", "route"], "Global enter guards still run before route guards");
+});
+
+QUnit.test("leave guards are ordered by priority", function (assert: Assert) {
+	const pipeline = new GuardPipeline();
+	const calls: string[] = [];
+	pipeline.addLeaveGuard("current", recorder(calls, "low"));
+	pipeline.addLeaveGuard("current", recorder(calls, "high"), { priority: 1 });
+
+	pipeline.evaluate(createContext({ fromRoute: "current" }));
+	assert.deepEqual(calls, ["high", "low"], "Leave guards sorted by priority");
+});
+
+QUnit.test(
+	"cyclic constraints warn and fall back to priority order",
+	function (this: SinonTestContext, assert: Assert) {
+		const warningStub = this.stub(Log, "warning");
+		const pipeline = new GuardPipeline();
+		const calls: string[] = [];
+		pipeline.addGlobalGuard(recorder(calls, "a"), { name: "a", before: "b" });
+		pipeline.addGlobalGuard(recorder(calls, "b"), { name: "b", before: "a" });
+
+		pipeline.evaluate(createContext());
+		assert.deepEqual(calls, ["a", "b"], "Registration order kept");
+		assert.ok(
+			warningStub.getCalls().some((call) => String(call.args[0]).includes("form a cycle")),
+			"Cycle warning logged",
+		);
+	},
+);
+
+QUnit.test("removing a named guard keeps the remaining order", function (assert: Assert) {
+	const pipeline = new GuardPipeline();
+	const calls: string[] = [];
+	const first = recorder(calls, "first");
+	pipeline.addGlobalGuard(recorder(calls, "second"), { name: "second" });
+	pipeline.addGlobalGuard(first, { name: "first", before: "second" });
+	pipeline.addGlobalGuard(recorder(calls, "third"), { priority: -1 });
+	pipeline.removeGlobalGuard(first);
+
+	pipeline.evaluate(createContext());
+	assert.deepEqual(calls, ["second", "third"], "Removed guard no longer runs");
+});
+
+QUnit.test("error logs include the guard name", function (this: SinonTestContext, assert: Assert) {
+	const errorStub = this.stub(Log, "error");
+	const pipeline = new GuardPipeline();
+	pipeline.addGlobalGuard(
+		() => {
+			throw new Error("boom");
+		},
+		{ name: "auth" },
+	);
+
+	pipeline.evaluate(createContext());
+	assert.ok(String(errorStub.firstCall.args[0]).includes('"auth"'), "Guard name in the log message");
+});
+
 // ============================================================
 // Module: snapshot copy
 // ============================================================
@@ -554,10 +977,902 @@ QUnit.test("skipLeaveGuards defaults to running leave guards", function (assert:
 	const p1 = new GuardPipeline();
 	p1.addLeaveGuard("current", () => false);
 	const r1 = p1.evaluate(createContext({ fromRoute: "current" }), { skipLeaveGuards: false });
-	assert.deepEqual(r1, { action: "block" }, "Leave guard blocks when skipLeaveGuards is false");
+	assert.deepEqual(
+		r1,
+		{ action: "block", decidedBy: { phase: "leave", index: 0, route: "current" } },
+		"Leave guard blocks when skipLeaveGuards is false",
+	);
 
 	const p2 = new GuardPipeline();
 	p2.addLeaveGuard("current", () => false);
 	const r2 = p2.evaluate(createContext({ fromRoute: "current" }));
-	assert.deepEqual(r2, { action: "block" }, "Leave guard blocks when options omitted");
+	assert.deepEqual(
+		r2,
+		{ action: "block", decidedBy: { phase: "leave", index: 0, route: "current" } },
+		"Leave guard blocks when options omitted",
+	);
+});
+
+// ============================================================
+// Module: passedGuards and skipGuards options
+// ============================================================
+QUnit.module("GuardPipeline - passedGuards and skipGuards options");
+
+QUnit.test("passedGuards records enter guards up to the deciding one", function (assert: Assert) {
+	const pipeline = new GuardPipeline();
+	const global: GuardFn = () => true;
+	const first: GuardFn = () => true;
+	const deciding: GuardFn = () => "login";
+	const after: GuardFn = () => true;
+	const leave: LeaveGuardFn = () => true;
+	pipeline.addGlobalGuard(global);
+	pipeline.addEnterGuard("target", first);
+	pipeline.addEnterGuard("target", deciding);
+	pipeline.addEnterGuard("target", after);
+	pipeline.addLeaveGuard("current", leave);
+
+	const passed = new Set<GuardFn>();
+	pipeline.evaluate(createContext({ fromRoute: "current" }), { passedGuards: passed });
+	assert.deepEqual([...passed], [global, first], "Guards that returned true are recorded, leave guards are not");
+});
+
+QUnit.test("passedGuards records parallel and async guards", async function (assert: Assert) {
+	const pipeline = new GuardPipeline();
+	const parallelA: GuardFn = async () => true;
+	const parallelB: GuardFn = () => true;
+	const sequential: GuardFn = async () => true;
+	const deciding: GuardFn = async () => false;
+	pipeline.addEnterGuard("target", parallelA, { parallel: true });
+	pipeline.addEnterGuard("target", parallelB, { parallel: true });
+	pipeline.addEnterGuard("target", sequential);
+	pipeline.addEnterGuard("target", deciding);
+
+	const passed = new Set<GuardFn>();
+	await pipeline.evaluate(createContext(), { passedGuards: passed });
+	assert.deepEqual([...passed], [parallelA, parallelB, sequential], "Passed guards recorded in order");
+});
+
+QUnit.test("skipGuards leaves enter guards out and counts them as passed", function (assert: Assert) {
+	const pipeline = new GuardPipeline();
+	const called: string[] = [];
+	const skipped: GuardFn = () => {
+		called.push("skipped");
+		return false;
+	};
+	const leave: LeaveGuardFn = () => {
+		called.push("leave");
+		return true;
+	};
+	pipeline.addEnterGuard("target", skipped);
+	pipeline.addEnterGuard("target", () => {
+		called.push("other");
+		return true;
+	});
+	pipeline.addLeaveGuard("current", leave);
+
+	const passed = new Set<GuardFn>();
+	const result = pipeline.evaluate(createContext({ fromRoute: "current" }), {
+		skipGuards: new Set<GuardFn>([skipped, leave as GuardFn]),
+		passedGuards: passed,
+	});
+	assert.deepEqual(result, { action: "allow" }, "Skipped guard does not block");
+	assert.deepEqual(called, ["leave", "other"], "Skipped enter guard did not run, leave guards are not skipped");
+	assert.true(passed.has(skipped), "Skipped guard counts as passed");
+});
+
+// ============================================================
+// Module: decidedBy
+// ============================================================
+QUnit.module("GuardPipeline - decidedBy");
+
+QUnit.test("decidedBy reports the guard name and its position after ordering", function (assert: Assert) {
+	const pipeline = new GuardPipeline();
+	pipeline.addEnterGuard("target", () => false, { name: "late" });
+	pipeline.addEnterGuard("target", () => true, { name: "early", priority: 1 });
+
+	assert.deepEqual(
+		pipeline.evaluate(createContext()),
+		{ action: "block", decidedBy: { name: "late", phase: "route", index: 1, route: "target" } },
+		"Index reflects execution order",
+	);
+});
+
+QUnit.test("decidedBy tracks the deciding guard across async continuations", async function (assert: Assert) {
+	const pipeline = new GuardPipeline();
+	pipeline.addGlobalGuard(() => Promise.resolve(true));
+	pipeline.addGlobalGuard(() => Promise.resolve("login"), { name: "auth" });
+
+	assert.deepEqual(
+		await pipeline.evaluate(createContext()),
+		{
+			action: "redirect",
+			target: "login",
+			decidedBy: { name: "auth", phase: "global", index: 1, route: "target" },
+		},
+		"Second async guard reported",
+	);
+});
+
+QUnit.test("leave guard indexes count global leave guards first", async function (assert: Assert) {
+	const pipeline = new GuardPipeline();
+	pipeline.addGlobalLeaveGuard(() => true);
+	pipeline.addLeaveGuard("current", () => Promise.resolve(false), { name: "unsaved" });
+
+	assert.deepEqual(
+		await pipeline.evaluate(createContext({ fromRoute: "current" })),
+		{ action: "block", decidedBy: { name: "unsaved", phase: "leave", index: 1, route: "current" } },
+		"Route leave guard follows the global leave guard",
+	);
+});
+
+QUnit.test(
+	"timed-out guard is reported on the error decision",
+	async function (this: SinonTestContext, assert: Assert) {
+		this.stub(Log, "error");
+		const pipeline = new GuardPipeline();
+		pipeline.addEnterGuard("target", neverSettles, { name: "slow", timeout: 20 });
+
+		const result = await pipeline.evaluate(createContext());
+		assert.deepEqual(
+			(result as { decidedBy?: unknown }).decidedBy,
+			{ name: "slow", phase: "route", index: 0, route: "target" },
+			"Timed-out guard reported",
+		);
+	},
+);
+
+QUnit.test("allowed navigation carries no decidedBy", function (assert: Assert) {
+	const pipeline = new GuardPipeline();
+	pipeline.addGlobalGuard(() => true, { name: "open" });
+	assert.deepEqual(pipeline.evaluate(createContext()), { action: "allow" }, "Plain allow decision");
+});
+
+// ============================================================
+// Module: block reasons
+// ============================================================
+QUnit.module("GuardPipeline - block reasons");
+
+QUnit.test("enter guard returning GuardBlock blocks with reason and data", function (assert: Assert) {
+	const pipeline = new GuardPipeline();
+	pipeline.addEnterGuard("target", () => ({ block: true, reason: "not-authorized", data: { role: "admin" } }));
+
+	assert.deepEqual(
+		pipeline.evaluate(createContext()),
+		{
+			action: "block",
+			decidedBy: { phase: "route", index: 0, route: "target" },
+			reason: "not-authorized",
+			data: { role: "admin" },
+		},
+		"Reason and data on the decision",
+	);
+});
+
+QUnit.test("leave guard returning GuardBlock blocks with reason", async function (assert: Assert) {
+	const pipeline = new GuardPipeline();
+	pipeline.addLeaveGuard("current", () => Promise.resolve({ block: true as const, reason: "unsaved-changes" }));
+
+	assert.deepEqual(
+		await pipeline.evaluate(createContext({ fromRoute: "current" })),
+		{ action: "block", decidedBy: { phase: "leave", index: 0, route: "current" }, reason: "unsaved-changes" },
+		"Leave guard block reason on the decision",
+	);
+});
+
+QUnit.test(
+	"block object without a string reason is treated as a plain block",
+	function (this: SinonTestContext, assert: Assert) {
+		const warnStub = this.stub(Log, "warning");
+		const pipeline = new GuardPipeline();
+		pipeline.addGlobalGuard((() => ({ block: true })) as unknown as GuardFn);
+
+		assert.deepEqual(
+			pipeline.evaluate(createContext()),
+			{ action: "block", decidedBy: { phase: "global", index: 0, route: "target" } },
+			"No reason reported",
+		);
+		assert.ok(warnStub.calledOnce, "Invalid value warned");
+	},
+);
+
+// ============================================================
+// Module: parallel groups
+// ============================================================
+QUnit.module("GuardPipeline - parallel groups");
+
+function deferred<T>(): { promise: Promise<T>; resolve: (value: T) => void } {
+	let resolve: (value: T) => void = () => {};
+	const promise = new Promise<T>((r) => {
+		resolve = r;
+	});
+	return { promise, resolve };
+}
+
+QUnit.test("parallel guards start before earlier ones settle", async function (assert: Assert) {
+	const pipeline = new GuardPipeline();
+	const started: number[] = [];
+	const gates = [deferred<boolean>(), deferred<boolean>(), deferred<boolean>()];
+	gates.forEach((gate, i) => {
+		pipeline.addEnterGuard(
+			"target",
+			() => {
+				started.push(i);
+				return gate.promise;
+			},
+			{ parallel: true },
+		);
+	});
+
+	const pending = pipeline.evaluate(createContext());
+	assert.deepEqual(started, [0, 1, 2], "All guards started synchronously");
+
+	gates.forEach((gate) => gate.resolve(true));
+	assert.deepEqual(await pending, { action: "allow" }, "Group allows when every guard allows");
+});
+
+QUnit.test("first non-true result in declaration order wins", async function (assert: Assert) {
+	const pipeline = new GuardPipeline();
+	const slow = deferred<GuardResult>();
+	pipeline.addEnterGuard("target", () => slow.promise, { parallel: true, name: "slow" });
+	pipeline.addEnterGuard("target", () => Promise.resolve(false), { parallel: true, name: "fast" });
+
+	const pending = pipeline.evaluate(createContext());
+	await Promise.resolve();
+	slow.resolve("login");
+
+	assert.deepEqual(
+		await pending,
+		{
+			action: "redirect",
+			target: "login",
+			decidedBy: { name: "slow", phase: "route", index: 0, route: "target" },
+		},
+		"Earlier guard decides although the later one settled first",
+	);
+});
+
+QUnit.test("guards still running after the decision are aborted", async function (assert: Assert) {
+	const pipeline = new GuardPipeline();
+	const signals: AbortSignal[] = [];
+	pipeline.addGlobalGuard(
+		(context: GuardContext) => {
+			signals.push(context.signal);
+			return Promise.resolve(false);
+		},
+		{ parallel: true },
+	);
+	pipeline.addGlobalGuard(
+		(context: GuardContext) => {
+			signals.push(context.signal);
+			return new Promise<boolean>(() => {});
+		},
+		{ parallel: true },
+	);
+	const context = createContext();
+
+	const result = await pipeline.evaluate(context);
+	assert.strictEqual(result.action, "block", "First guard blocks");
+	assert.notOk(signals[0].aborted, "Deciding guard's signal is not aborted");
+	assert.ok(signals[1].aborted, "Running guard's child signal is aborted");
+	assert.notOk(context.signal.aborted, "Navigation signal is untouched");
+	assert.notStrictEqual(signals[1], context.signal, "Guards receive a child signal");
+});
+
+QUnit.test("aborting the navigation aborts every guard of the group", async function (assert: Assert) {
+	const pipeline = new GuardPipeline();
+	const signals: AbortSignal[] = [];
+	const guard = (context: GuardContext): Promise<boolean> => {
+		signals.push(context.signal);
+		return new Promise<boolean>(() => {});
+	};
+	pipeline.addEnterGuard("target", guard, { parallel: true });
+	pipeline.addEnterGuard("target", guard, { parallel: true });
+	const controller = new AbortController();
+
+	void pipeline.evaluate(createContext({ signal: controller.signal }));
+	controller.abort("superseded");
+
+	assert.ok(
+		signals.every((signal) => signal.aborted && signal.reason === "superseded"),
+		"Child signals aborted with the navigation's reason",
+	);
+});
+
+QUnit.test("synchronous group stays synchronous and skips guards after a sync block", function (assert: Assert) {
+	const pipeline = new GuardPipeline();
+	let lastRan = false;
+	pipeline.addEnterGuard("target", () => true, { parallel: true });
+	pipeline.addEnterGuard("target", () => ({ block: true, reason: "denied" }), { parallel: true });
+	pipeline.addEnterGuard(
+		"target",
+		() => {
+			lastRan = true;
+			return true;
+		},
+		{ parallel: true },
+	);
+
+	assert.deepEqual(
+		pipeline.evaluate(createContext()),
+		{ action: "block", decidedBy: { phase: "route", index: 1, route: "target" }, reason: "denied" },
+		"Sync decision",
+	);
+	assert.notOk(lastRan, "Guard after the sync block did not start");
+});
+
+QUnit.test("sequential guards wait for the group", async function (assert: Assert) {
+	const pipeline = new GuardPipeline();
+	const order: string[] = [];
+	pipeline.addGlobalGuard(() => {
+		order.push("before");
+		return true;
+	});
+	pipeline.addGlobalGuard(
+		async () => {
+			await new Promise((resolve) => setTimeout(resolve, 10));
+			order.push("a");
+			return true;
+		},
+		{ parallel: true },
+	);
+	pipeline.addGlobalGuard(
+		() => {
+			order.push("b");
+			return Promise.resolve(true);
+		},
+		{ parallel: true },
+	);
+	pipeline.addGlobalGuard(() => {
+		order.push("after");
+		return true;
+	});
+
+	assert.deepEqual(await pipeline.evaluate(createContext()), { action: "allow" }, "Allowed");
+	assert.deepEqual(order, ["before", "b", "a", "after"], "Group ran concurrently between sequential guards");
+});
+
+QUnit.test(
+	"an error in an earlier guard wins over a later block",
+	async function (this: SinonTestContext, assert: Assert) {
+		this.stub(Log, "error");
+		const pipeline = new GuardPipeline();
+		const failure = new Error("boom");
+		pipeline.addEnterGuard("target", () => Promise.reject(failure), { parallel: true });
+		pipeline.addEnterGuard("target", () => false, { parallel: true });
+
+		assert.deepEqual(
+			await pipeline.evaluate(createContext()),
+			{ action: "error", error: failure, decidedBy: { phase: "route", index: 0, route: "target" } },
+			"Error of the first guard decides",
+		);
+	},
+);
+
+// ============================================================
+// Module: default policy
+// ============================================================
+QUnit.module("GuardPipeline - default policy");
+
+QUnit.test('"deny" blocks routes without a route guard or public metadata', function (assert: Assert) {
+	const pipeline = new GuardPipeline({ defaultPolicy: "deny" });
+	let leaveRan = false;
+	pipeline.addLeaveGuard("current", () => {
+		leaveRan = true;
+		return true;
+	});
+	pipeline.addGlobalGuard(() => true);
+
+	assert.deepEqual(
+		pipeline.evaluate(createContext({ fromRoute: "current" })),
+		{ action: "block", reason: "default-deny" },
+		"Global guards alone do not make a route reachable",
+	);
+	assert.ok(leaveRan, "Leave guards ran before the denial");
+	assert.deepEqual(
+		pipeline.evaluate(createContext({ toMeta: Object.freeze({ public: true }) })),
+		{ action: "allow" },
+		"public: true allows",
+	);
+	assert.deepEqual(
+		pipeline.evaluate(createContext({ toRoute: "" })),
+		{ action: "allow" },
+		"No matched route allowed",
+	);
+
+	pipeline.addEnterGuard("target", () => true);
+	assert.deepEqual(pipeline.evaluate(createContext()), { action: "allow" }, "Route guard makes the route reachable");
+});
+
+QUnit.test('"deny" redirects to defaultDenyRoute and honours the access meta key', function (assert: Assert) {
+	const pipeline = new GuardPipeline({ defaultPolicy: "deny", defaultDenyRoute: "notFound", accessMetaKey: "roles" });
+
+	assert.deepEqual(
+		pipeline.evaluate(createContext()),
+		{ action: "redirect", target: "notFound" },
+		"Redirected to defaultDenyRoute",
+	);
+	assert.ok(pipeline.isDeniedByDefault("target", {}), "isDeniedByDefault reports the route");
+	assert.notOk(pipeline.isDeniedByDefault("target", { roles: ["admin"] }), "Access metadata counts as a guard");
+	assert.notOk(new GuardPipeline().isDeniedByDefault("target", {}), '"allow" never denies');
+});
+
+QUnit.test('"deny" keeps leave guards in charge of leaving', async function (assert: Assert) {
+	const pipeline = new GuardPipeline({ defaultPolicy: "deny", defaultDenyRoute: "notFound" });
+	pipeline.addLeaveGuard("current", () => ({ block: true, reason: "unsaved-changes" }));
+	assert.deepEqual(
+		pipeline.evaluate(createContext({ fromRoute: "current" })),
+		{ action: "block", decidedBy: { phase: "leave", index: 0, route: "current" }, reason: "unsaved-changes" },
+		"Blocking leave guard wins over the default-deny redirect",
+	);
+
+	pipeline.clear();
+	pipeline.addLeaveGuard("current", () => Promise.resolve(true));
+	assert.deepEqual(
+		await pipeline.evaluate(createContext({ fromRoute: "current" })),
+		{ action: "redirect", target: "notFound" },
+		"Denial applies after async leave guards allow",
+	);
+});
+
+QUnit.test('"deny" never denies defaultDenyRoute', function (assert: Assert) {
+	const pipeline = new GuardPipeline({ defaultPolicy: "deny", defaultDenyRoute: "notFound" });
+	assert.notOk(pipeline.isDeniedByDefault("notFound", {}), "defaultDenyRoute is reachable without guard or metadata");
+	assert.deepEqual(
+		pipeline.evaluate(createContext({ toRoute: "notFound", toHash: "notFound" })),
+		{ action: "allow" },
+		"Navigation to defaultDenyRoute allowed",
+	);
+});
+
+QUnit.test('"deny" ignores guards of disabled groups', function (assert: Assert) {
+	const pipeline = new GuardPipeline({ defaultPolicy: "deny" });
+	pipeline.addEnterGuard("target", () => true, { group: "auth" });
+	assert.notOk(pipeline.isDeniedByDefault("target", {}), "Enabled group guard makes the route reachable");
+
+	pipeline.setGroupEnabled("auth", false);
+	assert.ok(pipeline.isDeniedByDefault("target", {}), "Disabled group guard does not count");
+	assert.deepEqual(
+		pipeline.evaluate(createContext()),
+		{ action: "block", reason: "default-deny" },
+		"Route denied while the group is disabled",
+	);
+
+	pipeline.setGroupEnabled("auth", true);
+	assert.deepEqual(pipeline.evaluate(createContext()), { action: "allow" }, "Route reachable again");
+});
+
+QUnit.test('"deny" denies a route once its only once guard is removed', function (assert: Assert) {
+	const pipeline = new GuardPipeline({ defaultPolicy: "deny" });
+	pipeline.addEnterGuard("target", () => true, { once: true });
+
+	assert.deepEqual(pipeline.evaluate(createContext()), { action: "allow" }, "once guard opens the route");
+	assert.deepEqual(
+		pipeline.evaluate(createContext()),
+		{ action: "block", reason: "default-deny" },
+		"Route denied after the once guard removed itself",
+	);
+});
+
+QUnit.test('"deny" warns once per denied route', function (this: SinonTestContext, assert: Assert) {
+	const warning = this.stub(Log, "warning");
+	const pipeline = new GuardPipeline({ defaultPolicy: "deny" });
+	pipeline.evaluate(createContext());
+	pipeline.evaluate(createContext());
+	pipeline.evaluate(createContext({ toRoute: "other", toHash: "other" }));
+
+	const messages = warning.getCalls().map((call) => String(call.args[0]));
+	assert.deepEqual(
+		messages,
+		[
+			'Route "target" has no enter guard or public metadata, denied by defaultPolicy "deny"',
+			'Route "other" has no enter guard or public metadata, denied by defaultPolicy "deny"',
+		],
+		"One warning per route",
+	);
+});
+
+// ============================================================
+// Module: once and until
+// ============================================================
+QUnit.module("GuardPipeline - once and until");
+
+QUnit.test("once removes the guard after its first decision", function (assert: Assert) {
+	const pipeline = new GuardPipeline();
+	let calls = 0;
+	pipeline.addEnterGuard(
+		"target",
+		() => {
+			calls++;
+			return "onboarding";
+		},
+		{ once: true },
+	);
+
+	assert.deepEqual(
+		pipeline.evaluate(createContext()),
+		{ action: "redirect", target: "onboarding", decidedBy: { phase: "route", index: 0, route: "target" } },
+		"First run redirects",
+	);
+	assert.deepEqual(pipeline.evaluate(createContext()), { action: "allow" }, "Second run allows");
+	assert.strictEqual(calls, 1, "Guard ran once");
+});
+
+QUnit.test("until keeps the guard until the predicate accepts a result", async function (assert: Assert) {
+	const pipeline = new GuardPipeline();
+	const results = [true, false, true];
+	const seen: GuardResult[] = [];
+	pipeline.addGlobalGuard(() => Promise.resolve(results.shift() ?? true), {
+		until: (result) => {
+			seen.push(result);
+			return result === false;
+		},
+	});
+
+	assert.deepEqual(await pipeline.evaluate(createContext()), { action: "allow" }, "true keeps the guard");
+	assert.strictEqual((await pipeline.evaluate(createContext())).action, "block", "false blocks");
+	assert.deepEqual(await pipeline.evaluate(createContext()), { action: "allow" }, "Guard removed");
+	assert.deepEqual(seen, [true, false], "Predicate saw each result");
+});
+
+QUnit.test("once applies to leave guards", function (assert: Assert) {
+	const pipeline = new GuardPipeline();
+	pipeline.addLeaveGuard("current", () => false, { once: true });
+	pipeline.addGlobalLeaveGuard(() => true, { once: true });
+
+	assert.deepEqual(
+		pipeline.evaluate(createContext({ fromRoute: "current" })),
+		{ action: "block", decidedBy: { phase: "leave", index: 1, route: "current" } },
+		"First leave blocked",
+	);
+	assert.deepEqual(pipeline.evaluate(createContext({ fromRoute: "current" })), { action: "allow" }, "Both removed");
+});
+
+QUnit.test("runs that throw or are aborted keep the guard", async function (this: SinonTestContext, assert: Assert) {
+	this.stub(Log, "error");
+	const pipeline = new GuardPipeline();
+	const failure = new Error("boom");
+	let fail = true;
+	pipeline.addEnterGuard(
+		"target",
+		() => {
+			if (fail) throw failure;
+			return Promise.resolve(false);
+		},
+		{ once: true },
+	);
+	const decidedBy = { phase: "route" as const, index: 0, route: "target" };
+	assert.deepEqual(
+		pipeline.evaluate(createContext()),
+		{ action: "error", error: failure, decidedBy },
+		"Throwing run",
+	);
+
+	fail = false;
+	const controller = new AbortController();
+	const aborted = pipeline.evaluate(createContext({ signal: controller.signal }));
+	controller.abort();
+	await aborted;
+	assert.deepEqual(
+		await pipeline.evaluate(createContext()),
+		{ action: "block", decidedBy },
+		"Guard still registered",
+	);
+	assert.deepEqual(pipeline.evaluate(createContext()), { action: "allow" }, "Removed after its decision");
+});
+
+// ============================================================
+// Module: guard groups
+// ============================================================
+QUnit.module("GuardPipeline - guard groups");
+
+QUnit.test("guards of a disabled group are skipped", function (assert: Assert) {
+	const pipeline = new GuardPipeline();
+	pipeline.addGlobalGuard(() => "maintenance", { group: "maintenance" });
+	pipeline.addEnterGuard("target", () => false, { group: "featureFlags" });
+	pipeline.addLeaveGuard("current", () => false, { group: "featureFlags" });
+	const context = createContext({ fromRoute: "current" });
+
+	assert.deepEqual(
+		pipeline.evaluate(context),
+		{ action: "block", decidedBy: { phase: "leave", index: 0, route: "current" } },
+		"All groups enabled by default",
+	);
+
+	pipeline.setGroupEnabled("featureFlags", false);
+	assert.notOk(pipeline.isGroupEnabled("featureFlags"), "Group reported disabled");
+	assert.deepEqual(
+		pipeline.evaluate(context),
+		{ action: "redirect", target: "maintenance", decidedBy: { phase: "global", index: 0, route: "target" } },
+		"Leave and route guards of the group skipped",
+	);
+
+	pipeline.setGroupEnabled("maintenance", false);
+	assert.deepEqual(pipeline.evaluate(context), { action: "allow" }, "Both groups disabled");
+
+	pipeline.setGroupEnabled("featureFlags", true);
+	assert.deepEqual(
+		pipeline.evaluate(context),
+		{ action: "block", decidedBy: { phase: "leave", index: 0, route: "current" } },
+		"Re-enabled group runs again",
+	);
+});
+
+QUnit.test("indices and parallel groups count enabled guards only", function (assert: Assert) {
+	const pipeline = new GuardPipeline();
+	pipeline.addEnterGuard("target", () => true, { group: "off" });
+	pipeline.addEnterGuard("target", () => true, { parallel: true });
+	pipeline.addEnterGuard("target", () => false, { group: "off", parallel: true });
+	pipeline.addEnterGuard("target", () => "elsewhere", { parallel: true });
+	pipeline.setGroupEnabled("off", false);
+
+	assert.deepEqual(
+		pipeline.evaluate(createContext()),
+		{ action: "redirect", target: "elsewhere", decidedBy: { phase: "route", index: 1, route: "target" } },
+		"Disabled guards are left out of the list",
+	);
+});
+
+// ============================================================
+// Module: error handler
+// ============================================================
+QUnit.module("GuardPipeline - error handler");
+
+QUnit.test("converts guard errors into the handler's result", async function (assert: Assert) {
+	const pipeline = new GuardPipeline();
+	const failure = new Error("backend down");
+	let received: unknown;
+	pipeline.setErrorHandler((error) => {
+		received = error;
+		return "errorPage";
+	});
+	pipeline.addEnterGuard("target", () => {
+		throw failure;
+	});
+
+	assert.deepEqual(
+		pipeline.evaluate(createContext()),
+		{ action: "redirect", target: "errorPage", decidedBy: { phase: "route", index: 0, route: "target" } },
+		"Sync error redirected",
+	);
+	assert.strictEqual(received, failure, "Handler received the error");
+
+	pipeline.clear();
+	pipeline.setErrorHandler(() => Promise.resolve({ block: true, reason: "offline" }));
+	pipeline.addGlobalGuard(() => Promise.reject(failure));
+	assert.deepEqual(
+		await pipeline.evaluate(createContext()),
+		{ action: "block", decidedBy: { phase: "global", index: 0, route: "target" }, reason: "offline" },
+		"Async rejection converted by an async handler",
+	);
+});
+
+QUnit.test("timeouts skip the handler", async function (this: SinonTestContext, assert: Assert) {
+	this.stub(Log, "error");
+	const pipeline = new GuardPipeline({ guardTimeout: 10 });
+	let handlerCalls = 0;
+	pipeline.setErrorHandler(() => {
+		handlerCalls++;
+		return true;
+	});
+	pipeline.addEnterGuard("target", () => new Promise<boolean>(() => {}));
+
+	const decision = await pipeline.evaluate(createContext());
+	assert.strictEqual(decision.action, "error", "Timeout settles as an error decision");
+	assert.ok(decision.action === "error" && decision.error instanceof GuardTimeoutError, "Error is the timeout");
+	assert.strictEqual(handlerCalls, 0, "Handler was not called");
+});
+
+QUnit.test(
+	"undefined results and throwing handlers keep the error",
+	async function (this: SinonTestContext, assert: Assert) {
+		this.stub(Log, "error");
+		const pipeline = new GuardPipeline();
+		const failure = new Error("guard failed");
+		pipeline.addEnterGuard("target", () => Promise.reject(failure));
+		const expected = {
+			action: "error" as const,
+			error: failure,
+			decidedBy: { phase: "route" as const, index: 0, route: "target" },
+		};
+
+		pipeline.setErrorHandler(() => undefined);
+		assert.deepEqual(await pipeline.evaluate(createContext()), expected, "undefined keeps the error");
+
+		pipeline.setErrorHandler(() => {
+			throw new Error("handler failed");
+		});
+		assert.deepEqual(await pipeline.evaluate(createContext()), expected, "Throwing handler keeps the guard error");
+
+		pipeline.setErrorHandler(null);
+		assert.deepEqual(await pipeline.evaluate(createContext()), expected, "Removed handler");
+	},
+);
+
+// ============================================================
+// Module: resolvers
+// ============================================================
+QUnit.module("GuardPipeline - resolvers");
+
+QUnit.test("resolver values are collected once the guards allow", async function (assert: Assert) {
+	const pipeline = new GuardPipeline();
+	let calls = 0;
+	pipeline.addResolver("target", "order", () => {
+		calls++;
+		return { id: 1 };
+	});
+
+	assert.deepEqual(
+		pipeline.evaluate(createContext()),
+		{ action: "allow", resolved: { order: { id: 1 } } },
+		"Sync resolver keeps the evaluation sync",
+	);
+
+	pipeline.addResolver("target", "items", () => Promise.resolve(["a"]));
+	assert.deepEqual(
+		await pipeline.evaluate(createContext()),
+		{ action: "allow", resolved: { order: { id: 1 }, items: ["a"] } },
+		"Async resolver awaited, keys in registration order",
+	);
+
+	pipeline.addEnterGuard("target", () => false);
+	pipeline.evaluate(createContext());
+	assert.strictEqual(calls, 2, "Resolvers skipped when a guard blocks");
+
+	pipeline.removeResolver("target", "order");
+	pipeline.removeResolver("target", "items");
+	assert.deepEqual(
+		pipeline.evaluate(createContext({ toRoute: "other" })),
+		{ action: "allow" },
+		"No resolved data without resolvers",
+	);
+});
+
+QUnit.test(
+	"failing resolvers block, redirect, or fail the navigation",
+	async function (this: SinonTestContext, assert: Assert) {
+		this.stub(Log, "error");
+		const pipeline = new GuardPipeline();
+		const failure = new Error("not found");
+		pipeline.addResolver("target", "user", () => ({ name: "x" }));
+		pipeline.addResolver("target", "order", () => Promise.reject(new ResolveRejection("notFound")));
+
+		assert.deepEqual(
+			await pipeline.evaluate(createContext()),
+			{
+				action: "redirect",
+				target: "notFound",
+				decidedBy: { name: "order", phase: "resolve", index: 1, route: "target" },
+			},
+			"ResolveRejection redirects",
+		);
+
+		pipeline.addResolver("target", "order", () => {
+			throw new ResolveRejection({ block: true, reason: "archived" });
+		});
+		assert.deepEqual(
+			pipeline.evaluate(createContext()),
+			{
+				action: "block",
+				decidedBy: { name: "order", phase: "resolve", index: 1, route: "target" },
+				reason: "archived",
+			},
+			"Sync ResolveRejection blocks",
+		);
+
+		pipeline.addResolver("target", "order", () => Promise.reject(failure));
+		assert.deepEqual(
+			await pipeline.evaluate(createContext()),
+			{
+				action: "error",
+				error: failure,
+				decidedBy: { name: "order", phase: "resolve", index: 1, route: "target" },
+			},
+			"Other errors fail the navigation",
+		);
+
+		pipeline.setErrorHandler(() => "errorPage");
+		assert.deepEqual(
+			await pipeline.evaluate(createContext()),
+			{
+				action: "redirect",
+				target: "errorPage",
+				decidedBy: { name: "order", phase: "resolve", index: 1, route: "target" },
+			},
+			"Error handler converts resolver errors",
+		);
+	},
+);
+
+QUnit.test(
+	"the first failure in declaration order decides, not the first to settle",
+	async function (this: SinonTestContext, assert: Assert) {
+		this.stub(Log, "error");
+		const pipeline = new GuardPipeline();
+		const rejectAfter = (ms: number, route: string): Promise<never> =>
+			new Promise((_resolve, reject) => setTimeout(() => reject(new ResolveRejection(route)), ms));
+		pipeline.addResolver("target", "user", () => rejectAfter(20, "userMissing"));
+		pipeline.addResolver("target", "order", () => rejectAfter(0, "orderMissing"));
+
+		const expected = {
+			action: "redirect",
+			target: "userMissing",
+			decidedBy: { name: "user", phase: "resolve", index: 0, route: "target" },
+		} as const;
+		assert.deepEqual(
+			await pipeline.evaluate(createContext()),
+			expected,
+			"Earlier resolver decides although it rejected later",
+		);
+
+		pipeline.addResolver("target", "order", () => {
+			throw new Error("sync failure");
+		});
+		assert.deepEqual(
+			await pipeline.evaluate(createContext()),
+			expected,
+			"Earlier async failure wins over a later synchronous throw",
+		);
+	},
+);
+
+QUnit.test(
+	"a failure decides without waiting for the resolvers after it and aborts them",
+	async function (this: SinonTestContext, assert: Assert) {
+		this.stub(Log, "error");
+		const pipeline = new GuardPipeline();
+		let pendingSignal: AbortSignal | null = null;
+		pipeline.addResolver("target", "user", () => Promise.reject(new ResolveRejection("userMissing")));
+		pipeline.addResolver("target", "order", (context) => {
+			pendingSignal = context.signal;
+			return new Promise(() => {});
+		});
+
+		assert.deepEqual(
+			await pipeline.evaluate(createContext()),
+			{
+				action: "redirect",
+				target: "userMissing",
+				decidedBy: { name: "user", phase: "resolve", index: 0, route: "target" },
+			},
+			"Decided although a later resolver never settles",
+		);
+		assert.strictEqual((pendingSignal as AbortSignal | null)?.aborted, true, "Pending resolver aborted");
+	},
+);
+
+QUnit.test("a failure waits for the resolvers declared before it", async function (assert: Assert) {
+	const pipeline = new GuardPipeline();
+	let resolveUser: (value: unknown) => void = () => {};
+	pipeline.addResolver("target", "user", () => new Promise((resolve) => (resolveUser = resolve)));
+	pipeline.addResolver("target", "order", () => Promise.reject(new ResolveRejection(false)));
+
+	let settled = false;
+	const pending = Promise.resolve(pipeline.evaluate(createContext())).then((decision) => {
+		settled = true;
+		return decision;
+	});
+	await new Promise((resolve) => setTimeout(resolve, 10));
+	assert.notOk(settled, "Pending while an earlier resolver runs");
+
+	resolveUser({ name: "x" });
+	assert.deepEqual(
+		await pending,
+		{ action: "block", decidedBy: { name: "order", phase: "resolve", index: 1, route: "target" } },
+		"Later failure decides once the earlier resolver fulfilled",
+	);
+});
+
+QUnit.test("aborting the navigation aborts pending resolvers", async function (assert: Assert) {
+	const pipeline = new GuardPipeline();
+	const navigation = new AbortController();
+	let resolverSignal: AbortSignal | null = null;
+	pipeline.addResolver("target", "order", (context) => {
+		resolverSignal = context.signal;
+		return new Promise(() => {});
+	});
+
+	const pending = pipeline.evaluate(createContext({ signal: navigation.signal }));
+	navigation.abort("superseded");
+	assert.deepEqual(await pending, { action: "block" }, "Settles without the resolver");
+	assert.strictEqual((resolverSignal as AbortSignal | null)?.reason, "superseded", "Child signal aborted");
 });
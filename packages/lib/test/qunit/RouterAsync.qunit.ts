@@ -1,8 +1,21 @@
+import sinon from "sinon";
+import Button from "sap/m/Button";
+import BusyIndicator from "sap/ui/core/BusyIndicator";
 import HashChanger from "sap/ui/core/routing/HashChanger";
-import type { GuardContext, GuardFn, GuardRouter } from "ui5/guard/router/types";
+import type { GuardContext, GuardFn, GuardRouter, NavigationResult } from "ui5/guard/router/types";
 import NavigationOutcome from "ui5/guard/router/NavigationOutcome";
 import type { Router$RouteMatchedEvent } from "sap/ui/core/routing/Router";
-import { addGuardUnsafe, assertBlocked, createRouter, initHashChanger, nextTick, waitForRoute } from "./testHelpers";
+import GuardTimeoutError from "ui5/guard/router/GuardTimeoutError";
+import {
+	addGuardUnsafe,
+	assertBlocked,
+	captureErrorsAsync,
+	createRouter,
+	createRouterWithOptions,
+	initHashChanger,
+	nextTick,
+	waitForRoute,
+} from "./testHelpers";
 
 let router: GuardRouter;
 
@@ -974,3 +987,287 @@ QUnit.test(
 		);
 	},
 );
+
+// ============================================================
+// Module: Guard timeouts
+// ============================================================
+QUnit.module("Router - Guard timeouts", {
+	beforeEach: function () {
+		initHashChanger();
+	},
+	afterEach: function () {
+		router.destroy();
+		HashChanger.getInstance().setHash("");
+	},
+});
+
+const neverSettles = (): Promise<boolean> => new Promise<boolean>(() => {});
+
+QUnit.test("Timed-out guard settles as 'error' with a GuardTimeoutError by default", async function (assert: Assert) {
+	router = createRouterWithOptions({ guardTimeout: 30 });
+	let signal: AbortSignal | undefined;
+	router.addRouteGuard("protected", (context: GuardContext) => {
+		signal = context.signal;
+		return neverSettles();
+	});
+	router.initialize();
+	await waitForRoute(router, "home");
+
+	let result: NavigationResult | undefined;
+	await captureErrorsAsync(async () => {
+		result = await router.navigate("protected");
+	});
+
+	assert.strictEqual(result!.status, NavigationOutcome.Error, "Status is error");
+	assert.ok(result!.error instanceof GuardTimeoutError, "Error is a GuardTimeoutError");
+	assert.strictEqual(result!.route, "home", "Previous route stays active");
+	assert.ok(signal!.aborted, "Guard signal was aborted");
+	assert.strictEqual(signal!.reason, result!.error, "Signal aborted with the timeout error");
+});
+
+QUnit.test("'block' policy settles as 'blocked' and reports the timeout", async function (assert: Assert) {
+	router = createRouterWithOptions({ guardTimeout: 30, guardTimeoutPolicy: "block" });
+	router.addRouteGuard("protected", neverSettles);
+	router.initialize();
+	await waitForRoute(router, "home");
+
+	let result: NavigationResult | undefined;
+	await captureErrorsAsync(async () => {
+		HashChanger.getInstance().setHash("protected");
+		result = await router.navigationSettled();
+	});
+
+	assert.strictEqual(result!.status, NavigationOutcome.Blocked, "Status is blocked");
+	assert.ok(result!.error instanceof GuardTimeoutError, "Blocked result carries the GuardTimeoutError");
+	assert.strictEqual(HashChanger.getInstance().getHash(), "", "Hash restored");
+});
+
+QUnit.test("'allow' policy commits the navigation", async function (assert: Assert) {
+	router = createRouterWithOptions({ guardTimeout: 30, guardTimeoutPolicy: "allow" });
+	router.addRouteGuard("protected", neverSettles);
+	router.initialize();
+	await waitForRoute(router, "home");
+
+	const result = await router.navigate("protected");
+	assert.strictEqual(result.status, NavigationOutcome.Committed, "Status is committed");
+	assert.strictEqual(result.route, "protected", "Target route active");
+});
+
+QUnit.test("Per-guard timeout applies without a router-level timeout", async function (assert: Assert) {
+	router = createRouter();
+	router.addLeaveGuard("home", neverSettles, { timeout: 30 });
+	router.initialize();
+	await waitForRoute(router, "home");
+
+	let result: NavigationResult | undefined;
+	await captureErrorsAsync(async () => {
+		result = await router.navigate("protected");
+	});
+
+	assert.strictEqual(result!.status, NavigationOutcome.Error, "Status is error");
+	assert.strictEqual((result!.error as GuardTimeoutError).route, "home", "Timeout reports the route being left");
+});
+
+QUnit.test("Timeout applies to guards on redirect targets", async function (assert: Assert) {
+	router = createRouterWithOptions({ guardTimeout: 30 });
+	router.addRouteGuard("forbidden", () => "protected");
+	router.addRouteGuard("protected", neverSettles);
+	router.initialize();
+	await waitForRoute(router, "home");
+
+	let result: NavigationResult | undefined;
+	await captureErrorsAsync(async () => {
+		result = await router.navigate("forbidden");
+	});
+
+	assert.strictEqual(result!.status, NavigationOutcome.Error, "Redirect chain settles as error");
+	assert.ok(result!.error instanceof GuardTimeoutError, "Error is a GuardTimeoutError");
+});
+
+QUnit.test("Timeout on a redirect target aborts the shared signal", async function (assert: Assert) {
+	router = createRouterWithOptions({ guardTimeout: 30, guardTimeoutPolicy: "block" });
+	let signal: AbortSignal | undefined;
+	router.addRouteGuard("forbidden", () => "protected");
+	router.addRouteGuard("protected", (context: GuardContext) => {
+		signal = context.signal;
+		return neverSettles();
+	});
+	router.initialize();
+	await waitForRoute(router, "home");
+
+	let result: NavigationResult | undefined;
+	await captureErrorsAsync(async () => {
+		result = await router.navigate("forbidden");
+	});
+
+	assert.strictEqual(result!.status, NavigationOutcome.Blocked, "Redirect chain settles as blocked");
+	assert.ok(signal!.aborted, "Signal of the redirect hop was aborted");
+	assert.strictEqual(signal!.reason, result!.error, "Signal aborted with the timeout error");
+});
+
+QUnit.test("Error handler cannot override the 'error' timeout policy", async function (assert: Assert) {
+	router = createRouterWithOptions({ guardTimeout: 30 });
+	const handler = sinon.stub().returns(true);
+	router.setErrorHandler(handler);
+	router.addRouteGuard("protected", neverSettles);
+	router.initialize();
+	await waitForRoute(router, "home");
+
+	let result: NavigationResult | undefined;
+	await captureErrorsAsync(async () => {
+		result = await router.navigate("protected");
+	});
+
+	assert.strictEqual(result!.status, NavigationOutcome.Error, "Status is error");
+	assert.ok(result!.error instanceof GuardTimeoutError, "Error is a GuardTimeoutError");
+	assert.strictEqual(handler.callCount, 0, "Error handler did not receive the timeout");
+	assert.strictEqual(result!.route, "home", "Previous route stays active");
+});
+
+QUnit.test("Error handler cannot override the 'block' timeout policy", async function (assert: Assert) {
+	router = createRouterWithOptions({ guardTimeout: 30, guardTimeoutPolicy: "block" });
+	const handler = sinon.stub().returns(true);
+	router.setErrorHandler(handler);
+	router.addRouteGuard("protected", neverSettles);
+	router.initialize();
+	await waitForRoute(router, "home");
+
+	let result: NavigationResult | undefined;
+	await captureErrorsAsync(async () => {
+		result = await router.navigate("protected");
+	});
+
+	assert.strictEqual(result!.status, NavigationOutcome.Blocked, "Status is blocked");
+	assert.strictEqual(handler.callCount, 0, "Error handler did not receive the timeout");
+});
+
+// ============================================================
+// Module: Busy indicator
+// ============================================================
+let showStub: sinon.SinonStub;
+let hideStub: sinon.SinonStub;
+
+QUnit.module("Router - Busy indicator", {
+	beforeEach: function () {
+		initHashChanger();
+		showStub = sinon.stub(BusyIndicator, "show");
+		hideStub = sinon.stub(BusyIndicator, "hide");
+	},
+	afterEach: function () {
+		router.destroy();
+		showStub.restore();
+		hideStub.restore();
+		HashChanger.getInstance().setHash("");
+	},
+});
+
+function deferredGuard(): { guard: () => Promise<boolean>; resolve: (value: boolean) => void } {
+	let resolve: (value: boolean) => void = () => {};
+	const promise = new Promise<boolean>((r) => {
+		resolve = r;
+	});
+	return { guard: () => promise, resolve };
+}
+
+QUnit.test("Slow async guard shows the global indicator after the delay", async function (assert: Assert) {
+	router = createRouterWithOptions({ busyIndicator: { delay: 20 } });
+	const { guard, resolve } = deferredGuard();
+	router.addRouteGuard("protected", guard);
+	router.initialize();
+	await waitForRoute(router, "home");
+
+	const pending = router.navigate("protected");
+	assert.strictEqual(showStub.callCount, 0, "Not shown before the delay");
+	await nextTick(60);
+	assert.strictEqual(showStub.callCount, 1, "Shown once the delay elapsed");
+
+	resolve(true);
+	const result = await pending;
+	await nextTick(0);
+	assert.strictEqual(result.status, NavigationOutcome.Committed, "Navigation committed");
+	assert.strictEqual(hideStub.callCount, 1, "Hidden after settlement");
+});
+
+QUnit.test("Guards settling within the delay never show the indicator", async function (assert: Assert) {
+	router = createRouterWithOptions({ busyIndicator: { delay: 200 } });
+	router.addRouteGuard("protected", () => Promise.resolve(true));
+	router.initialize();
+	await waitForRoute(router, "home");
+
+	await router.navigate("protected");
+	await nextTick(0);
+	assert.strictEqual(showStub.callCount, 0, "Never shown");
+	assert.strictEqual(hideStub.callCount, 0, "Never hidden");
+});
+
+QUnit.test("Indicator is disabled by default", async function (assert: Assert) {
+	router = createRouter();
+	const { guard, resolve } = deferredGuard();
+	router.addRouteGuard("protected", guard);
+	router.initialize();
+	await waitForRoute(router, "home");
+
+	const pending = router.navigate("protected");
+	await nextTick(1100);
+	resolve(true);
+	await pending;
+	assert.strictEqual(showStub.callCount, 0, "Never shown");
+});
+
+QUnit.test("Superseding navigation keeps the indicator visible", async function (assert: Assert) {
+	router = createRouterWithOptions({ busyIndicator: { delay: 20 } });
+	const first = deferredGuard();
+	const second = deferredGuard();
+	router.addRouteGuard("protected", first.guard);
+	router.addRouteGuard("forbidden", second.guard);
+	router.initialize();
+	await waitForRoute(router, "home");
+
+	const firstPending = router.navigate("protected");
+	await nextTick(60);
+	const secondPending = router.navigate("forbidden");
+	assert.strictEqual((await firstPending).status, NavigationOutcome.Cancelled, "First navigation cancelled");
+	await nextTick(0);
+	assert.strictEqual(hideStub.callCount, 0, "Not hidden between navigations");
+
+	second.resolve(true);
+	await secondPending;
+	await nextTick(0);
+	assert.strictEqual(showStub.callCount, 1, "Shown once");
+	assert.strictEqual(hideStub.callCount, 1, "Hidden once the last navigation settled");
+});
+
+QUnit.test("'control' option sets the control busy and restores its delay", async function (assert: Assert) {
+	const button = new Button({ busyIndicatorDelay: 500 });
+	router = createRouterWithOptions({ busyIndicator: { delay: 20, control: button.getId() } });
+	const { guard, resolve } = deferredGuard();
+	router.addRouteGuard("protected", guard);
+	router.initialize();
+	await waitForRoute(router, "home");
+
+	const pending = router.navigate("protected");
+	await nextTick(60);
+	assert.ok(button.getBusy(), "Control is busy");
+	assert.strictEqual(showStub.callCount, 0, "Global indicator not used");
+
+	resolve(true);
+	await pending;
+	await nextTick(0);
+	assert.notOk(button.getBusy(), "Control no longer busy");
+	assert.strictEqual(button.getBusyIndicatorDelay(), 500, "Control delay restored");
+	button.destroy();
+});
+
+QUnit.test("Destroying the router hides a visible indicator", async function (assert: Assert) {
+	router = createRouterWithOptions({ busyIndicator: { delay: 20 } });
+	router.addRouteGuard("protected", neverSettles);
+	router.initialize();
+	await waitForRoute(router, "home");
+
+	void router.navigate("protected");
+	await nextTick(60);
+	assert.strictEqual(showStub.callCount, 1, "Shown while pending");
+	router.destroy();
+	assert.strictEqual(hideStub.callCount, 1, "Hidden on destroy");
+	router = createRouter();
+});
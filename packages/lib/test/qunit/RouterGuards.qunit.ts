@@ -1,6 +1,9 @@
 import sinon from "sinon";
 import Log from "sap/base/Log";
+import coreLibrary from "sap/ui/core/library";
 import HashChanger from "sap/ui/core/routing/HashChanger";
+import Text from "sap/m/Text";
+import History from "sap/ui/core/routing/History";
 import type {
 	GuardContext,
 	GuardFn,
@@ -10,6 +13,8 @@ import type {
 	RouteGuardConfig,
 } from "ui5/guard/router/types";
 import NavigationOutcome from "ui5/guard/router/NavigationOutcome";
+import ResolveRejection from "ui5/guard/router/ResolveRejection";
+import { removeOnDestroy } from "ui5/guard/router/lifecycle";
 import type { Route$PatternMatchedEvent } from "sap/ui/core/routing/Route";
 import {
 	addGuardUnsafe,
@@ -17,6 +22,7 @@ import {
 	addRouteGuardUnsafe,
 	assertBlocked,
 	createRouter,
+	getHash,
 	initHashChanger,
 	nextTick,
 	waitForRoute,
@@ -192,6 +198,76 @@ QUnit.test("Guard receives correct context", async function (assert: Assert) {
 	assert.deepEqual(capturedContext!.toArguments, { id: "99" }, "toArguments is correct");
 });
 
+const HistoryDirection = coreLibrary.routing.HistoryDirection;
+
+QUnit.test("Context reports trigger 'initial' for the first parsed hash", async function (assert: Assert) {
+	const triggers: string[] = [];
+	router.addGuard((context: GuardContext) => {
+		triggers.push(context.trigger);
+		return true;
+	});
+	router.initialize();
+	await waitForRoute(router, "home");
+
+	assert.deepEqual(triggers, ["initial"], "Initial navigation reported as 'initial'");
+});
+
+QUnit.test("Context reports trigger 'navTo' with NewEntry or Unknown direction", async function (assert: Assert) {
+	router.initialize();
+	await waitForRoute(router, "home");
+	const contexts: GuardContext[] = [];
+	router.addGuard((context: GuardContext) => {
+		contexts.push(context);
+		return true;
+	});
+
+	router.navTo("protected");
+	await waitForRoute(router, "protected");
+	router.navTo("forbidden", {}, true);
+	await waitForRoute(router, "forbidden");
+
+	assert.strictEqual(contexts[0].trigger, "navTo", "navTo reported as 'navTo'");
+	assert.strictEqual(contexts[0].direction, HistoryDirection.NewEntry, "Pushing navTo is a new entry");
+	assert.strictEqual(contexts[1].direction, HistoryDirection.Unknown, "Replacing navTo has unknown direction");
+});
+
+QUnit.test("Context reports trigger 'hashchange' with the History direction", async function (assert: Assert) {
+	router.initialize();
+	await waitForRoute(router, "home");
+	let captured: GuardContext | null = null;
+	router.addGuard((context: GuardContext) => {
+		captured = context;
+		return true;
+	});
+
+	HashChanger.getInstance().setHash("protected");
+	await waitForRoute(router, "protected");
+
+	assert.strictEqual(captured!.trigger, "hashchange", "Hash change reported as 'hashchange'");
+	assert.strictEqual(
+		captured!.direction,
+		History.getInstance().getDirection() ?? HistoryDirection.Unknown,
+		"Direction read from the History",
+	);
+});
+
+QUnit.test("Redirect target guards see trigger 'redirect' and the original direction", async function (assert: Assert) {
+	router.initialize();
+	await waitForRoute(router, "home");
+	let redirectContext: GuardContext | null = null;
+	router.addRouteGuard("forbidden", () => "protected");
+	router.addRouteGuard("protected", (context: GuardContext) => {
+		redirectContext = context;
+		return true;
+	});
+
+	router.navTo("forbidden");
+	await waitForRoute(router, "protected");
+
+	assert.strictEqual(redirectContext!.trigger, "redirect", "Redirect hop reported as 'redirect'");
+	assert.strictEqual(redirectContext!.direction, HistoryDirection.NewEntry, "Direction of the original navTo");
+});
+
 // ============================================================
 // Module: Guard execution order
 // ============================================================
@@ -835,6 +911,88 @@ QUnit.test("removeRouteGuard with object form returns router for chaining", func
 	assert.strictEqual(result, router, "removeRouteGuard with object form returns router");
 });
 
+// ============================================================
+// Module: Global leave guards
+// ============================================================
+QUnit.module("Router - Global leave guards", standardHooks);
+
+QUnit.test("Global leave guard blocks leaving any route", async function (assert: Assert) {
+	router.addGlobalLeaveGuard(() => false);
+	router.initialize();
+	await waitForRoute(router, "home");
+
+	await assertBlocked(assert, router, () => router.navTo("protected"), "Blocked leaving home");
+	assert.strictEqual(HashChanger.getInstance().getHash(), "", "Hash unchanged");
+});
+
+QUnit.test("Global leave guard runs before route leave guards and enter guards", async function (assert: Assert) {
+	const order: string[] = [];
+	router.addGuard(() => {
+		order.push("globalEnter");
+		return true;
+	});
+	router.addLeaveGuard("home", () => {
+		order.push("routeLeave");
+		return true;
+	});
+	router.addGlobalLeaveGuard(() => {
+		order.push("globalLeave");
+		return true;
+	});
+	router.initialize();
+	await waitForRoute(router, "home");
+	order.length = 0;
+
+	router.navTo("protected");
+	await waitForRoute(router, "protected");
+	assert.deepEqual(order, ["globalLeave", "routeLeave", "globalEnter"], "Execution order");
+});
+
+QUnit.test("Global leave guard receives the context of the route being left", async function (assert: Assert) {
+	const seen: string[] = [];
+	router.addGlobalLeaveGuard((context: GuardContext) => {
+		seen.push(`${context.fromRoute}->${context.toRoute}`);
+		return true;
+	});
+	router.initialize();
+	await waitForRoute(router, "home");
+
+	router.navTo("protected");
+	await waitForRoute(router, "protected");
+	router.navTo("forbidden");
+	await waitForRoute(router, "forbidden");
+	assert.deepEqual(seen, ["home->protected", "protected->forbidden"], "Ran once per route left");
+});
+
+QUnit.test("Global leave guard does not run for the initial navigation", async function (assert: Assert) {
+	let calls = 0;
+	router.addGlobalLeaveGuard(() => {
+		calls++;
+		return true;
+	});
+	router.initialize();
+	await waitForRoute(router, "home");
+	assert.strictEqual(calls, 0, "Nothing to leave on initial navigation");
+});
+
+QUnit.test("removeGlobalLeaveGuard removes the guard", async function (assert: Assert) {
+	const guard: LeaveGuardFn = () => false;
+	router.addGlobalLeaveGuard(guard);
+	router.removeGlobalLeaveGuard(guard);
+	router.initialize();
+	await waitForRoute(router, "home");
+
+	router.navTo("protected");
+	await waitForRoute(router, "protected");
+	assert.strictEqual(HashChanger.getInstance().getHash(), "protected", "Navigation allowed after removal");
+});
+
+QUnit.test("addGlobalLeaveGuard and removeGlobalLeaveGuard return the router for chaining", function (assert: Assert) {
+	const guard: LeaveGuardFn = () => true;
+	assert.strictEqual(router.addGlobalLeaveGuard(guard), router, "addGlobalLeaveGuard returns router");
+	assert.strictEqual(router.removeGlobalLeaveGuard(guard), router, "removeGlobalLeaveGuard returns router");
+});
+
 // ============================================================
 // Module: Leave guards with unmatched routes (FLP cross-app navigation)
 // ============================================================
@@ -908,3 +1066,150 @@ QUnit.test("Guard context has empty toRoute for unmatched hash but valid fromRou
 	assert.strictEqual(capturedContext!.toRoute, "", "toRoute is empty for unmatched hash");
 	assert.strictEqual(capturedContext!.toHash, "cross-app-intent", "toHash is the raw intent hash");
 });
+
+// ============================================================
+// Module: Guard registration handles
+// ============================================================
+QUnit.module("Router - Guard registration handles", standardHooks);
+
+QUnit.test("register methods return handles that remove the guard", async function (assert: Assert) {
+	const enter = router.registerGuard(() => false);
+	const route = router.registerRouteGuard("protected", { beforeEnter: () => false, beforeLeave: () => false });
+	router.initialize();
+	await waitForRoute(router, "home");
+
+	assert.strictEqual((await router.navigate("forbidden")).status, NavigationOutcome.Blocked, "Global guard active");
+	enter.remove();
+	enter.remove();
+	assert.strictEqual(
+		(await router.navigate("forbidden")).status,
+		NavigationOutcome.Committed,
+		"Global guard removed",
+	);
+
+	assert.strictEqual((await router.navigate("protected")).status, NavigationOutcome.Blocked, "Route guard active");
+	route.remove();
+	assert.strictEqual((await router.navigate("protected")).status, NavigationOutcome.Committed, "Enter guard removed");
+	assert.strictEqual((await router.navigate("home")).status, NavigationOutcome.Committed, "Leave guard removed");
+});
+
+QUnit.test("leave guard handles remove their guard", async function (assert: Assert) {
+	const global = router.registerGlobalLeaveGuard(() => false);
+	const route = router.registerLeaveGuard("home", () => false);
+	router.initialize();
+	await waitForRoute(router, "home");
+
+	global.remove();
+	assert.strictEqual(
+		(await router.navigate("protected")).status,
+		NavigationOutcome.Blocked,
+		"Route leave guard active",
+	);
+	route.remove();
+	assert.strictEqual((await router.navigate("protected")).status, NavigationOutcome.Committed, "Both removed");
+});
+
+QUnit.test("removeOnDestroy removes registrations when the owner is destroyed", async function (assert: Assert) {
+	const owner = new Text();
+	removeOnDestroy(
+		owner,
+		router.registerRouteGuard("protected", () => false),
+	);
+	removeOnDestroy(
+		owner,
+		router.registerRouteGuard("forbidden", () => false),
+	);
+	router.initialize();
+	await waitForRoute(router, "home");
+
+	assert.strictEqual((await router.navigate("protected")).status, NavigationOutcome.Blocked, "Guard active");
+	owner.destroy();
+	assert.ok(owner.isDestroyed(), "Owner destroyed normally");
+	assert.strictEqual((await router.navigate("protected")).status, NavigationOutcome.Committed, "First guard removed");
+	assert.strictEqual(
+		(await router.navigate("forbidden")).status,
+		NavigationOutcome.Committed,
+		"Second guard removed",
+	);
+});
+
+QUnit.test("removeOnDestroy removes immediately for a destroyed owner", async function (assert: Assert) {
+	const owner = new Text();
+	owner.destroy();
+	removeOnDestroy(
+		owner,
+		router.registerRouteGuard("protected", () => false),
+	);
+	router.initialize();
+	await waitForRoute(router, "home");
+
+	assert.strictEqual((await router.navigate("protected")).status, NavigationOutcome.Committed, "Guard never active");
+});
+
+// ============================================================
+// Module: One-shot guards
+// ============================================================
+QUnit.module("Router - One-shot guards", standardHooks);
+
+QUnit.test("once guard redirects a single time", async function (assert: Assert) {
+	router.addRouteGuard("protected", () => "forbidden", { once: true });
+	router.initialize();
+	await waitForRoute(router, "home");
+
+	assert.strictEqual((await router.navigate("protected")).route, "forbidden", "First navigation redirected");
+	assert.strictEqual((await router.navigate("protected")).route, "protected", "Second navigation committed");
+});
+
+// ============================================================
+// Module: Data resolvers
+// ============================================================
+QUnit.module("Router - Data resolvers", standardHooks);
+
+QUnit.test("resolved data is available when the route matches", async function (assert: Assert) {
+	let signal: AbortSignal | undefined;
+	router.addRouteGuard("detail", (context) => {
+		signal = context.signal;
+		return true;
+	});
+	router.addResolver("detail", "order", (context) => {
+		assert.strictEqual(context.signal, signal, "Resolver shares the guard's AbortSignal");
+		return Promise.resolve({ id: context.toArguments.id });
+	});
+	let matched: unknown;
+	router.getRoute("detail")!.attachPatternMatched(() => {
+		matched = router.getResolvedData("detail");
+	});
+	router.initialize();
+	await waitForRoute(router, "home");
+
+	const result = await router.navigate("detail", { id: "7" });
+	assert.strictEqual(result.status, NavigationOutcome.Committed, "Navigation committed");
+	assert.deepEqual(matched, { order: { id: "7" } }, "Data set before patternMatched");
+
+	HashChanger.getInstance().setHash("detail/8");
+	await router.navigationSettled();
+	assert.deepEqual(router.getResolvedData("detail"), { order: { id: "8" } }, "Hash changes run resolvers too");
+
+	await router.navigate("home");
+	await router.navigate("detail", { id: "9" }, { skipGuards: true });
+	assert.strictEqual(router.getResolvedData("detail"), undefined, "No data when resolvers were skipped");
+});
+
+QUnit.test("resolver rejections redirect or fail the navigation", async function (assert: Assert) {
+	router.addResolver("detail", "order", (context) =>
+		context.toArguments.id === "missing"
+			? Promise.reject(new ResolveRejection("forbidden"))
+			: Promise.reject(new Error("backend down")),
+	);
+	router.initialize();
+	await waitForRoute(router, "home");
+
+	const redirected = await router.navigate("detail", { id: "missing" });
+	assert.strictEqual(redirected.status, NavigationOutcome.Redirected, "ResolveRejection redirects");
+	assert.strictEqual(redirected.route, "forbidden", "Redirect target committed");
+
+	const failed = await router.navigate("detail", { id: "1" });
+	assert.strictEqual(failed.status, NavigationOutcome.Error, "Other errors fail the navigation");
+	assert.strictEqual(failed.decidedBy?.phase, "resolve", "Resolver reported as decidedBy");
+	assert.strictEqual(getHash(), "forbidden", "Previous hash kept");
+});
@@ -8,11 +8,13 @@ import type {
 	Router$NavigationSettledEvent,
 } from "ui5/guard/router/types";
 import NavigationOutcome from "ui5/guard/router/NavigationOutcome";
+import RedirectLoopError from "ui5/guard/router/RedirectLoopError";
 import {
 	assertBlocked,
 	captureErrorsAsync,
 	captureWarningsAsync,
 	createRouter,
+	createRouterWithOptions,
 	getHash,
 	initHashChanger,
 	nextTick,
@@ -953,7 +955,7 @@ QUnit.test("Async guard rejecting during redirect chain settles as Error", async
 });
 
 QUnit.test("Max redirect depth exceeded blocks with error", async function (assert: Assert) {
-	// Create a chain that exceeds MAX_REDIRECT_DEPTH (10) using parameterized redirects
+	// Create a chain that exceeds maxRedirectDepth (default 10) using parameterized redirects
 	// to the same route with different params (different hashes, avoids visited-set detection).
 	let callCount = 0;
 	router.addRouteGuard("detail", (ctx: GuardContext) => {
@@ -969,7 +971,7 @@ QUnit.test("Max redirect depth exceeded blocks with error", async function (asse
 		const result = await router.navigationSettled();
 		assert.strictEqual(result.status, NavigationOutcome.Blocked, "Depth exceeded blocked");
 	});
-	// 1 initial guard call + MAX_REDIRECT_DEPTH (10) redirect hops = 11 total
+	// 1 initial guard call + maxRedirectDepth (10) redirect hops = 11 total
 	assert.ok(callCount <= 11, `Guard called at most 11 times (was ${callCount})`);
 	assert.ok(
 		errors.some((e) => e.message.includes("maximum depth")),
@@ -1004,3 +1006,333 @@ QUnit.test("Redirect to current hash evaluates guards and commits", async functi
 	assert.strictEqual(result.status, NavigationOutcome.Redirected, "Redirected settlement");
 	assert.ok(homeGuardCalled, "Guard on redirect target (current hash) was evaluated");
 });
+
+// ============================================================
+// Module: Redirect loop policy
+// ============================================================
+QUnit.module("Router - Redirect loop policy", {
+	beforeEach: function () {
+		initHashChanger();
+	},
+	afterEach: function () {
+		router.destroy();
+		HashChanger.getInstance().setHash("");
+	},
+});
+
+function addProtectedLoop(): void {
+	router.addRouteGuard("protected", () => "forbidden");
+	router.addRouteGuard("forbidden", () => "protected");
+}
+
+QUnit.test("Blocked loop result carries a RedirectLoopError", async function (assert: Assert) {
+	router = createRouter();
+	addProtectedLoop();
+	router.initialize();
+	await waitForRoute(router, "home");
+
+	await captureErrorsAsync(async () => {
+		const result = await router.navigate("protected");
+		assert.strictEqual(result.status, NavigationOutcome.Blocked, "Blocked by default");
+		assert.ok(result.error instanceof RedirectLoopError, "RedirectLoopError attached");
+		const error = result.error as RedirectLoopError;
+		assert.strictEqual(error.kind, "loop", "kind is loop");
+		assert.deepEqual(error.visited, ["protected", "forbidden", "protected"], "visited lists the chain");
+	});
+	assert.strictEqual(getHash(), "", "Hash unchanged");
+});
+
+QUnit.test('redirectLoopPolicy "error" settles as Error', async function (assert: Assert) {
+	router = createRouterWithOptions({ redirectLoopPolicy: "error" });
+	addProtectedLoop();
+	router.initialize();
+	await waitForRoute(router, "home");
+
+	await captureErrorsAsync(async () => {
+		const result = await router.navigate("protected");
+		assert.strictEqual(result.status, NavigationOutcome.Error, "Settled as Error");
+		assert.ok(result.error instanceof RedirectLoopError, "RedirectLoopError attached");
+	});
+	assert.strictEqual(getHash(), "", "Hash unchanged");
+});
+
+QUnit.test('redirectLoopPolicy "fallback" redirects to redirectLoopFallback', async function (assert: Assert) {
+	let homeGuardCalls = 0;
+	router = createRouterWithOptions({ redirectLoopPolicy: "fallback", redirectLoopFallback: "home" });
+	addProtectedLoop();
+	router.initialize();
+	await waitForRoute(router, "home");
+	router.addRouteGuard("home", () => {
+		homeGuardCalls++;
+		return "protected";
+	});
+
+	await captureErrorsAsync(async () => {
+		const result = await router.navigate("protected");
+		assert.strictEqual(result.status, NavigationOutcome.Redirected, "Settled as Redirected");
+		assert.strictEqual(result.route, "home", "Landed on the fallback route");
+		assert.ok(result.error instanceof RedirectLoopError, "RedirectLoopError attached");
+	});
+	assert.strictEqual(homeGuardCalls, 0, "Fallback route guards are not evaluated");
+});
+
+QUnit.test("maxRedirectDepth limits the redirect chain", async function (assert: Assert) {
+	let callCount = 0;
+	router = createRouterWithOptions({ maxRedirectDepth: 2 });
+	router.addRouteGuard("detail", (ctx: GuardContext) => {
+		callCount++;
+		return { route: "detail", parameters: { id: String(Number(ctx.toArguments.id) + 1) } };
+	});
+	router.initialize();
+	await waitForRoute(router, "home");
+
+	await captureErrorsAsync(async () => {
+		const result = await router.navigate("detail", { id: "0" });
+		assert.strictEqual(result.status, NavigationOutcome.Blocked, "Blocked");
+		const error = result.error as RedirectLoopError;
+		assert.strictEqual(error.kind, "depth", "kind is depth");
+		assert.deepEqual(error.visited, ["detail/0", "detail/1", "detail/2"], "visited lists the chain");
+	});
+	assert.strictEqual(callCount, 3, "1 initial guard call + 2 redirect hops");
+});
+
+// ============================================================
+// Module: Navigation transition
+// ============================================================
+QUnit.module("Router - Navigation transition", standardHooks);
+
+QUnit.test("GuardContext.transition describes the navTo() call", async function (assert: Assert) {
+	let captured: GuardContext | null = null;
+	router.addRouteGuard("detail", (context: GuardContext) => {
+		captured = context;
+		return true;
+	});
+	router.initialize();
+	await waitForRoute(router, "home");
+
+	router.navTo("detail", { id: "42" });
+	await waitForRoute(router, "detail");
+
+	const { transition } = captured!;
+	assert.strictEqual(transition.route, "detail", "route is the navTo() route name");
+	assert.deepEqual(transition.parameters, { id: "42" }, "parameters are the navTo() parameters");
+	assert.strictEqual(transition.hash, "detail/42", "hash is the target hash");
+	assert.strictEqual(transition.bag, captured!.bag, "bag is the navigation's guard bag");
+	assert.ok(Object.isFrozen(transition), "transition is frozen");
+});
+
+QUnit.test("Redirect chain hops share the original transition", async function (assert: Assert) {
+	const transitions: string[] = [];
+	router.addRouteGuard("protected", (context: GuardContext) => {
+		transitions.push(context.transition.route);
+		return "forbidden";
+	});
+	router.addRouteGuard("forbidden", (context: GuardContext) => {
+		transitions.push(context.transition.route);
+		return true;
+	});
+	router.initialize();
+	await waitForRoute(router, "home");
+
+	router.navTo("protected");
+	const result = await router.navigationSettled();
+
+	assert.strictEqual(result.status, NavigationOutcome.Redirected, "Settled as Redirected");
+	assert.deepEqual(transitions, ["protected", "protected"], "Both hops see the original destination");
+	assert.strictEqual(result.transition?.route, "protected", "Settlement exposes the intercepted navigation");
+	assert.strictEqual(result.transition?.hash, "protected", "Settlement transition carries the original hash");
+});
+
+QUnit.test("Blocked and Error settlements expose the transition", async function (assert: Assert) {
+	router.addRouteGuard("protected", () => false);
+	router.addRouteGuard("forbidden", () => {
+		throw new Error("boom");
+	});
+	router.initialize();
+	await waitForRoute(router, "home");
+
+	router.navTo("protected");
+	const blocked = await router.navigationSettled();
+	assert.strictEqual(blocked.status, NavigationOutcome.Blocked, "Blocked");
+	assert.strictEqual(blocked.transition?.route, "protected", "Blocked settlement carries the transition");
+
+	await captureErrorsAsync(async () => {
+		router.navTo("forbidden");
+		const failed = await router.navigationSettled();
+		assert.strictEqual(failed.status, NavigationOutcome.Error, "Error");
+		assert.strictEqual(failed.transition?.route, "forbidden", "Error settlement carries the transition");
+	});
+});
+
+QUnit.test("Committed settlement has no transition", async function (assert: Assert) {
+	router.initialize();
+	await waitForRoute(router, "home");
+
+	router.navTo("protected");
+	const result = await router.navigationSettled();
+	assert.strictEqual(result.status, NavigationOutcome.Committed, "Committed");
+	assert.strictEqual(result.transition, undefined, "No transition on committed navigation");
+});
+
+QUnit.test("retry() replays the navigation through the guard pipeline", async function (assert: Assert) {
+	let loggedIn = false;
+	let guardCalls = 0;
+	router.addRouteGuard("detail", () => {
+		guardCalls++;
+		return loggedIn ? true : "forbidden";
+	});
+	router.initialize();
+	await waitForRoute(router, "home");
+
+	router.navTo("detail", { id: "7" });
+	const redirected = await router.navigationSettled();
+	assert.strictEqual(redirected.status, NavigationOutcome.Redirected, "First attempt redirected");
+
+	loggedIn = true;
+	redirected.transition!.retry();
+	const replayed = await router.navigationSettled();
+	assert.strictEqual(replayed.status, NavigationOutcome.Committed, "Replay committed");
+	assert.strictEqual(replayed.route, "detail", "Replay reached the original route");
+	assert.strictEqual(getHash(), "detail/7", "Replay restored the original parameters");
+	assert.strictEqual(guardCalls, 2, "Guard ran again for the replay");
+});
+
+QUnit.test("retry({ skipGuards: true }) replays without running guards", async function (assert: Assert) {
+	let guardCalls = 0;
+	router.addRouteGuard("protected", () => {
+		guardCalls++;
+		return "forbidden";
+	});
+	router.initialize();
+	await waitForRoute(router, "home");
+
+	router.navTo("protected");
+	const redirected = await router.navigationSettled();
+	assert.strictEqual(getHash(), "forbidden", "Redirected to forbidden");
+
+	redirected.transition!.retry({ skipGuards: true });
+	const replayed = await router.navigationSettled();
+	assert.strictEqual(replayed.status, NavigationOutcome.Committed, "Replay committed");
+	assert.strictEqual(getHash(), "protected", "Replay reached the original route");
+	assert.strictEqual(guardCalls, 1, "Guard did not run for the replay");
+});
+
+QUnit.test(
+	"retry({ skipPassedGuards: true }) re-runs only the guards that did not pass",
+	async function (assert: Assert) {
+		const calls: string[] = [];
+		let loggedIn = false;
+		router.addGuard(() => {
+			calls.push("global");
+			return true;
+		});
+		router.addRouteGuard("detail", () => {
+			calls.push("consent");
+			return true;
+		});
+		router.addRouteGuard("detail", () => {
+			calls.push("auth");
+			return loggedIn ? true : "forbidden";
+		});
+		router.addRouteGuard("detail", () => {
+			calls.push("after");
+			return true;
+		});
+		router.initialize();
+		await waitForRoute(router, "home");
+
+		router.navTo("detail", { id: "7" });
+		const redirected = await router.navigationSettled();
+		assert.strictEqual(redirected.status, NavigationOutcome.Redirected, "First attempt redirected");
+		calls.length = 0;
+
+		loggedIn = true;
+		const replayed = await redirected.transition!.retry({ skipPassedGuards: true });
+		assert.strictEqual(replayed.status, NavigationOutcome.Committed, "Replay committed");
+		assert.strictEqual(getHash(), "detail/7", "Replay reached the original route");
+		assert.deepEqual(calls, ["auth", "after"], "Only the redirecting guard and the guards after it ran");
+	},
+);
+
+QUnit.test("retry({ skipPassedGuards: true }) records passes of async guards", async function (assert: Assert) {
+	const calls: string[] = [];
+	let loggedIn = false;
+	router.addRouteGuard("detail", async () => {
+		calls.push("consent");
+		return true;
+	});
+	router.addRouteGuard("detail", async () => {
+		calls.push("auth");
+		return loggedIn ? true : "forbidden";
+	});
+	router.initialize();
+	await waitForRoute(router, "home");
+
+	router.navTo("detail", { id: "8" });
+	const redirected = await router.navigationSettled();
+	calls.length = 0;
+
+	loggedIn = true;
+	const replayed = await redirected.transition!.retry({ skipPassedGuards: true });
+	assert.strictEqual(replayed.status, NavigationOutcome.Committed, "Replay committed");
+	assert.deepEqual(calls, ["auth"], "The async guard that passed did not run again");
+});
+
+QUnit.test("retry() without skipPassedGuards runs every guard", async function (assert: Assert) {
+	const calls: string[] = [];
+	let loggedIn = false;
+	router.addRouteGuard("detail", () => {
+		calls.push("consent");
+		return true;
+	});
+	router.addRouteGuard("detail", () => {
+		calls.push("auth");
+		return loggedIn ? true : "forbidden";
+	});
+	router.initialize();
+	await waitForRoute(router, "home");
+
+	router.navTo("detail", { id: "9" });
+	const redirected = await router.navigationSettled();
+	calls.length = 0;
+
+	loggedIn = true;
+	await redirected.transition!.retry();
+	assert.deepEqual(calls, ["consent", "auth"], "All guards ran for the replay");
+
+	calls.length = 0;
+	router.navTo("home");
+	await router.navigationSettled();
+	router.navTo("detail", { id: "10" });
+	await router.navigationSettled();
+	assert.deepEqual(calls, ["consent", "auth"], "Skipped guards do not leak into later navigations");
+});
+
+QUnit.test(
+	"Browser-initiated transition carries parsed arguments and replays via navTo()",
+	async function (assert: Assert) {
+		let allow = false;
+		let captured: GuardContext | null = null;
+		router.addRouteGuard("detail", (context: GuardContext) => {
+			captured = context;
+			return allow;
+		});
+		router.initialize();
+		await waitForRoute(router, "home");
+
+		HashChanger.getInstance().setHash("detail/5");
+		const blocked = await router.navigationSettled();
+		assert.strictEqual(blocked.status, NavigationOutcome.Blocked, "Browser navigation blocked");
+		assert.strictEqual(captured!.transition.route, "detail", "route resolved from the hash");
+		assert.deepEqual(captured!.transition.parameters, { id: "5" }, "parameters parsed from the hash");
+
+		allow = true;
+		const navToSpy = sinon.spy(router, "navTo");
+		blocked.transition!.retry();
+		const replayed = await router.navigationSettled();
+		assert.ok(navToSpy.calledWith("detail", { id: "5" }), "Replay went through navTo()");
+		assert.strictEqual(replayed.status, NavigationOutcome.Committed, "Replay committed");
+		assert.strictEqual(getHash(), "detail/5", "Replay restored the hash");
+		navToSpy.restore();
+	},
+);
@@ -1,6 +1,7 @@
 import Component from "sap/ui/core/Component";
 import HashChanger from "sap/ui/core/routing/HashChanger";
-import type { GuardContext, GuardRouter } from "ui5/guard/router/types";
+import type { GuardContext, GuardRouter, GuardRouterOptions } from "ui5/guard/router/types";
+import { createBagKey } from "ui5/guard/router/bag";
 import NavigationOutcome from "ui5/guard/router/NavigationOutcome";
 import {
 	addRouteDynamic,
@@ -125,6 +126,61 @@ QUnit.test("invalid inheritance value warns and falls back to default", function
 	assert.deepEqual(meta, {}, "metadata does not propagate with invalid inheritance (falls back to none)");
 });
 
+QUnit.test(
+	"invalid guardTimeout and guardTimeoutPolicy values warn and fall back to defaults",
+	function (assert: Assert) {
+		const warnings = captureWarnings(() => {
+			router = createRouterWithOptions({ guardTimeout: -1, guardTimeoutPolicy: "retry" });
+		});
+		assert.strictEqual(warnings.length, 2, "one warning per invalid option");
+
+		router.destroy();
+		const nonFinite = captureWarnings(() => {
+			router = createRouterWithOptions({ guardTimeout: Infinity });
+		});
+		assert.strictEqual(nonFinite.length, 1, "non-finite guardTimeout is rejected");
+	},
+);
+
+QUnit.test("invalid busyIndicator values warn and fall back to disabled", function (assert: Assert) {
+	const warnings = captureWarnings(() => {
+		router = createRouterWithOptions({ busyIndicator: "yes" });
+	});
+	assert.strictEqual(warnings.length, 1, "non-boolean, non-object value is rejected");
+
+	router.destroy();
+	const badDelay = captureWarnings(() => {
+		router = createRouterWithOptions({ busyIndicator: { delay: -5 } });
+	});
+	assert.strictEqual(badDelay.length, 1, "negative delay is rejected");
+
+	router.destroy();
+	const badControl = captureWarnings(() => {
+		router = createRouterWithOptions({ busyIndicator: { control: 42 } });
+	});
+	assert.strictEqual(badControl.length, 1, "control must be an ID or a control");
+});
+
+QUnit.test("invalid redirect loop options warn and fall back to defaults", function (assert: Assert) {
+	const warnings = captureWarnings(() => {
+		router = createRouterWithOptions({ maxRedirectDepth: 0, redirectLoopPolicy: "retry" });
+	});
+	assert.strictEqual(warnings.length, 2, "one warning per invalid option");
+
+	router.destroy();
+	const fractional = captureWarnings(() => {
+		router = createRouterWithOptions({ maxRedirectDepth: 2.5 });
+	});
+	assert.strictEqual(fractional.length, 1, "maxRedirectDepth must be an integer");
+
+	router.destroy();
+	const missingFallback = captureWarnings(() => {
+		router = createRouterWithOptions({ redirectLoopPolicy: "fallback" });
+	});
+	assert.strictEqual(missingFallback.length, 1, '"fallback" without redirectLoopFallback warns');
+	assert.ok(missingFallback[0].message.includes("redirectLoopFallback"), "Warning names the missing option");
+});
+
 // ============================================================
 // Module: Router options: unknownRouteRegistration
 // ============================================================
@@ -307,6 +363,31 @@ QUnit.test("bag is shared across multiple redirect hops", async function (assert
 	assert.strictEqual(finalBag!.get("hop2"), true, "data from second hop survives to third");
 });
 
+QUnit.test("typed bag keys address the entry of their name", async function (assert: Assert) {
+	await waitForRoute(router, "home");
+
+	const userKey = createBagKey<{ name: string }>("user");
+	router.addGuard((context: GuardContext) => {
+		context.bag.set(userKey, { name: "Ada" });
+		return true;
+	});
+
+	let typedName: string | undefined;
+	let untyped: unknown;
+	router.addRouteGuard("protected", (context: GuardContext) => {
+		typedName = context.bag.get(userKey)?.name;
+		untyped = context.bag.get("user");
+		return true;
+	});
+
+	router.navTo("protected");
+	await waitForRoute(router, "protected");
+
+	assert.strictEqual(userKey, "user", "key is the plain name at runtime");
+	assert.strictEqual(typedName, "Ada", "value read back through the typed key");
+	assert.deepEqual(untyped, { name: "Ada" }, "same entry under the string name");
+});
+
 // ============================================================
 // Module: Router options: navToPreflight
 // ============================================================
@@ -1478,7 +1559,7 @@ QUnit.test("invalid entries in shorthand array warn and are skipped", function (
 	assert.strictEqual(invalidEntryWarnings.length, 3, "one warning per invalid entry (42, null, empty string)");
 });
 
-QUnit.test("'*' with object form warns about leave and still registers enter guard", async function (assert: Assert) {
+QUnit.test("'*' with object form registers global enter and global leave guards", async function (assert: Assert) {
 	const warnings = captureWarnings(() => {
 		router = new GuardRouterClass(
 			[
@@ -1501,18 +1582,216 @@ QUnit.test("'*' with object form warns about leave and still registers enter gua
 		);
 	});
 
+	assert.strictEqual(warnings.length, 0, "no warnings for '*' object form");
+
+	// The leave guard (blockGuard) does not run for the initial navigation
+	router.initialize();
+	await waitForRoute(router, "home", 5000);
+
+	router.navTo("protected");
+	const result = await router.navigationSettled();
+	assert.strictEqual(result.status, NavigationOutcome.Blocked, "global leave guard from '*' blocks leaving home");
+});
+
+// ============================================================
+// Module: Manifest guard entry objects
+// ============================================================
+QUnit.module("Router - Manifest guard entry objects", {
+	beforeEach: function () {
+		initHashChanger();
+	},
+	afterEach: function () {
+		router.destroy();
+		HashChanger.getInstance().setHash("");
+	},
+});
+
+const WRITER = "ui5/guard/router/qunit/fixtures/guards/bagWriterGuard";
+const READER = "ui5/guard/router/qunit/fixtures/guards/bagReaderGuard";
+
+function createRouterWithGuards(guards: object, guardLoading: "block" | "lazy" = "block"): GuardRouter {
+	return new GuardRouterClass(
+		[
+			{ name: "home", pattern: "" },
+			{ name: "protected", pattern: "protected" },
+		],
+		{
+			async: true,
+			guardRouter: { guardLoading, unknownRouteRegistration: "ignore", guards },
+		} as object,
+	);
+}
+
+QUnit.test("priority on an entry object runs it before earlier entries", async function (assert: Assert) {
+	router = createRouterWithGuards({ protected: [READER, { module: WRITER, priority: 1 }] });
+	router.initialize();
+	await waitForRoute(router, "home", 5000);
+
+	router.navTo("protected");
+	const result = await router.navigationSettled();
+	assert.strictEqual(result.status, NavigationOutcome.Committed, "bagWriter ran first despite being declared last");
+});
+
+QUnit.test("after constraint can reference the name derived from a module path", async function (assert: Assert) {
+	router = createRouterWithGuards({ "*": [{ module: READER, after: "bagWriterGuard" }, WRITER] });
+	router.initialize();
+	await waitForRoute(router, "home", 5000);
+
+	router.navTo("protected");
+	const result = await router.navigationSettled();
+	assert.strictEqual(result.status, NavigationOutcome.Committed, "bagReader ran after bagWriterGuard");
+});
+
+QUnit.test("explicit names apply to lazily loaded guards", async function (assert: Assert) {
+	router = createRouterWithGuards(
+		{
+			protected: [
+				{ module: READER, after: "writer" },
+				{ module: WRITER, name: "writer" },
+			],
+		},
+		"lazy",
+	);
+	router.initialize();
+	await waitForRoute(router, "home", 5000);
+
+	router.navTo("protected");
+	const result = await router.navigationSettled();
+	assert.strictEqual(result.status, NavigationOutcome.Committed, "bagReader ran after the guard named writer");
+});
+
+QUnit.test("group on an entry object can be disabled at runtime", async function (assert: Assert) {
+	router = createRouterWithGuards({
+		protected: [{ module: "ui5/guard/router/qunit/fixtures/guards/blockGuard", group: "maintenance" }],
+	});
+	router.initialize();
+	await waitForRoute(router, "home", 5000);
+
+	assert.strictEqual((await router.navigate("protected")).status, NavigationOutcome.Blocked, "Group enabled");
+	router.setGuardGroupEnabled("maintenance", false);
+	assert.strictEqual((await router.navigate("protected")).status, NavigationOutcome.Committed, "Group disabled");
+});
+
+QUnit.test("imperative guards can order themselves against manifest guard names", async function (assert: Assert) {
+	router = createRouterWithGuards({ "*": [WRITER] });
+	router.initialize();
+	await waitForRoute(router, "home", 5000);
+
+	let sawWriter: boolean | undefined;
+	router.addGuard(
+		(context: GuardContext) => {
+			sawWriter = context.bag.has("writer");
+			return true;
+		},
+		{ before: "bagWriterGuard" },
+	);
+
+	router.navTo("protected");
+	await waitForRoute(router, "protected");
+	assert.strictEqual(sawWriter, false, "imperative guard ran before the manifest guard");
+});
+
+QUnit.test(
+	"manifest guards run ahead of earlier imperative guards of equal priority in both loading modes",
+	async function (assert: Assert) {
+		// "lazy" first, while the module is not cached yet, so its guards expand on the first navigation
+		for (const guardLoading of ["lazy", "block"] as const) {
+			if (guardLoading === "block") {
+				router.destroy();
+				HashChanger.getInstance().setHash("");
+			}
+			router = createRouterWithGuards(
+				{ protected: ["ui5/guard/router/qunit/fixtures/guards/orderRecorderGuards"] },
+				guardLoading,
+			);
+			let seen: unknown;
+			router.addRouteGuard("protected", (context: GuardContext) => {
+				seen = context.bag.get("order");
+				return true;
+			});
+			router.initialize();
+			await waitForRoute(router, "home", 5000);
+
+			router.navTo("protected");
+			await waitForRoute(router, "protected");
+			assert.deepEqual(seen, ["first", "second"], `${guardLoading}: both module exports ran first`);
+
+			router.navTo("home");
+			await waitForRoute(router, "home");
+			router.navTo("protected");
+			await waitForRoute(router, "protected");
+			assert.deepEqual(seen, ["first", "second"], `${guardLoading}: order kept after lazy expansion`);
+		}
+	},
+);
+
+QUnit.test("invalid entry object fields warn and are ignored", function (assert: Assert) {
+	const warnings = captureWarnings(() => {
+		router = createRouterWithGuards({
+			home: [
+				{ module: "ui5/guard/router/qunit/fixtures/guards/allowGuard", priority: "high", before: [1] },
+				{ name: "x" },
+			],
+		});
+	});
+
 	assert.ok(
-		warnings.some((w) => w.message.includes("global leave guards are not supported")),
-		"warning logged about global leave guards",
+		warnings.some((w) => w.message.includes('invalid "priority"')),
+		"warning for invalid priority",
+	);
+	assert.ok(
+		warnings.some((w) => w.message.includes('invalid "before"')),
+		"warning for invalid before",
+	);
+	assert.strictEqual(
+		warnings.filter((w) => w.message.includes("invalid entry")).length,
+		1,
+		"entry without module is skipped",
+	);
+});
+
+/** Async guard that waits a tick, then allows only if bagWriterGuard already ran. */
+function addSlowWriterCheck(parallel: boolean): void {
+	router.addRouteGuard(
+		"protected",
+		async (context: GuardContext) => {
+			await nextTick(10);
+			return context.bag.has("writer");
+		},
+		{ priority: 1, parallel },
 	);
+}
+
+QUnit.test("route-level parallel runs manifest enter guards in one group", async function (assert: Assert) {
+	router = createRouterWithGuards({ protected: { enter: [WRITER], parallel: true } });
+	router.initialize();
+	await waitForRoute(router, "home", 5000);
+	addSlowWriterCheck(true);
+
+	router.navTo("protected");
+	const result = await router.navigationSettled();
+	assert.strictEqual(result.status, NavigationOutcome.Committed, "bagWriter started while the slow guard waited");
+});
 
+QUnit.test("entry objects opt out of route-level parallel", async function (assert: Assert) {
+	router = createRouterWithGuards({ protected: { enter: [{ module: WRITER, parallel: false }], parallel: true } });
 	router.initialize();
 	await waitForRoute(router, "home", 5000);
+	addSlowWriterCheck(true);
 
-	// The enter guard (allowGuard) should run and allow navigation
 	router.navTo("protected");
 	const result = await router.navigationSettled();
-	assert.strictEqual(result.status, NavigationOutcome.Committed, "enter guard from '*' still registered and allows");
+	assert.strictEqual(result.status, NavigationOutcome.Blocked, "bagWriter waited for the slow guard");
+});
+
+QUnit.test("invalid route-level parallel warns and is ignored", function (assert: Assert) {
+	const warnings = captureWarnings(() => {
+		router = createRouterWithGuards({ protected: { enter: [WRITER], parallel: "yes" } });
+	});
+	assert.ok(
+		warnings.some((w) => w.message.includes('invalid "parallel"')),
+		"warning for invalid parallel",
+	);
 });
 
 // ============================================================
@@ -3034,3 +3313,357 @@ QUnit.test("setRouteMeta on unknown route with warn policy logs a warning", asyn
 	const meta = router.getRouteMeta("nonexistent");
 	assert.strictEqual(meta.key, "value", "metadata stored despite warning and accessible after addRoute");
 });
+
+// ============================================================
+// Module: Router - defaultPolicy
+// ============================================================
+QUnit.module("Router - defaultPolicy", {
+	beforeEach: function () {
+		initHashChanger();
+	},
+	afterEach: function () {
+		router.destroy();
+		HashChanger.getInstance().setHash("");
+	},
+});
+
+QUnit.test('"deny" warns about unguarded routes at initialize()', async function (assert: Assert) {
+	router = createRouterWithOptions({ defaultPolicy: "deny", routeMeta: { home: { public: true } } });
+	router.addRouteGuard("protected", () => true);
+
+	const warnings = captureWarnings(() => router.initialize());
+	await waitForRoute(router, "home");
+
+	const unguarded = warnings.filter((w) => w.message.includes('defaultPolicy "deny"'));
+	assert.strictEqual(unguarded.length, 1, "One startup warning");
+	assert.strictEqual(unguarded[0].details, "forbidden, detail", "Lists the unguarded routes");
+});
+
+QUnit.test('"deny" blocks unguarded routes and allows guarded and public ones', async function (assert: Assert) {
+	router = createRouterWithOptions({
+		defaultPolicy: "deny",
+		routeMeta: { home: { public: true }, forbidden: { public: true } },
+	});
+	router.addRouteGuard("protected", () => true);
+	captureWarnings(() => router.initialize());
+	await waitForRoute(router, "home");
+
+	const denied = await router.navigate("detail", { id: "1" });
+	assert.strictEqual(denied.status, NavigationOutcome.Blocked, "Unguarded route blocked");
+	assert.strictEqual(denied.reason, "default-deny", "Reason reported");
+	assert.strictEqual((await router.navigate("protected")).status, NavigationOutcome.Committed, "Guarded route");
+	assert.strictEqual((await router.navigate("forbidden")).status, NavigationOutcome.Committed, "Public route");
+});
+
+QUnit.test("defaultDenyRoute redirects denied navigations", async function (assert: Assert) {
+	router = createRouterWithOptions({
+		defaultPolicy: "deny",
+		defaultDenyRoute: "forbidden",
+		routeMeta: { home: { public: true }, forbidden: { public: true } },
+	});
+	captureWarnings(() => router.initialize());
+	await waitForRoute(router, "home");
+
+	const result = await router.navigate("protected");
+	assert.strictEqual(result.status, NavigationOutcome.Redirected, "Redirected");
+	assert.strictEqual(result.route, "forbidden", "Landed on defaultDenyRoute");
+});
+
+QUnit.test("defaultDenyRoute is reachable without a guard or public metadata", async function (assert: Assert) {
+	router = createRouterWithOptions({
+		defaultPolicy: "deny",
+		defaultDenyRoute: "forbidden",
+		routeMeta: { home: { public: true } },
+	});
+	const warnings = captureWarnings(() => router.initialize());
+	await waitForRoute(router, "home");
+
+	const unguarded = warnings.find((w) => w.message.includes("routes without an enter guard"));
+	assert.strictEqual(unguarded?.details, "protected, detail", "defaultDenyRoute is not listed as unreachable");
+	const result = await router.navigate("protected");
+	assert.strictEqual(result.status, NavigationOutcome.Redirected, "Redirected without a loop");
+	assert.strictEqual(result.route, "forbidden", "Landed on defaultDenyRoute");
+});
+
+QUnit.test("Leave guards run before a default-deny redirect", async function (assert: Assert) {
+	router = createRouterWithOptions({
+		defaultPolicy: "deny",
+		defaultDenyRoute: "forbidden",
+		routeMeta: { home: { public: true } },
+	});
+	let dirty = true;
+	router.addLeaveGuard("home", () => (dirty ? { block: true, reason: "unsaved-changes" } : true));
+	captureWarnings(() => router.initialize());
+	await waitForRoute(router, "home");
+
+	const blocked = await router.navigate("protected");
+	assert.strictEqual(blocked.status, NavigationOutcome.Blocked, "Leave guard blocked");
+	assert.strictEqual(blocked.reason, "unsaved-changes", "Leave guard reason reported");
+
+	dirty = false;
+	const warnings = await captureWarningsAsync(async () => {
+		await router.navigate("protected");
+	});
+	assert.strictEqual(getHash(), "forbidden", "Denial applied once the leave guard allows");
+	assert.deepEqual(
+		warnings.map((w) => w.message),
+		['Route "protected" has no enter guard or public metadata, denied by defaultPolicy "deny"'],
+		"Denied route reported when first navigated to",
+	);
+});
+
+QUnit.test(
+	"Guards added after initialize() and disabled groups are checked per navigation",
+	async function (assert: Assert) {
+		router = createRouterWithOptions({ defaultPolicy: "deny", routeMeta: { home: { public: true } } });
+		captureWarnings(() => router.initialize());
+		await waitForRoute(router, "home");
+
+		router.addRouteGuard("protected", () => true, { group: "auth" });
+		assert.strictEqual(
+			(await router.navigate("protected")).status,
+			NavigationOutcome.Committed,
+			"Late guard opens",
+		);
+
+		router.setGuardGroupEnabled("auth", false);
+		await router.navigate("home");
+		const warnings = await captureWarningsAsync(async () => {
+			const result = await router.navigate("protected");
+			assert.strictEqual(result.reason, "default-deny", "Route denied while its only guard is disabled");
+		});
+		assert.strictEqual(
+			warnings.filter((w) => w.message.startsWith('Route "protected"')).length,
+			1,
+			"Denial logged",
+		);
+	},
+);
+
+QUnit.test('default "allow" and invalid values keep every route reachable', async function (assert: Assert) {
+	const warnings = captureWarnings(() => {
+		router = createRouterWithOptions({ defaultPolicy: "strict", defaultDenyRoute: "" });
+	});
+	assert.strictEqual(warnings.length, 2, "one warning per invalid option");
+	router.initialize();
+	await waitForRoute(router, "home");
+
+	assert.strictEqual((await router.navigate("protected")).status, NavigationOutcome.Committed, "Route reachable");
+});
+
+// ============================================================
+// Module: errorHandler
+// ============================================================
+QUnit.module("Router - errorHandler", {
+	beforeEach: function () {
+		initHashChanger();
+	},
+	afterEach: function () {
+		router.destroy();
+		HashChanger.getInstance().setHash("");
+	},
+});
+
+QUnit.test("setErrorHandler redirects failed navigations or allows them degraded", async function (assert: Assert) {
+	router = createRouterWithOptions({});
+	router.initialize();
+	await waitForRoute(router, "home");
+	router.addRouteGuard("protected", () => Promise.reject(new Error("backend down")));
+
+	router.setErrorHandler(() => "forbidden");
+	const redirected = await router.navigate("protected");
+	assert.strictEqual(redirected.status, NavigationOutcome.Redirected, "Error converted into a redirect");
+	assert.strictEqual(redirected.route, "forbidden", "Landed on the error route");
+
+	let degraded: unknown;
+	router.setErrorHandler((_error, context) => {
+		context.bag.set("degraded", true);
+		return true;
+	});
+	router.addAfterHook((context) => {
+		degraded = context.bag.get("degraded");
+	});
+	const allowed = await router.navigate("protected");
+	assert.strictEqual(allowed.status, NavigationOutcome.Committed, "Error converted into an allow");
+	assert.strictEqual(degraded, true, "Degraded flag visible after the navigation");
+
+	router.setErrorHandler(null);
+	assert.strictEqual((await router.navigate("protected")).status, NavigationOutcome.Error, "Handler removed");
+});
+
+QUnit.test("errorHandler module is loaded like guard modules", async function (assert: Assert) {
+	router = createRouterWithOptions({
+		guardLoading: "block",
+		errorHandler: "module:ui5/guard/router/qunit/fixtures/guards/errorHandler#toForbidden",
+	});
+	router.addRouteGuard("protected", () => {
+		throw new Error("guard failed");
+	});
+	router.initialize();
+	await waitForRoute(router, "home", 5000);
+
+	const result = await router.navigate("protected");
+	assert.strictEqual(result.status, NavigationOutcome.Redirected, "Module handler applied");
+	assert.strictEqual(result.route, "forbidden", "Redirected by the module handler");
+});
+
+QUnit.test("invalid handlers are rejected with a warning", async function (assert: Assert) {
+	router = createRouterWithOptions({
+		errorHandler: "module:ui5/guard/router/qunit/fixtures/guards/objectGuard#missing",
+	});
+	router.addRouteGuard("protected", () => Promise.reject(new Error("guard failed")));
+	const warnings = captureWarnings(() => router.setErrorHandler("redirect" as never));
+	assert.strictEqual(warnings.length, 1, "Non-function handler warns");
+	router.initialize();
+	await waitForRoute(router, "home");
+
+	const loadWarnings = await captureWarningsAsync(async () => {
+		const result = await router.navigate("protected");
+		assert.strictEqual(result.status, NavigationOutcome.Error, "Unresolved module keeps the error");
+	});
+	assert.ok(
+		loadWarnings.some((w) =>
+			w.message.includes('"ui5/guard/router/qunit/fixtures/guards/objectGuard#missing" is not a function'),
+		),
+		"Warning names the missing export",
+	);
+});
+
+// ============================================================
+// Module: resolve
+// ============================================================
+QUnit.module("Router - resolve", {
+	beforeEach: function () {
+		initHashChanger();
+	},
+	afterEach: function () {
+		router.destroy();
+		HashChanger.getInstance().setHash("");
+	},
+});
+
+QUnit.test("resolvers declared in the manifest are loaded and run", async function (assert: Assert) {
+	const warnings = captureWarnings(() => {
+		router = createRouterWithOptions({
+			resolve: {
+				detail: { order: "module:ui5.guard.router.qunit.fixtures.resolvers.detailResolver", invalid: 42 },
+				protected: "resolvers.missing",
+			},
+		});
+	});
+	assert.strictEqual(warnings.length, 2, "One warning per invalid declaration");
+	router.initialize();
+	await waitForRoute(router, "home");
+
+	const result = await router.navigate("detail", { id: "5" });
+	assert.strictEqual(result.status, NavigationOutcome.Committed, "Navigation committed");
+	assert.deepEqual(router.getResolvedData("detail"), { order: { id: "5" } }, "Module resolver ran");
+});
+
+QUnit.test("manifest resolvers for unknown routes follow unknownRouteRegistration", function (assert: Assert) {
+	const resolve = { nonexistent: { order: "module:ui5.guard.router.qunit.fixtures.resolvers.detailResolver" } };
+	const warnings = captureWarnings(() => {
+		router = createRouterWithOptions({ resolve });
+	});
+	assert.deepEqual(
+		warnings.map((w) => [w.message, w.details]),
+		[["addResolver: unknown route, guard registered anyway", "nonexistent"]],
+		'"warn" logs the unknown route',
+	);
+	router.destroy();
+
+	assert.throws(
+		() => {
+			router = createRouterWithOptions({ resolve, unknownRouteRegistration: "throw" });
+		},
+		/addResolver called for unknown route "nonexistent"/,
+		'"throw" rejects the declaration',
+	);
+	router = createRouterWithOptions({});
+});
+
+// ============================================================
+// Module: guardRouter JSON Schema
+// ============================================================
+interface SchemaProperty {
+	enum?: unknown[];
+	default?: unknown;
+}
+
+/** Every key of `GuardRouterOptions`; adding or removing an option fails the type check until listed here. */
+const OPTION_KEYS: Record<keyof GuardRouterOptions, true> = {
+	unknownRouteRegistration: true,
+	navToPreflight: true,
+	guardLoading: true,
+	inheritance: true,
+	guardTimeout: true,
+	guardTimeoutPolicy: true,
+	busyIndicator: true,
+	maxRedirectDepth: true,
+	redirectLoopPolicy: true,
+	redirectLoopFallback: true,
+	defaultPolicy: true,
+	defaultDenyRoute: true,
+	access: true,
+	errorHandler: true,
+	guards: true,
+	resolve: true,
+	routeMeta: true,
+};
+
+async function loadSchemaOptions(): Promise<Record<string, SchemaProperty>> {
+	const response = await fetch(sap.ui.require.toUrl("ui5/guard/router/guardRouter.schema.json"));
+	const schema = (await response.json()) as {
+		definitions: { guardRouter: { properties: Record<string, SchemaProperty> } };
+	};
+	return schema.definitions.guardRouter.properties;
+}
+
+function resolvedOptions(guardRouter: Record<string, unknown>): Record<string, unknown> {
+	const created = createRouterWithOptions(guardRouter);
+	const options = Reflect.get(created, "_options") as Record<string, unknown>;
+	created.destroy();
+	return options;
+}
+
+QUnit.module("Router - guardRouter JSON Schema", {
+	beforeEach: function () {
+		initHashChanger();
+	},
+	afterEach: function () {
+		HashChanger.getInstance().setHash("");
+	},
+});
+
+QUnit.test("schema describes every GuardRouterOptions key", async function (assert: Assert) {
+	const properties = await loadSchemaOptions();
+	assert.deepEqual(Object.keys(properties).toSorted(), Object.keys(OPTION_KEYS).toSorted(), "Same option keys");
+});
+
+QUnit.test("schema defaults match the normalized defaults", async function (assert: Assert) {
+	const properties = await loadSchemaOptions();
+	for (const [key, value] of Object.entries(resolvedOptions({}))) {
+		assert.ok(key in properties, `${key} is in the schema`);
+		const expected = value === "" || value === null ? undefined : value;
+		assert.deepEqual(properties[key]?.default, expected, `${key} default`);
+	}
+});
+
+QUnit.test("schema enums are the values the router accepts", async function (assert: Assert) {
+	const properties = await loadSchemaOptions();
+	const enumerated = Object.entries(properties).filter(([, property]) => property.enum !== undefined);
+	assert.ok(enumerated.length > 0, "Schema has enumerated options");
+
+	for (const [key, property] of enumerated) {
+		for (const value of property.enum!) {
+			let applied: unknown;
+			const warnings = captureWarnings(() => {
+				applied = resolvedOptions({ redirectLoopFallback: "home", [key]: value })[key];
+			});
+			assert.strictEqual(warnings.length, 0, `${key}: ${String(value)} accepted without warning`);
+			assert.strictEqual(applied, value, `${key}: ${String(value)} applied`);
+		}
+		const warnings = captureWarnings(() => resolvedOptions({ [key]: "not-in-schema" }));
+		assert.strictEqual(warnings.length, 1, `${key}: value outside the enum rejected`);
+	}
+});
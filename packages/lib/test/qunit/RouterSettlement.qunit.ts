@@ -1,14 +1,20 @@
+import sinon from "sinon";
 import HashChanger from "sap/ui/core/routing/HashChanger";
 import type {
+	AfterHookFn,
 	GuardContext,
+	GuardDecisionSource,
 	GuardFn,
 	GuardRedirect,
 	GuardRouter,
+	NavigationResult,
+	PendingNavigation,
 	Router$NavigationSettledEvent,
+	Router$NavigationStartedEvent,
 } from "ui5/guard/router/types";
 import NavigationOutcome from "ui5/guard/router/NavigationOutcome";
 import type { Router$BypassedEvent } from "sap/ui/core/routing/Router";
-import { createRouter, initHashChanger, nextTick, waitForRoute } from "./testHelpers";
+import { captureErrors, createRouter, initHashChanger, nextTick, waitForRoute } from "./testHelpers";
 
 let router: GuardRouter;
 
@@ -945,3 +951,586 @@ QUnit.test("idle replay after error returns Error status with error", async func
 	assert.strictEqual(replay.status, NavigationOutcome.Error, "Replay returns Error");
 	assert.strictEqual(replay.error, thrownError, "Replay includes the error");
 });
+
+// ============================================================
+// Module: navigate()
+// ============================================================
+QUnit.module("Router - navigate()", safeDestroyHooks);
+
+QUnit.test("Resolves with 'committed' when sync guard allows", async function (assert: Assert) {
+	router.addRouteGuard("protected", () => true);
+	router.initialize();
+	await waitForRoute(router, "home");
+
+	const result = await router.navigate("protected");
+	assert.strictEqual(result.status, NavigationOutcome.Committed, "Status is committed");
+	assert.strictEqual(result.route, "protected", "Route is target route");
+	assert.strictEqual(result.hash, "protected", "Hash is target hash");
+});
+
+QUnit.test("Resolves with 'blocked' when sync guard blocks", async function (assert: Assert) {
+	router.addRouteGuard("protected", () => false);
+	router.initialize();
+	await waitForRoute(router, "home");
+
+	const result = await router.navigate("protected");
+	assert.strictEqual(result.status, NavigationOutcome.Blocked, "Status is blocked");
+	assert.strictEqual(result.route, "home", "Route stays on current route");
+	assert.strictEqual(HashChanger.getInstance().getHash(), "", "Hash unchanged");
+});
+
+QUnit.test("Resolves with 'redirected' when async guard redirects", async function (assert: Assert) {
+	router.addRouteGuard("forbidden", async () => {
+		await nextTick(10);
+		return "protected";
+	});
+	router.initialize();
+	await waitForRoute(router, "home");
+
+	const result = await router.navigate("forbidden");
+	assert.strictEqual(result.status, NavigationOutcome.Redirected, "Status is redirected");
+	assert.strictEqual(result.route, "protected", "Route is redirect target");
+});
+
+QUnit.test(
+	"Superseded navigation resolves 'cancelled', newer one resolves its own result",
+	async function (assert: Assert) {
+		router.addRouteGuard("protected", async () => {
+			await nextTick(100);
+			return true;
+		});
+		router.initialize();
+		await waitForRoute(router, "home");
+
+		const first = router.navigate("protected");
+		const second = router.navigate("forbidden");
+
+		const [firstResult, secondResult] = await Promise.all([first, second]);
+		assert.strictEqual(firstResult.status, NavigationOutcome.Cancelled, "First navigation cancelled");
+		assert.strictEqual(secondResult.status, NavigationOutcome.Committed, "Second navigation committed");
+		assert.strictEqual(secondResult.route, "forbidden", "Second result belongs to its own target");
+	},
+);
+
+QUnit.test("Ignores the cancellation of a navigation started before it", async function (assert: Assert) {
+	router.addRouteGuard("protected", async () => {
+		await nextTick(100);
+		return true;
+	});
+	router.addRouteGuard("forbidden", async () => {
+		await nextTick(10);
+		return false;
+	});
+	router.initialize();
+	await waitForRoute(router, "home");
+
+	router.navTo("protected");
+	const result = await router.navigate("forbidden");
+	assert.strictEqual(result.status, NavigationOutcome.Blocked, "Resolves with its own outcome, not 'cancelled'");
+});
+
+QUnit.test("Joins an in-flight navigation to the same hash", async function (assert: Assert) {
+	router.addRouteGuard("protected", async () => {
+		await nextTick(10);
+		return true;
+	});
+	router.initialize();
+	await waitForRoute(router, "home");
+
+	const first = router.navigate("protected");
+	const second = router.navigate("protected");
+
+	const [firstResult, secondResult] = await Promise.all([first, second]);
+	assert.strictEqual(firstResult.status, NavigationOutcome.Committed, "First call committed");
+	assert.strictEqual(secondResult.status, NavigationOutcome.Committed, "Second call shares the outcome");
+});
+
+QUnit.test("Resolves immediately with current state when target is already active", async function (assert: Assert) {
+	router.initialize();
+	await waitForRoute(router, "home");
+	await router.navigate("protected");
+
+	const result = await router.navigate("protected");
+	assert.strictEqual(result.status, NavigationOutcome.Committed, "Status is committed");
+	assert.strictEqual(result.route, "protected", "Route is current route");
+	assert.strictEqual(result.hash, "protected", "Hash is current hash");
+});
+
+QUnit.test("Forwards replace and guard options to navTo()", async function (assert: Assert) {
+	const guard = sinon.spy(() => false);
+	router.addRouteGuard("protected", guard);
+	router.initialize();
+	await waitForRoute(router, "home");
+	const navToSpy = sinon.spy(router, "navTo");
+
+	try {
+		const result = await router.navigate("protected", {}, { replace: true, skipGuards: true });
+		assert.strictEqual(result.status, NavigationOutcome.Committed, "Guards skipped, navigation committed");
+		assert.ok(guard.notCalled, "Guard did not run");
+		assert.deepEqual(
+			navToSpy.firstCall.args,
+			["protected", {}, undefined, true, { skipGuards: true }],
+			"navTo received replace and guard options",
+		);
+	} finally {
+		navToSpy.restore();
+	}
+});
+
+QUnit.test("Resolves with 'cancelled' when the router is destroyed while pending", async function (assert: Assert) {
+	router.addRouteGuard("protected", async () => {
+		await nextTick(200);
+		return true;
+	});
+	router.initialize();
+	await waitForRoute(router, "home");
+
+	const pending = router.navigate("protected");
+	await nextTick(10);
+	router.destroy();
+
+	const result = await pending;
+	assert.strictEqual(result.status, NavigationOutcome.Cancelled, "Pending navigate() resolved as cancelled");
+});
+
+QUnit.test("transition.retry() resolves with the settlement of the replay", async function (assert: Assert) {
+	let loggedIn = false;
+	let transition: GuardContext["transition"] | undefined;
+	router.addRouteGuard("protected", (context: GuardContext) => {
+		transition = context.transition;
+		return loggedIn ? true : "forbidden";
+	});
+	router.initialize();
+	await waitForRoute(router, "home");
+	await router.navigate("protected");
+
+	loggedIn = true;
+	const result = await transition!.retry();
+	assert.strictEqual(result.status, NavigationOutcome.Committed, "Replay committed");
+	assert.strictEqual(result.route, "protected", "Replay reached the original target");
+});
+
+// ============================================================
+// Module: After hooks
+// ============================================================
+QUnit.module("Router - After hooks", standardHooks);
+
+interface AfterHookCall {
+	context: GuardContext;
+	result: NavigationResult;
+	hashAtCall: string;
+}
+
+function recordAfterHooks(): { calls: AfterHookCall[]; hook: AfterHookFn } {
+	const calls: AfterHookCall[] = [];
+	const hook: AfterHookFn = (context, result) => {
+		calls.push({ context, result, hashAtCall: HashChanger.getInstance().getHash() });
+	};
+	return { calls, hook };
+}
+
+QUnit.test("Runs after a committed navigation with the guard context", async function (assert: Assert) {
+	const { calls, hook } = recordAfterHooks();
+	router.addRouteGuard("detail", (context: GuardContext) => {
+		context.bag.set("loaded", true);
+		return true;
+	});
+	router.addAfterHook(hook);
+	router.initialize();
+	await waitForRoute(router, "home");
+	calls.length = 0;
+
+	await router.navigate("detail", { id: "7" });
+
+	assert.strictEqual(calls.length, 1, "Hook ran once");
+	const [{ context, result }] = calls;
+	assert.strictEqual(result.status, NavigationOutcome.Committed, "Outcome is committed");
+	assert.strictEqual(context.toRoute, "detail", "toRoute");
+	assert.strictEqual(context.fromRoute, "home", "fromRoute");
+	assert.deepEqual(context.toArguments, { id: "7" }, "toArguments");
+	assert.strictEqual(context.bag.get("loaded"), true, "Bag written by the guard is visible");
+});
+
+QUnit.test("Runs for the initial navigation", async function (assert: Assert) {
+	const { calls, hook } = recordAfterHooks();
+	router.addAfterHook(hook);
+	router.initialize();
+	await waitForRoute(router, "home");
+
+	assert.strictEqual(calls.length, 1, "Hook ran once");
+	assert.strictEqual(calls[0].context.toRoute, "home", "toRoute is the initial route");
+	assert.strictEqual(calls[0].context.fromRoute, "", "fromRoute is empty");
+});
+
+QUnit.test("Runs after a blocked navigation once the hash is restored", async function (assert: Assert) {
+	const { calls, hook } = recordAfterHooks();
+	router.addRouteGuard("protected", () => false);
+	router.addAfterHook(hook);
+	router.initialize();
+	await waitForRoute(router, "home");
+	calls.length = 0;
+
+	HashChanger.getInstance().setHash("protected");
+	await router.navigationSettled();
+
+	assert.strictEqual(calls.length, 1, "Hook ran once");
+	assert.strictEqual(calls[0].result.status, NavigationOutcome.Blocked, "Outcome is blocked");
+	assert.strictEqual(calls[0].context.toRoute, "protected", "Context describes the attempted navigation");
+	assert.strictEqual(calls[0].hashAtCall, "", "Hash already restored when the hook runs");
+});
+
+QUnit.test("Runs after a redirect with the context of the committed target", async function (assert: Assert) {
+	const { calls, hook } = recordAfterHooks();
+	router.addRouteGuard("forbidden", () => "protected");
+	router.addAfterHook(hook);
+	router.initialize();
+	await waitForRoute(router, "home");
+	calls.length = 0;
+
+	await router.navigate("forbidden");
+
+	assert.strictEqual(calls.length, 1, "Hook ran once for the whole chain");
+	const [{ context, result }] = calls;
+	assert.strictEqual(result.status, NavigationOutcome.Redirected, "Outcome is redirected");
+	assert.strictEqual(context.toRoute, "protected", "toRoute is the redirect target");
+	assert.strictEqual(context.fromRoute, "home", "fromRoute is the original route");
+	assert.strictEqual(context.transition.route, "forbidden", "Transition describes the intercepted navigation");
+});
+
+QUnit.test("Runs after a failed navigation with the error", async function (assert: Assert) {
+	const { calls, hook } = recordAfterHooks();
+	const thrownError = new Error("guard failed");
+	router.addRouteGuard("protected", () => {
+		throw thrownError;
+	});
+	router.addAfterHook(hook);
+	router.initialize();
+	await waitForRoute(router, "home");
+	calls.length = 0;
+
+	captureErrors(() => router.navTo("protected"));
+	await router.navigationSettled();
+
+	assert.strictEqual(calls.length, 1, "Hook ran once");
+	assert.strictEqual(calls[0].result.status, NavigationOutcome.Error, "Outcome is error");
+	assert.strictEqual(calls[0].result.error, thrownError, "Result carries the error");
+});
+
+QUnit.test("Does not run for cancelled navigations", async function (assert: Assert) {
+	const { calls, hook } = recordAfterHooks();
+	router.addRouteGuard("protected", async () => {
+		await nextTick(100);
+		return true;
+	});
+	router.addAfterHook(hook);
+	router.initialize();
+	await waitForRoute(router, "home");
+	calls.length = 0;
+
+	const first = router.navigate("protected");
+	await router.navigate("forbidden");
+	await first;
+
+	assert.deepEqual(
+		calls.map((call) => call.result.status),
+		[NavigationOutcome.Committed],
+		"Only the superseding navigation ran the hook",
+	);
+});
+
+QUnit.test("Receives a context when guards are skipped", async function (assert: Assert) {
+	const { calls, hook } = recordAfterHooks();
+	router.addAfterHook(hook);
+	router.initialize();
+	await waitForRoute(router, "home");
+	calls.length = 0;
+
+	await router.navigate("detail", { id: "3" }, { skipGuards: true });
+
+	assert.strictEqual(calls.length, 1, "Hook ran once");
+	assert.strictEqual(calls[0].context.toRoute, "detail", "toRoute");
+	assert.strictEqual(calls[0].context.fromRoute, "home", "fromRoute");
+	assert.deepEqual(calls[0].context.toArguments, { id: "3" }, "toArguments");
+});
+
+QUnit.test("A throwing hook is logged and does not stop other hooks", async function (assert: Assert) {
+	const { calls, hook } = recordAfterHooks();
+	router.addAfterHook(() => {
+		throw new Error("hook failed");
+	});
+	router.addAfterHook(hook);
+	router.initialize();
+	await waitForRoute(router, "home");
+	calls.length = 0;
+
+	const errors = captureErrors(() => router.navTo("protected"));
+	const result = await router.navigationSettled();
+
+	assert.strictEqual(result.status, NavigationOutcome.Committed, "Navigation still committed");
+	assert.strictEqual(calls.length, 1, "Second hook still ran");
+	assert.ok(
+		errors.some((e) => e.message.includes("After hook failed")),
+		"Hook error was logged",
+	);
+});
+
+QUnit.test("removeAfterHook stops delivery", async function (assert: Assert) {
+	const { calls, hook } = recordAfterHooks();
+	assert.strictEqual(router.addAfterHook(hook), router, "addAfterHook returns router");
+	assert.strictEqual(router.removeAfterHook(hook), router, "removeAfterHook returns router");
+	router.initialize();
+	await waitForRoute(router, "home");
+
+	await router.navigate("protected");
+	assert.strictEqual(calls.length, 0, "Removed hook never ran");
+});
+
+// ============================================================
+// Module: Settlement diagnostics (decidedBy, redirectChain)
+// ============================================================
+QUnit.module("Router - Settlement diagnostics", standardHooks);
+
+QUnit.test("Blocked result reports the deciding guard", async function (assert: Assert) {
+	router.addRouteGuard("protected", () => true, { name: "first" });
+	router.addRouteGuard("protected", () => false, { name: "permissions" });
+	router.initialize();
+	await waitForRoute(router, "home");
+
+	const result = await router.navigate("protected");
+	assert.strictEqual(result.status, NavigationOutcome.Blocked, "Navigation blocked");
+	assert.deepEqual(
+		result.decidedBy,
+		{ name: "permissions", phase: "route", index: 1, route: "protected" },
+		"decidedBy names the blocking guard",
+	);
+	assert.strictEqual(result.redirectChain, undefined, "No redirect chain without a redirect");
+});
+
+QUnit.test("Leave guard block reports the route being left", async function (assert: Assert) {
+	router.addRouteGuard("home", { beforeLeave: () => false });
+	router.initialize();
+	await waitForRoute(router, "home");
+
+	const result = await router.navigate("protected");
+	assert.deepEqual(result.decidedBy, { phase: "leave", index: 0, route: "home" }, "Unnamed leave guard reported");
+});
+
+QUnit.test("Error result reports the throwing guard", async function (assert: Assert) {
+	router.initialize();
+	await waitForRoute(router, "home");
+	router.addGuard(
+		() => {
+			throw new Error("boom");
+		},
+		{ name: "session" },
+	);
+
+	const errors = captureErrors(() => router.navTo("protected"));
+	const result = await router.navigationSettled();
+	assert.strictEqual(result.status, NavigationOutcome.Error, "Navigation failed");
+	assert.deepEqual(
+		result.decidedBy,
+		{ name: "session", phase: "global", index: 0, route: "protected" },
+		"decidedBy names the throwing guard",
+	);
+	assert.ok(errors.length > 0, "Error was logged");
+});
+
+QUnit.test("Redirected result reports the redirecting guard and the chain", async function (assert: Assert) {
+	router.addRouteGuard("forbidden", () => "protected", { name: "toProtected" });
+	router.addRouteGuard("protected", async () => ({ route: "detail", parameters: { id: "7" } }), {
+		name: "toDetail",
+	});
+	router.addRouteGuard("detail", () => true);
+	router.initialize();
+	await waitForRoute(router, "home");
+
+	const result = await router.navigate("forbidden");
+	assert.strictEqual(result.status, NavigationOutcome.Redirected, "Navigation redirected");
+	assert.deepEqual(
+		result.decidedBy,
+		{ name: "toDetail", phase: "route", index: 0, route: "protected" },
+		"decidedBy is the guard that issued the final redirect",
+	);
+	assert.deepEqual(result.redirectChain, ["forbidden", "protected", "detail/7"], "Every hop is listed");
+});
+
+QUnit.test("Block inside a redirect chain reports the hop guard and the chain", async function (assert: Assert) {
+	router.addRouteGuard("forbidden", () => "protected");
+	router.addRouteGuard("protected", () => false, { name: "closed" });
+	router.initialize();
+	await waitForRoute(router, "home");
+
+	const result = await router.navigate("forbidden");
+	assert.strictEqual(result.status, NavigationOutcome.Blocked, "Chain blocked");
+	assert.deepEqual(
+		result.decidedBy,
+		{ name: "closed", phase: "route", index: 0, route: "protected" },
+		"decidedBy is the guard that blocked the hop",
+	);
+	assert.deepEqual(result.redirectChain, ["forbidden", "protected"], "Chain up to the blocked hop");
+});
+
+QUnit.test("navigationSettled event carries decidedBy", async function (assert: Assert) {
+	router.addRouteGuard("protected", () => false, { name: "closed" });
+	router.initialize();
+	await waitForRoute(router, "home");
+
+	let decidedBy: GuardDecisionSource | undefined;
+	router.attachNavigationSettled((event) => {
+		decidedBy = event.getParameter("decidedBy") as GuardDecisionSource | undefined;
+	});
+	await router.navigate("protected");
+	assert.strictEqual(decidedBy?.name, "closed", "Event payload includes decidedBy");
+});
+
+QUnit.test("GuardBlock reason and data surface on the result and the event", async function (assert: Assert) {
+	router.addRouteGuard("protected", async () => ({ block: true, reason: "not-authorized", data: { role: "admin" } }));
+	router.initialize();
+	await waitForRoute(router, "home");
+
+	let eventReason: unknown;
+	router.attachNavigationSettled((event) => {
+		eventReason = event.getParameter("reason");
+	});
+	const result = await router.navigate("protected");
+	assert.strictEqual(result.status, NavigationOutcome.Blocked, "Navigation blocked");
+	assert.strictEqual(result.reason, "not-authorized", "Reason on the result");
+	assert.deepEqual(result.data, { role: "admin" }, "Data on the result");
+	assert.strictEqual(eventReason, "not-authorized", "Reason on the event");
+});
+
+QUnit.test("Leave guard GuardBlock restores the hash and reports the reason", async function (assert: Assert) {
+	router.addLeaveGuard("home", () => ({ block: true, reason: "unsaved-changes" }));
+	router.initialize();
+	await waitForRoute(router, "home");
+
+	HashChanger.getInstance().setHash("protected");
+	const result = await router.navigationSettled();
+	assert.strictEqual(result.status, NavigationOutcome.Blocked, "Navigation blocked");
+	assert.strictEqual(result.reason, "unsaved-changes", "Reason on the result");
+	assert.strictEqual(result.data, undefined, "No data without a payload");
+	assert.strictEqual(HashChanger.getInstance().getHash(), "", "Hash restored");
+});
+
+QUnit.test("GuardBlock on a redirect hop reports the reason with the chain", async function (assert: Assert) {
+	router.addRouteGuard("forbidden", () => "protected");
+	router.addRouteGuard("protected", () => ({ block: true, reason: "maintenance" }));
+	router.initialize();
+	await waitForRoute(router, "home");
+
+	const result = await router.navigate("forbidden");
+	assert.strictEqual(result.reason, "maintenance", "Hop block reason reported");
+	assert.deepEqual(result.redirectChain, ["forbidden", "protected"], "Chain reported alongside");
+});
+
+// ============================================================
+// Module: navigationStarted event and pending state
+// ============================================================
+QUnit.module("Router - navigationStarted", standardHooks);
+
+function recordStarts(): { starts: PendingNavigation[]; handler: (event: Router$NavigationStartedEvent) => void } {
+	const starts: PendingNavigation[] = [];
+	return {
+		starts,
+		handler: (event) => {
+			starts.push(event.getParameters() as PendingNavigation);
+		},
+	};
+}
+
+QUnit.test("Fires for the initial parse with trigger 'initial'", async function (assert: Assert) {
+	const { starts, handler } = recordStarts();
+	router.attachNavigationStarted(handler);
+	router.initialize();
+	await waitForRoute(router, "home");
+
+	assert.deepEqual(starts, [{ route: "home", hash: "", trigger: "initial" }], "Initial navigation reported");
+});
+
+QUnit.test("Fires before guards run for navTo with trigger 'navTo'", async function (assert: Assert) {
+	router.initialize();
+	await waitForRoute(router, "home");
+	const { starts, handler } = recordStarts();
+	router.attachNavigationStarted(handler);
+
+	let startsSeenByGuard = -1;
+	let pendingSeenByGuard: PendingNavigation | null = null;
+	router.addRouteGuard("detail", async () => {
+		startsSeenByGuard = starts.length;
+		pendingSeenByGuard = router.getPendingNavigation();
+		assert.ok(router.isNavigating(), "isNavigating() is true while the guard runs");
+		await nextTick(10);
+		return true;
+	});
+
+	const result = await router.navigate("detail", { id: "5" });
+	assert.strictEqual(result.status, NavigationOutcome.Committed, "Navigation committed");
+	assert.strictEqual(startsSeenByGuard, 1, "Event fired before the guard ran");
+	assert.deepEqual(starts, [{ route: "detail", hash: "detail/5", trigger: "navTo" }], "Payload describes the target");
+	assert.deepEqual(pendingSeenByGuard, starts[0], "getPendingNavigation() matches the event payload");
+	assert.notOk(router.isNavigating(), "isNavigating() is false once settled");
+	assert.strictEqual(router.getPendingNavigation(), null, "No pending navigation once settled");
+});
+
+QUnit.test("Browser-initiated hash changes report trigger 'hashchange'", async function (assert: Assert) {
+	router.initialize();
+	await waitForRoute(router, "home");
+	const { starts, handler } = recordStarts();
+	router.attachNavigationStarted(handler);
+
+	HashChanger.getInstance().setHash("protected");
+	await waitForRoute(router, "protected");
+
+	assert.deepEqual(
+		starts,
+		[{ route: "protected", hash: "protected", trigger: "hashchange" }],
+		"Hash change reported",
+	);
+});
+
+QUnit.test("Not fired when guards are skipped", async function (assert: Assert) {
+	router.initialize();
+	await waitForRoute(router, "home");
+	const { starts, handler } = recordStarts();
+	router.attachNavigationStarted(handler);
+
+	router.navTo("protected", {}, {}, false, { skipGuards: true });
+	await waitForRoute(router, "protected");
+
+	assert.strictEqual(starts.length, 0, "No event for skipGuards navigation");
+});
+
+QUnit.test("Handler starting another navigation supersedes the announced one", async function (assert: Assert) {
+	let protectedGuardRan = false;
+	router.addRouteGuard("protected", () => {
+		protectedGuardRan = true;
+		return true;
+	});
+	router.initialize();
+	await waitForRoute(router, "home");
+
+	const handler = (event: Router$NavigationStartedEvent): void => {
+		if (event.getParameter("route") === "protected") {
+			router.navTo("forbidden");
+		}
+	};
+	router.attachNavigationStarted(handler);
+
+	const result = await router.navigate("protected");
+	assert.strictEqual(result.status, NavigationOutcome.Cancelled, "Announced navigation cancelled");
+	assert.notOk(protectedGuardRan, "Guards of the superseded navigation never ran");
+	await waitForRoute(router, "forbidden");
+	assert.strictEqual(HashChanger.getInstance().getHash(), "forbidden", "Newer navigation committed");
+});
+
+QUnit.test("detachNavigationStarted stops delivery", async function (assert: Assert) {
+	const { starts, handler } = recordStarts();
+	assert.strictEqual(router.attachNavigationStarted(handler), router, "attach returns router");
+	assert.strictEqual(router.detachNavigationStarted(handler), router, "detach returns router");
+	router.initialize();
+	await waitForRoute(router, "home");
+
+	await router.navigate("protected");
+	assert.strictEqual(starts.length, 0, "Detached handler never called");
+});
@@ -0,0 +1,7 @@
+import type { GuardContext, GuardResult } from "ui5/guard/router/types";
+
+export default {
+	toForbidden(_error: unknown, _context: GuardContext): GuardResult {
+		return "forbidden";
+	},
+};
@@ -0,0 +1,15 @@
+import type { GuardContext, GuardResult } from "ui5/guard/router/types";
+
+function record(context: GuardContext, label: string): GuardResult {
+	context.bag.set("order", [...((context.bag.get("order") as string[] | undefined) ?? []), label]);
+	return true;
+}
+
+export default [
+	function recordFirst(context: GuardContext): GuardResult {
+		return record(context, "first");
+	},
+	function recordSecond(context: GuardContext): GuardResult {
+		return record(context, "second");
+	},
+];
@@ -0,0 +1,5 @@
+import type { GuardContext } from "ui5/guard/router/types";
+
+export default function detailResolver(context: GuardContext): Promise<{ id: unknown }> {
+	return Promise.resolve({ id: context.toArguments.id });
+}
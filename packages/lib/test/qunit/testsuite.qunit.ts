@@ -32,6 +32,12 @@ export default {
 		Router: {
 			title: "QUnit Tests for ui5.guard.router.Router",
 		},
+		Compose: {
+			title: "QUnit Tests for ui5.guard.router.compose",
+		},
+		Access: {
+			title: "QUnit Tests for ui5.guard.router access control",
+		},
 		RouterGuards: {
 			title: "QUnit Tests for Router Guard Behavior",
 		},
@@ -0,0 +1,124 @@
+/**
+ * Compile-only checks for typed route metadata (`GuardRouter<TMeta>`) and
+ * typed bag keys (`BagKey`, `GuardBag`). Run by the type check
+ * (`tsconfig.test.json`); nothing here executes. Each `@ts-expect-error`
+ * fails the type check when the line compiles.
+ */
+import type {
+	BagKey,
+	GuardBag,
+	GuardContext,
+	GuardFn,
+	GuardRouter,
+	TypedGuardContext,
+	TypedGuardRouter,
+} from "ui5/guard/router/types";
+import type { createBagKey } from "ui5/guard/router/bag";
+import type { Routes } from "./fixtures/routes";
+
+interface AppMeta {
+	requiresAuth?: boolean;
+	title?: string;
+}
+
+declare const base: GuardRouter;
+declare const makeKey: typeof createBagKey;
+const router = base as GuardRouter<AppMeta>;
+
+// ============================================================
+// GuardRouter<TMeta>
+// ============================================================
+router.setRouteMeta("home", { title: "Home", requiresAuth: false });
+router.setRouteMeta("home", {});
+// @ts-expect-error wrong value type
+router.setRouteMeta("home", { title: 42 });
+// @ts-expect-error unknown metadata key
+router.setRouteMeta("home", { titel: "Home" });
+
+const title: string | undefined = router.getRouteMeta("home").title;
+// @ts-expect-error metadata is read-only
+router.getRouteMeta("home").title = "Changed";
+// @ts-expect-error unknown metadata key
+void router.getRouteMeta("home").titel;
+
+router.addGuard((context) => context.toMeta.requiresAuth !== true || context.fromMeta.title !== undefined);
+router.addRouteGuard("home", {
+	beforeEnter: (context) => context.toMeta.requiresAuth === true,
+	beforeLeave: (context) => context.fromMeta.title !== "",
+});
+router.addGuard((context) => {
+	// @ts-expect-error unknown metadata key
+	return context.toMeta.role === "admin";
+});
+
+const chainedMeta: GuardRouter<AppMeta> = router.addRouteGuard("home", () => true);
+const untypedGuard: GuardFn = (context) => context.toMeta.anything === 1;
+router.addGuard(untypedGuard);
+const metaContext = (context: GuardContext<AppMeta>): boolean | undefined => context.toMeta.requiresAuth;
+
+// ============================================================
+// TypedGuardRouter<…, TMeta> and TypedGuardContext<…, TMeta>
+// ============================================================
+const typed = base as TypedGuardRouter<Routes, { employee: { section: string } }, AppMeta>;
+const section: string = typed.getRouteMeta("employee").section;
+const typedTitle: string | undefined = typed.getRouteMeta("employee").title;
+typed.setRouteMeta("employee", { requiresAuth: true });
+// @ts-expect-error wrong value type
+typed.setRouteMeta("employee", { requiresAuth: "yes" });
+
+typed.addRouteGuard("employee", (context) => context.toMeta.requiresAuth === true && context.toArguments.id !== "");
+const employeeGuard = (context: TypedGuardContext<Routes, "employee", AppMeta>): boolean =>
+	context.toMeta.title !== undefined && context.toArguments.id !== "";
+typed.addRouteGuard("employee", employeeGuard);
+const wrongMeta = (context: TypedGuardContext<Routes, "employee", { role: string }>): boolean =>
+	context.toMeta.role === "admin";
+// @ts-expect-error guard typed for another metadata shape
+typed.addRouteGuard("employee", wrongMeta);
+
+// ============================================================
+// GuardBag and BagKey
+// ============================================================
+declare const bag: GuardBag;
+const userKey = makeKey<{ name: string }>("user");
+const countKey: BagKey<number> = makeKey("count");
+
+bag.set(userKey, { name: "Ada" });
+bag.set(countKey, 1);
+// @ts-expect-error value does not match the key's type
+bag.set(userKey, 42);
+// @ts-expect-error value does not match the key's type
+bag.set(countKey, "1");
+
+const user: { name: string } | undefined = bag.get(userKey);
+const count: number | undefined = bag.get(countKey);
+// @ts-expect-error get infers the key's type
+const wrongCount: string | undefined = bag.get(countKey);
+// @ts-expect-error get may return undefined
+const definite: number = bag.get(countKey);
+
+const free: unknown = bag.get("untyped");
+bag.set("untyped", { anything: true });
+// @ts-expect-error plain string keys read as unknown
+const freeName: string | undefined = bag.get("untyped");
+// @ts-expect-error a plain string is not a BagKey
+const notAKey: BagKey<number> = "count";
+
+router.addGuard((context) => {
+	context.bag.set(userKey, { name: "Ada" });
+	return context.bag.get(userKey)?.name !== undefined;
+});
+
+export {
+	chainedMeta,
+	count,
+	definite,
+	free,
+	freeName,
+	metaContext,
+	notAKey,
+	section,
+	title,
+	typedTitle,
+	user,
+	wrongCount,
+};
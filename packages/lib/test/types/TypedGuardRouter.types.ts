@@ -0,0 +1,88 @@
+/**
+ * Compile-only checks for `TypedGuardRouter` and the generated route map.
+ * Run by the type check (`tsconfig.test.json`); nothing here executes.
+ * Each `@ts-expect-error` fails the type check when the line compiles.
+ */
+import type { GuardRouter, TypedGuardContext, TypedGuardRouter } from "ui5/guard/router/types";
+import type { AppRouter, RouteName, Routes } from "./fixtures/routes";
+
+declare const base: GuardRouter;
+const router = base as AppRouter;
+
+// ============================================================
+// Route names
+// ============================================================
+router.navTo("home");
+router.navTo("employee", { id: "42" });
+// @ts-expect-error unknown route name
+router.navTo("employees", { id: "42" });
+// @ts-expect-error unknown route name
+void router.navigate("hoem");
+// @ts-expect-error unknown route name
+router.addRouteGuard("employe", () => true);
+// @ts-expect-error unknown route name
+router.addLeaveGuard("serch", () => true);
+
+const routeName: RouteName = "files";
+// @ts-expect-error RouteName only holds route names
+const notARoute: RouteName = "settings";
+
+// ============================================================
+// Route parameters
+// ============================================================
+router.navTo("employee", { id: "42", tab: "profile" });
+router.navTo("employee", { id: "42" }, true);
+router.navTo("employee", { id: "42" }, undefined, false, { skipGuards: true });
+router.navTo("files");
+router.navTo("files", { "path*": "a/b" });
+router.navTo("search", { "?query": { q: "x" } });
+void router.navigate("employee", { id: "42" }, { replace: true });
+// @ts-expect-error missing required parameter
+router.navTo("employee");
+// @ts-expect-error missing required parameter
+router.navTo("employee", { tab: "profile" });
+// @ts-expect-error missing required query parameter
+router.navTo("search");
+// @ts-expect-error parameters must be strings
+router.navTo("employee", { id: 42 });
+// @ts-expect-error unknown parameter
+void router.navigate("employee", { id: "42", idx: "1" });
+
+// ============================================================
+// Route metadata
+// ============================================================
+const section: string = router.getRouteMeta("employee").section;
+const roles: readonly string[] = router.getRouteMeta("employee").roles;
+const isPublic: boolean = router.getRouteMeta("home").public;
+// @ts-expect-error unknown route name
+router.getRouteMeta("employe");
+// @ts-expect-error metadata of another route
+const wrongKey: string = router.getRouteMeta("employee").public;
+
+// ============================================================
+// Guard contexts
+// ============================================================
+router.addRouteGuard("employee", (context) => context.toArguments.id !== "");
+router.addRouteGuard("employee", (context) => {
+	// @ts-expect-error not a parameter of the route
+	return context.toArguments.query !== undefined;
+});
+router.addGuard((context) => {
+	if (context.toRoute === "employee") return context.toArguments.id.length > 0;
+	return true;
+});
+router.addResolver("employee", "record", (context) => context.toArguments.id);
+
+const employeeGuard = (context: TypedGuardContext<Routes, "employee">): boolean => context.toArguments.tab !== "";
+router.addRouteGuard("employee", employeeGuard);
+// @ts-expect-error guard typed for another route
+router.addRouteGuard("home", employeeGuard);
+
+// ============================================================
+// Chaining and assignability
+// ============================================================
+const chained: AppRouter = router.addRouteGuard("home", () => true).addGuard(() => true);
+const untyped: GuardRouter = router;
+const plain: TypedGuardRouter<Routes> = router;
+
+export { chained, isPublic, notARoute, plain, roles, routeName, section, untyped, wrongKey };
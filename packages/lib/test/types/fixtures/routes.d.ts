@@ -0,0 +1,18 @@
+// Generated by ui5-guard-router-routes from manifest.json. Do not edit.
+import type { TypedGuardRouter } from "ui5/guard/router/types";
+
+export type Routes = {
+	home: Record<string, never>;
+	employee: { id: string; tab?: string };
+	search: { "?query": Record<string, string> };
+	files: { "path*"?: string };
+};
+
+export type RouteMeta = {
+	employee: { section: string; roles: string[] };
+	home: { public: boolean };
+};
+
+export type RouteName = keyof Routes;
+
+export type AppRouter = TypedGuardRouter<Routes, RouteMeta>;
@@ -0,0 +1,40 @@
+import { readFile, writeFile } from "node:fs/promises";
+import path from "node:path";
+import process from "node:process";
+import ts from "typescript";
+
+const repoRoot = path.resolve(import.meta.dirname, "..");
+const sourcePath = path.join(repoRoot, "packages/lib/src/modulePath.ts");
+const outPath = path.join(repoRoot, "packages/lib/cli/module-path.mjs");
+
+/**
+ * Transpile src/modulePath.ts into the ES module the manifest validator
+ * imports, so the CLI resolves module paths with the router's own code.
+ */
+async function main() {
+	const check = process.argv.includes("--check");
+	const { outputText } = ts.transpileModule(await readFile(sourcePath, "utf8"), {
+		compilerOptions: { module: ts.ModuleKind.ESNext, target: ts.ScriptTarget.ES2022, removeComments: false },
+	});
+	const contents = [
+		"// Generated from src/modulePath.ts by scripts/generate-cli-module-path.mjs. Do not edit.",
+		outputText.replace(/^(?: {4})+/gmu, (indent) => "\t".repeat(indent.length / 4)),
+	].join("\n");
+
+	if (check) {
+		const current = await readFile(outPath, "utf8").catch(() => null);
+		if (current !== contents) {
+			console.error(`${path.relative(process.cwd(), outPath)} is outdated, run npm run generate:cli`);
+			process.exitCode = 1;
+		}
+		return;
+	}
+
+	await writeFile(outPath, contents);
+	console.log(`Wrote ${path.relative(process.cwd(), outPath)}`);
+}
+
+main().catch((error) => {
+	console.error(error instanceof Error ? error.message : error);
+	process.exitCode = 1;
+});